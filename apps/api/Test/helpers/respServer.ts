@@ -0,0 +1,113 @@
+import * as net from "net";
+import type { AddressInfo } from "net";
+import { RespReader, type RespValue, encodeValue } from "../../src/core/broker/index.js";
+
+export type RespServer = {
+	url: string;
+	subscriberCount(channel: string): number;
+	connectionCount(): number; // Connections accepted so far, including closed ones
+	close(): Promise<void>;
+};
+
+export type RespServerOptions = {
+	password?: string; // Required with AUTH before any other command when set
+};
+
+/**
+ * Local stand-in for a Redis server that implements the pub/sub commands RedisBroker uses
+ * (AUTH, PING, SUBSCRIBE, UNSUBSCRIBE, PUBLISH)
+ */
+export async function startRespServer(options: RespServerOptions = {}): Promise<RespServer> {
+	const subscriptions = new Map<net.Socket, Set<string>>();
+	const authenticated = new Set<net.Socket>();
+	let connections = 0;
+
+	// Everything but AUTH is refused until the connection authenticated, as Redis does
+	const isAllowed = (socket: net.Socket, command: RespValue) =>
+		!options.password ||
+		authenticated.has(socket) ||
+		(Array.isArray(command) && String(command[0]).toUpperCase() === "AUTH");
+
+	const authenticate = (socket: net.Socket, password: string | undefined): RespValue => {
+		if (options.password && password !== options.password) {
+			return new Error("WRONGPASS invalid username-password pair");
+		}
+		authenticated.add(socket);
+		return "OK";
+	};
+
+	const handle = (socket: net.Socket, command: RespValue): RespValue[] => {
+		if (!Array.isArray(command) || typeof command[0] !== "string") {
+			return [new Error("ERR protocol error")];
+		}
+		const [name, ...args] = command as string[];
+		const channels = subscriptions.get(socket) ?? new Set<string>();
+		subscriptions.set(socket, channels);
+
+		switch (name.toUpperCase()) {
+			case "AUTH":
+				return [authenticate(socket, args.at(-1))];
+			case "PING":
+				return ["PONG"];
+			case "SUBSCRIBE":
+				return args.map((channel) => {
+					channels.add(channel);
+					return ["subscribe", channel, channels.size];
+				});
+			case "UNSUBSCRIBE":
+				return args.map((channel) => {
+					channels.delete(channel);
+					return ["unsubscribe", channel, channels.size];
+				});
+			case "PUBLISH": {
+				const [channel, message] = args;
+				let receivers = 0;
+				for (const [subscriber, subscribed] of subscriptions) {
+					if (subscribed.has(channel)) {
+						subscriber.write(encodeValue(["message", channel, message]));
+						receivers++;
+					}
+				}
+				return [receivers];
+			}
+			default:
+				return [new Error(`ERR unknown command '${name}'`)];
+		}
+	};
+
+	const server = net.createServer((socket) => {
+		connections++;
+		const reader = new RespReader();
+		socket.on("data", (chunk: Buffer) => {
+			for (const command of reader.push(chunk)) {
+				const replies = isAllowed(socket, command)
+					? handle(socket, command)
+					: [new Error("NOAUTH Authentication required.")];
+				for (const reply of replies) {
+					socket.write(encodeValue(reply));
+				}
+			}
+		});
+		socket.on("error", () => {});
+		socket.on("close", () => {
+			subscriptions.delete(socket);
+			authenticated.delete(socket);
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+
+	return {
+		url: `redis://127.0.0.1:${port}`,
+		subscriberCount: (channel) =>
+			[...subscriptions.values()].filter((channels) => channels.has(channel)).length,
+		connectionCount: () => connections,
+		close: () =>
+			new Promise<void>((resolve) => {
+				for (const socket of subscriptions.keys()) {
+					socket.destroy();
+				}
+				server.close(() => resolve());
+			}),
+	};
+}
@@ -0,0 +1,49 @@
+import type { PrismaClient } from "@prisma/client";
+import { vi } from "vitest";
+
+export const testUsers = [
+	{ id: 1, username: "alice", externalId: "user:1", email: null, displayName: null, role: "user" },
+	{ id: 2, username: "bob", externalId: "user:2", email: null, displayName: null, role: "user" },
+];
+
+// Only what connecting with a token needs; nothing here touches a database
+const prismaStub = {
+	user: {
+		findFirst: async ({ where }: { where: { externalId: string } }) =>
+			testUsers.find((user) => user.externalId === where.externalId) ?? null,
+	},
+	$disconnect: async () => {},
+} as unknown as PrismaClient;
+
+export type TestServer = Awaited<ReturnType<typeof startTestServer>>;
+
+/**
+ * Start a ServerApp on a free port with its own module graph (so its own event bus, rooms
+ * and presence), reading the environment as it is when called. brokerUrl is empty for an
+ * in-process broker.
+ */
+export async function startTestServer(brokerUrl = "") {
+	vi.resetModules();
+	process.env.BROKER_URL = brokerUrl;
+	const { ServerApp } = await import("../../src/core/server/index.js");
+	const { JwtService } = await import("../../src/core/auth/index.js");
+	const { eventBus } = await import("../../src/core/events/index.js");
+	const { rooms, userRoom } = await import("../../src/core/rooms/index.js");
+
+	const jwtService = new JwtService({
+		issuer: "local",
+		clientId: "test",
+		redirectUri: "http://localhost:5173/",
+	});
+	const app = new ServerApp(prismaStub, jwtService);
+	const port = await app.start(0);
+	const token = (userId: number, expiresInSeconds = 3600) =>
+		jwtService.signAccessToken({
+			sub: `user:${userId}`,
+			aud: "api://default",
+			iss: "local",
+			exp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+			iat: Math.floor(Date.now() / 1000),
+		});
+	return { app, port, token, eventBus, rooms, userRoom };
+}
@@ -0,0 +1,114 @@
+import superjson from "superjson";
+import { WebSocket } from "ws";
+
+export const TEST_ORIGIN = "http://localhost:5173";
+
+/**
+ * Speaks the tRPC WebSocket protocol with superjson-encoded inputs and outputs
+ */
+export class TestClient {
+	private nextId = 1;
+	private readonly handlers = new Map<number, (message: Record<string, unknown>) => void>();
+
+	/**
+	 * Resolves with the close code and reason once the connection is closed
+	 */
+	readonly closed: Promise<{ code: number; reason: string }>;
+
+	private constructor(private readonly socket: WebSocket) {
+		socket.on("message", (data) => {
+			const message = JSON.parse(data.toString()) as Record<string, unknown>;
+			this.handlers.get(message.id as number)?.(message);
+		});
+		this.closed = new Promise((resolve) => {
+			socket.once("close", (code, reason) => resolve({ code, reason: reason.toString() }));
+		});
+	}
+
+	/**
+	 * Connect with the token in the Authorization header, in the deprecated URL query
+	 * parameter, or without one (null) to authenticate with auth.handshake
+	 */
+	static async connect(
+		port: number,
+		token: string | null,
+		via: "header" | "query" = "header"
+	): Promise<TestClient> {
+		const url = new URL(`ws://127.0.0.1:${port}`);
+		const headers: Record<string, string> = {};
+		if (token !== null && via === "header") headers.authorization = `Bearer ${token}`;
+		if (token !== null && via === "query") url.searchParams.set("authorization", `Bearer ${token}`);
+		const socket = new WebSocket(url, { origin: TEST_ORIGIN, headers });
+		await new Promise((resolve, reject) => {
+			socket.once("open", resolve);
+			socket.once("error", reject);
+		});
+		return new TestClient(socket);
+	}
+
+	get isOpen(): boolean {
+		return this.socket.readyState === WebSocket.OPEN;
+	}
+
+	query<T>(path: string, input: unknown): Promise<T> {
+		return this.call("query", path, input);
+	}
+
+	mutate<T>(path: string, input: unknown): Promise<T> {
+		return this.call("mutation", path, input);
+	}
+
+	/**
+	 * Start a subscription; resolves once the server has started it
+	 */
+	subscribe<T>(path: string, input: unknown, received: T[]): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const id = this.send("subscription", path, input);
+			this.handlers.set(id, (message) => {
+				const result = message.result as
+					| { type: "started" }
+					| { type: "data"; data: Parameters<typeof superjson.deserialize>[0] }
+					| undefined;
+				if (message.error) reject(new Error(JSON.stringify(message.error)));
+				else if (result?.type === "started") resolve();
+				else if (result?.type === "data") received.push(superjson.deserialize<T>(result.data));
+			});
+		});
+	}
+
+	close(): void {
+		this.socket.close();
+	}
+
+	private call<T>(method: "query" | "mutation", path: string, input: unknown): Promise<T> {
+		return new Promise((resolve, reject) => {
+			const id = this.send(method, path, input);
+			this.handlers.set(id, (message) => {
+				this.handlers.delete(id);
+				const result = message.result as { data: Parameters<typeof superjson.deserialize>[0] };
+				if (message.error) reject(new Error(JSON.stringify(message.error)));
+				else resolve(superjson.deserialize<T>(result.data));
+			});
+		});
+	}
+
+	private send(
+		method: "query" | "mutation" | "subscription",
+		path: string,
+		input: unknown
+	): number {
+		const id = this.nextId++;
+		const params = { path, input: superjson.serialize(input) };
+		this.socket.send(JSON.stringify({ id, jsonrpc: "2.0", method, params }));
+		return id;
+	}
+}
+
+export async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 5000) {
+	const deadline = Date.now() + timeoutMs;
+	while (!(await condition())) {
+		if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+		// Polled queries count against the rate limit, so do not poll too often
+		await new Promise((resolve) => setTimeout(resolve, 50));
+	}
+}
@@ -0,0 +1,125 @@
+import "reflect-metadata";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { WEBSOCKET_CLOSE_CODES } from "../../src/constants/index.js";
+import type { RoomMessage } from "../../src/core/rooms/index.js";
+import { type RespServer, startRespServer } from "../helpers/respServer.js";
+import { type TestServer, startTestServer } from "../helpers/testServer.js";
+import { TEST_ORIGIN, TestClient, waitFor } from "../helpers/trpcClient.js";
+
+/**
+ * Two ServerApp instances, each with its own module graph (so its own event bus, rooms
+ * and presence), sharing a broker through a local Redis-protocol stand-in
+ */
+
+describe("ServerApp instances sharing a broker", () => {
+	let standIn: RespServer;
+	let a: TestServer;
+	let b: TestServer;
+	const clients: TestClient[] = [];
+
+	beforeAll(async () => {
+		process.env.JWT_SECRET ??= "cluster-test-secret-at-least-32-characters";
+		process.env.ALLOWED_WS_ORIGIN = TEST_ORIGIN;
+		standIn = await startRespServer();
+		a = await startTestServer(standIn.url);
+		b = await startTestServer(standIn.url);
+	});
+
+	afterAll(async () => {
+		for (const client of clients) client.close();
+		await a?.app.stop();
+		await b?.app.stop();
+		await standIn?.close();
+		process.env.BROKER_URL = "";
+	});
+
+	async function connect(instance: TestServer, userId: number) {
+		const client = await TestClient.connect(instance.port, instance.token(userId));
+		clients.push(client);
+		return client;
+	}
+
+	it("delivers events published on one instance to subscribers on the other", async () => {
+		const received: { id: number }[] = [];
+		const bob = await connect(b, 2);
+		await bob.subscribe("posts.onDeleted", undefined, received);
+		await waitFor(() => standIn.subscriberCount("event:posts.deleted") === 1);
+
+		a.eventBus.publish("posts.deleted", { id: 42 });
+		await waitFor(() => received.length === 1);
+		expect(received).toEqual([{ id: 42 }]);
+	});
+
+	it("delivers room events such as admin broadcasts to the recipient on the other instance", async () => {
+		const received: RoomMessage<{ title: string | null }>[] = [];
+		const alice = await connect(b, 1);
+		await alice.subscribe("notifications.onNotification", undefined, received);
+		await waitFor(() => standIn.subscriberCount("room:user:1") === 1);
+
+		a.rooms.publish(a.userRoom(1), "notifications.created", {
+			id: 1,
+			userId: 1,
+			type: "broadcast",
+			title: "Maintenance",
+			message: "Tonight at 22:00",
+			postId: null,
+			commentId: null,
+			postTitle: null,
+			actor: null,
+			createdAt: new Date("2026-01-01T00:00:00Z"),
+			readAt: null,
+			toast: true,
+		});
+		await waitFor(() => received.length === 2);
+		expect(received[0]).toMatchObject({ type: "ready", resync: false });
+		expect(received[1]).toMatchObject({
+			type: "event",
+			data: { title: "Maintenance", createdAt: new Date("2026-01-01T00:00:00Z") },
+		});
+	});
+
+	it("shares presence across instances", async () => {
+		for (const client of clients.splice(0)) client.close();
+		const changes: { user: { username: string }; online: boolean }[] = [];
+		const bob = await connect(b, 2);
+		await bob.subscribe("presence.onChange", {}, changes);
+		const online = async () => {
+			const list = await bob.query<{ online: { username: string }[] }>("presence.list", {});
+			return list.online.map((user) => user.username);
+		};
+		await waitFor(async () => !(await online()).includes("alice"));
+
+		const alice = await connect(a, 1);
+		await waitFor(async () => (await online()).includes("alice"));
+		expect(changes).toContainEqual(
+			expect.objectContaining({
+				online: true,
+				user: expect.objectContaining({ username: "alice" }),
+			})
+		);
+
+		alice.close();
+		await waitFor(() =>
+			changes.some((change) => change.user.username === "alice" && !change.online)
+		);
+		expect(await online()).toEqual(["bob"]);
+	});
+
+	it("closes a terminated user's connections on every instance", async () => {
+		const aliceOnA = await connect(a, 1);
+		const aliceOnB = await connect(b, 1);
+		const bob = await connect(b, 2);
+		// Connections are registered to their user once authenticated
+		await Promise.all([aliceOnA, aliceOnB, bob].map((client) => client.query("presence.list", {})));
+
+		a.eventBus.publish("sessions.terminated", { userId: 1 });
+
+		const terminated = {
+			code: WEBSOCKET_CLOSE_CODES.SESSION_TERMINATED,
+			reason: "Session terminated by an administrator",
+		};
+		expect(await aliceOnA.closed).toEqual(terminated);
+		expect(await aliceOnB.closed).toEqual(terminated);
+		expect(bob.isOpen).toBe(true);
+	});
+});
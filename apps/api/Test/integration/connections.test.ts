@@ -0,0 +1,199 @@
+import "reflect-metadata";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { WEBSOCKET_CLOSE_CODES } from "../../src/constants/index.js";
+import { type TestServer, startTestServer } from "../helpers/testServer.js";
+import { TEST_ORIGIN, TestClient, waitFor } from "../helpers/trpcClient.js";
+
+describe("Per-user WebSocket connection limit", () => {
+	let server: TestServer | null = null;
+	const clients: TestClient[] = [];
+
+	beforeAll(() => {
+		process.env.JWT_SECRET ??= "connections-test-secret-at-least-32-characters";
+		process.env.ALLOWED_WS_ORIGIN = TEST_ORIGIN;
+		process.env.MAX_WS_CONNECTIONS_PER_USER = "2";
+	});
+
+	afterEach(async () => {
+		for (const client of clients.splice(0)) client.close();
+		await server?.app.stop();
+		server = null;
+	});
+
+	afterAll(() => {
+		process.env.MAX_WS_CONNECTIONS_PER_USER = "";
+		process.env.WS_CONNECTION_LIMIT_POLICY = "";
+	});
+
+	async function connect(userId: number) {
+		if (!server) throw new Error("Server not started");
+		const client = await TestClient.connect(server.port, server.token(userId));
+		clients.push(client);
+		// Authentication is done once a query succeeds
+		await client.query("presence.list", {});
+		return client;
+	}
+
+	it("closes the user's oldest connection for a new one", async () => {
+		process.env.WS_CONNECTION_LIMIT_POLICY = "";
+		server = await startTestServer();
+		const first = await connect(1);
+		const second = await connect(1);
+		const bob = await connect(2);
+		const third = await connect(1);
+
+		expect(await first.closed).toEqual({
+			code: WEBSOCKET_CLOSE_CODES.CONNECTION_REPLACED,
+			reason: "Replaced by a newer connection",
+		});
+		expect([second.isOpen, third.isOpen, bob.isOpen]).toEqual([true, true, true]);
+	});
+
+	it("rejects the new connection with the reject policy", async () => {
+		process.env.WS_CONNECTION_LIMIT_POLICY = "reject";
+		server = await startTestServer();
+		const first = await connect(1);
+		await connect(1);
+		const { port } = server;
+		const token = server.token(1);
+		const rejected = await TestClient.connect(port, token);
+		clients.push(rejected);
+
+		expect((await rejected.closed).code).toBe(WEBSOCKET_CLOSE_CODES.TOO_MANY_CONNECTIONS);
+		// Room for a new connection once the server has seen the first one close
+		first.close();
+		await waitFor(async () => {
+			const retry = await TestClient.connect(port, token);
+			clients.push(retry);
+			const outcome = await Promise.race([
+				retry.query("presence.list", {}).then(() => "accepted"),
+				retry.closed.then(() => "rejected"),
+			]);
+			return outcome === "accepted";
+		});
+	});
+});
+
+describe("In-band WebSocket reauthentication", () => {
+	let server: TestServer | null = null;
+	const clients: TestClient[] = [];
+
+	beforeAll(async () => {
+		process.env.JWT_SECRET ??= "connections-test-secret-at-least-32-characters";
+		process.env.ALLOWED_WS_ORIGIN = TEST_ORIGIN;
+		// Expired connections are closed on the heartbeat
+		process.env.WS_HEARTBEAT_INTERVAL_MS = "100";
+		server = await startTestServer();
+	});
+
+	afterEach(() => {
+		for (const client of clients.splice(0)) client.close();
+	});
+
+	afterAll(async () => {
+		await server?.app.stop();
+		process.env.WS_HEARTBEAT_INTERVAL_MS = "";
+	});
+
+	async function connect(token: string) {
+		if (!server) throw new Error("Server not started");
+		const client = await TestClient.connect(server.port, token);
+		clients.push(client);
+		await client.query("presence.list", {});
+		return client;
+	}
+
+	it("keeps a connection open past the expiry of a token it has replaced", async () => {
+		if (!server) throw new Error("Server not started");
+		const renewed = await connect(server.token(1, 2));
+		const expiring = await connect(server.token(1, 2));
+
+		const { expiresAt } = await renewed.mutate<{ expiresAt: Date }>("auth.reauthenticate", {
+			token: server.token(1, 3600),
+		});
+		expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 60_000);
+
+		expect(await expiring.closed).toEqual({
+			code: WEBSOCKET_CLOSE_CODES.TOKEN_EXPIRED,
+			reason: "Token expired",
+		});
+		expect(renewed.isOpen).toBe(true);
+		await renewed.query("presence.list", {});
+	});
+
+	it("rejects a token of another user and keeps the connection", async () => {
+		if (!server) throw new Error("Server not started");
+		const alice = await connect(server.token(1));
+
+		await expect(alice.mutate("auth.reauthenticate", { token: server.token(2) })).rejects.toThrow(
+			"UNAUTHORIZED"
+		);
+		await expect(alice.mutate("auth.reauthenticate", { token: "not-a-token" })).rejects.toThrow(
+			"UNAUTHORIZED"
+		);
+		expect(alice.isOpen).toBe(true);
+	});
+});
+
+describe("WebSocket authentication without the token in the URL", () => {
+	let server: TestServer | null = null;
+	const clients: TestClient[] = [];
+
+	beforeAll(() => {
+		process.env.JWT_SECRET ??= "connections-test-secret-at-least-32-characters";
+		process.env.ALLOWED_WS_ORIGIN = TEST_ORIGIN;
+	});
+
+	afterEach(async () => {
+		for (const client of clients.splice(0)) client.close();
+		await server?.app.stop();
+		server = null;
+	});
+
+	afterAll(() => {
+		process.env.WS_ALLOW_QUERY_TOKEN = "";
+	});
+
+	async function connect(token: string | null, via: "header" | "query" = "header") {
+		if (!server) throw new Error("Server not started");
+		const client = await TestClient.connect(server.port, token, via);
+		clients.push(client);
+		return client;
+	}
+
+	it("authenticates with the token of the first message", async () => {
+		server = await startTestServer();
+		const client = await connect(null);
+
+		expect(await client.mutate("auth.handshake", { token: server.token(1) })).toEqual({
+			authenticated: true,
+		});
+	});
+
+	it("leaves a connection anonymous when its first message is not a handshake", async () => {
+		server = await startTestServer();
+		const client = await connect(null);
+
+		await client.query("ping", undefined);
+		expect(await client.mutate("auth.handshake", { token: server.token(1) })).toEqual({
+			authenticated: false,
+		});
+	});
+
+	it("ignores a token in the URL unless WS_ALLOW_QUERY_TOKEN is set", async () => {
+		process.env.WS_ALLOW_QUERY_TOKEN = "";
+		server = await startTestServer();
+		const ignored = await connect(server.token(1), "query");
+		expect(await ignored.mutate("auth.handshake", { token: "" })).toEqual({
+			authenticated: false,
+		});
+		await server.app.stop();
+
+		process.env.WS_ALLOW_QUERY_TOKEN = "true";
+		server = await startTestServer();
+		const accepted = await connect(server.token(1), "query");
+		expect(await accepted.mutate("auth.handshake", { token: "" })).toEqual({
+			authenticated: true,
+		});
+	});
+});
@@ -0,0 +1,119 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import {
+	createThumbnail,
+	sanitizeFilename,
+	signAttachmentUrl,
+	verifyAttachmentSignature,
+} from "../../src/utils/attachments.js";
+import { sniffMimeType } from "../../src/utils/mime.js";
+
+const secret = "test-attachment-secret";
+
+function signedParams(url: string) {
+	const query = new URL(url, "http://localhost").searchParams;
+	return [query.get("expires"), query.get("sig")] as const;
+}
+
+describe("sniffMimeType", () => {
+	it("detects allowed types from their magic bytes", async () => {
+		const png = await sharp({
+			create: { width: 4, height: 4, channels: 3, background: "#fff" },
+		})
+			.png()
+			.toBuffer();
+		expect(sniffMimeType(png)).toBe("image/png");
+		expect(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]))).toBe("image/jpeg");
+		expect(sniffMimeType(Buffer.from("GIF89a\u0001\u0000"))).toBe("image/gif");
+		expect(sniffMimeType(Buffer.from("RIFF\u0000\u0000\u0000\u0000WEBPVP8 "))).toBe("image/webp");
+		expect(sniffMimeType(Buffer.from("%PDF-1.7\n"))).toBe("application/pdf");
+		expect(sniffMimeType(Buffer.from("こんにちは\nhello\r\n"))).toBe("text/plain");
+	});
+
+	it("never reports markup as an executable type", () => {
+		expect(sniffMimeType(Buffer.from("<svg onload=alert(1)></svg>"))).toBe("text/plain");
+		expect(sniffMimeType(Buffer.from("<!DOCTYPE html><script>alert(1)</script>"))).toBe(
+			"text/plain"
+		);
+	});
+
+	it("rejects binary data that is not on the allowlist", () => {
+		expect(sniffMimeType(Buffer.from([0x4d, 0x5a, 0x90, 0x00]))).toBeNull(); // executable
+		expect(sniffMimeType(Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00]))).toBeNull(); // zip
+		expect(sniffMimeType(Buffer.from([0xc3, 0x28]))).toBeNull(); // invalid UTF-8
+		expect(sniffMimeType(Buffer.alloc(0))).toBeNull();
+	});
+});
+
+describe("signed attachment URLs", () => {
+	const now = Date.UTC(2024, 0, 1, 12, 30);
+
+	it("accepts a URL signed for the same attachment and variant until it expires", () => {
+		const url = signAttachmentUrl(7, "thumbnail", { secret, now });
+		expect(url).toMatch(/^\/uploads\/7\/thumbnail\?expires=\d+&sig=[\w-]+$/);
+		const [expires, sig] = signedParams(url);
+
+		expect(verifyAttachmentSignature(7, "thumbnail", expires, sig, { secret, now })).toBe(true);
+		expect(verifyAttachmentSignature(7, "original", expires, sig, { secret, now })).toBe(false);
+		expect(verifyAttachmentSignature(8, "thumbnail", expires, sig, { secret, now })).toBe(false);
+		expect(
+			verifyAttachmentSignature(7, "thumbnail", expires, sig, {
+				secret,
+				now: Number(expires) * 1000,
+			})
+		).toBe(false);
+	});
+
+	it("rejects tampered, foreign or missing signatures", () => {
+		const [expires, sig] = signedParams(signAttachmentUrl(1, "original", { secret, now }));
+		const later = String(Number(expires) + 3600);
+
+		expect(verifyAttachmentSignature(1, "original", later, sig, { secret, now })).toBe(false);
+		expect(verifyAttachmentSignature(1, "original", expires, sig, { secret: "other", now })).toBe(
+			false
+		);
+		expect(verifyAttachmentSignature(1, "original", expires, null, { secret, now })).toBe(false);
+		expect(verifyAttachmentSignature(1, "original", "soon", sig, { secret, now })).toBe(false);
+	});
+
+	it("returns the same URL within a TTL window so browsers can cache files", () => {
+		const first = signAttachmentUrl(3, "original", { secret, now, ttlSeconds: 3600 });
+		const second = signAttachmentUrl(3, "original", {
+			secret,
+			now: now + 60_000,
+			ttlSeconds: 3600,
+		});
+		expect(second).toBe(first);
+		const [expires] = signedParams(first);
+		expect(Number(expires) * 1000 - now).toBeGreaterThanOrEqual(3600 * 1000);
+	});
+});
+
+describe("sanitizeFilename", () => {
+	it("keeps only the last path segment without control characters or quotes", () => {
+		expect(sanitizeFilename("../../etc/passwd")).toBe("passwd");
+		expect(sanitizeFilename("C:\\Users\\me\\写真 1.png")).toBe("写真 1.png");
+		expect(sanitizeFilename('a"b\u0000\r\nc.txt')).toBe("abc.txt");
+		expect(sanitizeFilename("..")).toBe("file");
+		expect(sanitizeFilename("")).toBe("file");
+	});
+});
+
+describe("createThumbnail", () => {
+	it("reports the image size and fits the thumbnail into the maximum dimension", async () => {
+		const image = await sharp({
+			create: { width: 1000, height: 500, channels: 3, background: "#336699" },
+		})
+			.jpeg()
+			.toBuffer();
+		const result = await createThumbnail(image);
+
+		expect(result).toMatchObject({ width: 1000, height: 500 });
+		const thumbnail = await sharp(result.thumbnail).metadata();
+		expect(thumbnail).toMatchObject({ format: "webp", width: 320, height: 160 });
+	});
+
+	it("throws for data that only looks like an image", async () => {
+		await expect(createThumbnail(Buffer.from([0xff, 0xd8, 0xff, 0x00]))).rejects.toThrow();
+	});
+});
@@ -0,0 +1,59 @@
+import { TRPCError } from "@trpc/server";
+import { describe, expect, it, vi } from "vitest";
+import {
+	hasPermission,
+	hasRole,
+	mergeRoles,
+	requirePermission,
+	requireRole,
+} from "../../src/utils/authorization.js";
+
+const userWith = (...roles: string[]) => ({ roles });
+
+describe("authorization utilities", () => {
+	it("merges OIDC roles with the local role without duplicates", () => {
+		expect(mergeRoles(["editor", "ADMIN"], "ADMIN")).toEqual(["editor", "ADMIN"]);
+		expect(mergeRoles([], "USER")).toEqual(["USER"]);
+	});
+
+	it("matches roles case-insensitively", () => {
+		expect(hasRole(userWith("admin"), "ADMIN")).toBe(true);
+		expect(hasRole(userWith("USER"), "ADMIN")).toBe(false);
+		expect(hasRole(null, "ADMIN")).toBe(false);
+	});
+
+	it("resolves permissions from roles", () => {
+		expect(hasPermission(userWith("ADMIN"), "users:manage")).toBe(true);
+		expect(hasPermission(userWith("USER"), "users:manage")).toBe(false);
+		expect(hasPermission(userWith("unknown"), "posts:write")).toBe(false);
+	});
+
+	it("rejects users without the required role with FORBIDDEN", () => {
+		const next = vi.fn();
+		const middleware = requireRole("ADMIN");
+
+		expect(() => middleware({ ctx: { user: userWith("USER") }, next })).toThrowError(
+			expect.objectContaining({ code: "FORBIDDEN" })
+		);
+		expect(next).not.toHaveBeenCalled();
+	});
+
+	it("rejects anonymous callers with UNAUTHORIZED", () => {
+		const middleware = requirePermission("users:read");
+
+		try {
+			middleware({ ctx: { user: null }, next: vi.fn() });
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(TRPCError);
+			expect((error as TRPCError).code).toBe("UNAUTHORIZED");
+		}
+	});
+
+	it("calls next when the permission is granted", () => {
+		const next = vi.fn().mockReturnValue("ok");
+		const middleware = requirePermission("users:manage");
+
+		expect(middleware({ ctx: { user: userWith("ADMIN") }, next })).toBe("ok");
+	});
+});
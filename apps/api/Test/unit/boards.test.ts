@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { collectBoardIds, wouldCreateCycle } from "../../src/utils/boards.js";
+
+const boards = [
+	{ id: 1, parentId: null },
+	{ id: 2, parentId: 1 },
+	{ id: 3, parentId: 2 },
+	{ id: 4, parentId: 1 },
+	{ id: 5, parentId: null },
+];
+
+describe("board hierarchy helpers", () => {
+	it("collects a board and all of its descendants", () => {
+		expect(collectBoardIds(boards, 1).sort()).toEqual([1, 2, 3, 4]);
+		expect(collectBoardIds(boards, 2).sort()).toEqual([2, 3]);
+		expect(collectBoardIds(boards, 5)).toEqual([5]);
+	});
+
+	it("detects moves that would create a cycle", () => {
+		expect(wouldCreateCycle(boards, 1, 3)).toBe(true);
+		expect(wouldCreateCycle(boards, 2, 2)).toBe(true);
+		expect(wouldCreateCycle(boards, 3, 4)).toBe(false);
+		expect(wouldCreateCycle(boards, 5, 1)).toBe(false);
+	});
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { type CommentRow, buildCommentTree } from "../../src/utils/commentTree.js";
+
+const row = (id: number, parentId: number | null, depth: number): CommentRow => ({
+	id,
+	parentId,
+	depth,
+	body: `comment ${id}`,
+	createdAt: new Date(0),
+	editedAt: null,
+	author: { id: 1, username: "alice" },
+});
+
+describe("buildCommentTree", () => {
+	it("nests replies under their parents in id order", () => {
+		const tree = buildCommentTree(
+			[row(1, null, 0), row(2, null, 0)],
+			[row(5, 1, 1), row(3, 1, 1), row(4, 3, 2)],
+			new Map([
+				[1, 2],
+				[3, 1],
+			]),
+			20
+		);
+
+		expect(tree.map((n) => n.id)).toEqual([1, 2]);
+		expect(tree[0].replies.map((n) => n.id)).toEqual([3, 5]);
+		expect(tree[0].replies[0].replies.map((n) => n.id)).toEqual([4]);
+		expect(tree[0].replyCount).toBe(2);
+		expect(tree[1].replies).toEqual([]);
+		expect(tree[1].replyCount).toBe(0);
+	});
+
+	it("limits replies per node and returns a cursor for the rest", () => {
+		const tree = buildCommentTree(
+			[row(1, null, 0)],
+			[row(2, 1, 1), row(3, 1, 1), row(4, 1, 1)],
+			new Map([[1, 3]]),
+			2
+		);
+
+		expect(tree[0].replies.map((n) => n.id)).toEqual([2, 3]);
+		expect(tree[0].nextRepliesCursor).toBe(3);
+	});
+
+	it("reports unloaded replies without a cursor", () => {
+		const tree = buildCommentTree([row(1, null, 0)], [], new Map([[1, 4]]), 20);
+
+		expect(tree[0].replies).toEqual([]);
+		expect(tree[0].replyCount).toBe(4);
+		expect(tree[0].nextRepliesCursor).toBeUndefined();
+	});
+});
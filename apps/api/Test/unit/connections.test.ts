@@ -0,0 +1,143 @@
+import { EventEmitter } from "events";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { WebSocket } from "ws";
+import { WEBSOCKET, WEBSOCKET_CLOSE_CODES } from "../../src/constants/index.js";
+import {
+	ConnectionRegistry,
+	connectionLimitsFromEnv,
+} from "../../src/core/server/handlers/index.js";
+
+/**
+ * Just enough of a ws socket for the registry: message and close events, and close()
+ */
+class FakeSocket extends EventEmitter {
+	closedWith: { code: number; reason: string } | null = null;
+
+	close(code: number, reason: string) {
+		this.closedWith = { code, reason };
+		this.emit("close", code, Buffer.from(reason));
+	}
+}
+
+function connect(registry: ConnectionRegistry, userId?: number) {
+	const socket = new FakeSocket();
+	registry.add(socket as unknown as WebSocket);
+	const accepted =
+		userId === undefined ? true : registry.authenticate(socket as unknown as WebSocket, userId);
+	return { socket, accepted };
+}
+
+describe("ConnectionRegistry", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("evicts the oldest connection of a user at the limit", () => {
+		const registry = new ConnectionRegistry({ maxPerUser: 2 });
+		const first = connect(registry, 1);
+		const second = connect(registry, 1);
+		const other = connect(registry, 2);
+		const third = connect(registry, 1);
+
+		expect(third.accepted).toBe(true);
+		expect(first.socket.closedWith).toEqual({
+			code: WEBSOCKET_CLOSE_CODES.CONNECTION_REPLACED,
+			reason: "Replaced by a newer connection",
+		});
+		expect(second.socket.closedWith).toBeNull();
+		expect(other.socket.closedWith).toBeNull();
+		expect(registry.countOf(1)).toBe(2);
+	});
+
+	it("rejects new connections at the limit with the reject policy", () => {
+		const registry = new ConnectionRegistry({ maxPerUser: 1, policy: "reject" });
+		const first = connect(registry, 1);
+		const second = connect(registry, 1);
+
+		expect(second.accepted).toBe(false);
+		expect(second.socket.closedWith?.code).toBe(WEBSOCKET_CLOSE_CODES.TOO_MANY_CONNECTIONS);
+		expect(first.socket.closedWith).toBeNull();
+
+		first.socket.close(1000, "Bye");
+		expect(registry.countOf(1)).toBe(0);
+		expect(connect(registry, 1).accepted).toBe(true);
+	});
+
+	it("closes connections without messages past their idle timeout", () => {
+		vi.useFakeTimers();
+		const registry = new ConnectionRegistry({
+			idleTimeoutAuthenticatedMs: 10_000,
+			idleTimeoutUnauthenticatedMs: 2_000,
+		});
+		const anonymous = connect(registry);
+		const quiet = connect(registry, 1);
+		const active = connect(registry, 2);
+
+		vi.advanceTimersByTime(2_000);
+		registry.closeIdle();
+		expect(anonymous.socket.closedWith?.code).toBe(WEBSOCKET_CLOSE_CODES.IDLE_TIMEOUT);
+		expect(quiet.socket.closedWith).toBeNull();
+
+		vi.advanceTimersByTime(7_000);
+		active.socket.emit("message", Buffer.from("{}"));
+		vi.advanceTimersByTime(1_000);
+		registry.closeIdle();
+		expect(quiet.socket.closedWith?.code).toBe(WEBSOCKET_CLOSE_CODES.IDLE_TIMEOUT);
+		expect(active.socket.closedWith).toBeNull();
+		expect(registry.countOf(1)).toBe(0);
+	});
+
+	it("closes connections whose token expired without being renewed", () => {
+		vi.useFakeTimers();
+		const registry = new ConnectionRegistry();
+		const expiring = connect(registry);
+		const renewed = connect(registry);
+		const anonymous = connect(registry);
+		const asSocket = (socket: FakeSocket) => socket as unknown as WebSocket;
+		registry.authenticate(asSocket(expiring.socket), 1, Date.now() + 1_000);
+		registry.authenticate(asSocket(renewed.socket), 1, Date.now() + 1_000);
+
+		vi.advanceTimersByTime(500);
+		registry.renew(asSocket(renewed.socket), Date.now() + 60_000);
+		vi.advanceTimersByTime(500);
+		registry.closeExpired();
+
+		expect(expiring.socket.closedWith).toEqual({
+			code: WEBSOCKET_CLOSE_CODES.TOKEN_EXPIRED,
+			reason: "Token expired",
+		});
+		expect(renewed.socket.closedWith).toBeNull();
+		expect(anonymous.socket.closedWith).toBeNull();
+		expect(registry.countOf(1)).toBe(1);
+	});
+
+	it("closes every connection of a user", () => {
+		const registry = new ConnectionRegistry();
+		const first = connect(registry, 1);
+		const second = connect(registry, 1);
+		const other = connect(registry, 2);
+
+		expect(registry.closeUser(1, WEBSOCKET_CLOSE_CODES.SESSION_TERMINATED, "Terminated")).toBe(2);
+		expect(first.socket.closedWith?.code).toBe(WEBSOCKET_CLOSE_CODES.SESSION_TERMINATED);
+		expect(second.socket.closedWith?.code).toBe(WEBSOCKET_CLOSE_CODES.SESSION_TERMINATED);
+		expect(other.socket.closedWith).toBeNull();
+		expect(registry.countOf(1)).toBe(0);
+		expect(registry.closeUser(1, WEBSOCKET_CLOSE_CODES.SESSION_TERMINATED, "Terminated")).toBe(0);
+	});
+
+	it("reads the limit and policy from the environment", () => {
+		expect(connectionLimitsFromEnv({})).toEqual({
+			maxPerUser: WEBSOCKET.MAX_CONNECTIONS_PER_USER,
+			policy: "evict-oldest",
+		});
+		expect(
+			connectionLimitsFromEnv({
+				MAX_WS_CONNECTIONS_PER_USER: "2",
+				WS_CONNECTION_LIMIT_POLICY: "reject",
+			})
+		).toEqual({ maxPerUser: 2, policy: "reject" });
+		expect(() => connectionLimitsFromEnv({ WS_CONNECTION_LIMIT_POLICY: "queue" })).toThrow(
+			"Unsupported WS_CONNECTION_LIMIT_POLICY: queue"
+		);
+	});
+});
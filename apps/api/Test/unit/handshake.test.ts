@@ -0,0 +1,66 @@
+import { EventEmitter } from "events";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { WebSocket } from "ws";
+import {
+	AUTH_HANDSHAKE_PATH,
+	parseHandshakeToken,
+	waitForHandshakeToken,
+} from "../../src/core/server/handlers/index.js";
+
+const frame = (message: unknown) => Buffer.from(JSON.stringify(message));
+
+const handshake = (token: unknown) => ({
+	id: "auth",
+	jsonrpc: "2.0",
+	method: "mutation",
+	params: { path: AUTH_HANDSHAKE_PATH, input: { json: { token } } },
+});
+
+describe("parseHandshakeToken", () => {
+	it("reads the token of an auth.handshake call", () => {
+		expect(parseHandshakeToken(frame(handshake("abc")))).toBe("abc");
+		expect(parseHandshakeToken(frame([handshake("abc"), { id: 1, method: "query" }]))).toBe("abc");
+	});
+
+	it("returns an empty token for anything else", () => {
+		expect(parseHandshakeToken(frame(handshake(42)))).toBe("");
+		expect(
+			parseHandshakeToken(
+				frame({ id: 1, method: "query", params: { path: "ping", input: { json: {} } } })
+			)
+		).toBe("");
+		expect(parseHandshakeToken(frame([]))).toBe("");
+		expect(parseHandshakeToken(Buffer.from("not json"))).toBe("");
+	});
+});
+
+describe("waitForHandshakeToken", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("resolves with the token of the first message only", async () => {
+		const socket = new EventEmitter();
+		const token = waitForHandshakeToken(socket as unknown as WebSocket);
+
+		socket.emit("message", frame(handshake("first")));
+		socket.emit("message", frame(handshake("second")));
+
+		expect(await token).toBe("first");
+		expect(socket.listenerCount("message")).toBe(0);
+		expect(socket.listenerCount("close")).toBe(0);
+	});
+
+	it("resolves empty when the socket closes or stays silent", async () => {
+		vi.useFakeTimers();
+		const closing = new EventEmitter();
+		const closed = waitForHandshakeToken(closing as unknown as WebSocket);
+		closing.emit("close");
+
+		const silent = waitForHandshakeToken(new EventEmitter() as unknown as WebSocket, 1000);
+		vi.advanceTimersByTime(1000);
+
+		expect(await closed).toBe("");
+		expect(await silent).toBe("");
+	});
+});
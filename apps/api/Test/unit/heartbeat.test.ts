@@ -0,0 +1,129 @@
+import { EventEmitter } from "events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { WebSocket } from "ws";
+import { HeartbeatMonitor, heartbeatOptionsFromEnv } from "../../src/core/server/handlers/index.js";
+
+/**
+ * Just enough of a ws socket for the monitor: pong and close events, ping() and terminate()
+ */
+class FakeSocket extends EventEmitter {
+	pings = 0;
+	terminated = false;
+
+	ping() {
+		this.pings++;
+	}
+
+	terminate() {
+		this.terminated = true;
+		this.emit("close", 1006, Buffer.alloc(0));
+	}
+}
+
+function track(monitor: HeartbeatMonitor) {
+	const socket = new FakeSocket();
+	monitor.track(socket as unknown as WebSocket);
+	return socket;
+}
+
+describe("HeartbeatMonitor", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("keeps connections that answer pings and measures their latency", () => {
+		const monitor = new HeartbeatMonitor({ intervalMs: 1000, maxMissed: 2 });
+		const socket = track(monitor);
+
+		for (let i = 0; i < 5; i++) {
+			monitor.sweep();
+			vi.advanceTimersByTime(40);
+			socket.emit("pong");
+			vi.advanceTimersByTime(960);
+		}
+
+		expect(socket.terminated).toBe(false);
+		expect(socket.pings).toBe(5);
+		expect(monitor.latencyOf(socket as unknown as WebSocket)).toBe(40);
+		expect(monitor.stats()).toMatchObject({
+			connections: 1,
+			latencyMs: { average: 40, max: 40 },
+			terminated: 0,
+		});
+	});
+
+	it("terminates a connection after the tolerated number of missed pongs", () => {
+		const monitor = new HeartbeatMonitor({ intervalMs: 1000, maxMissed: 2 });
+		const silent = track(monitor);
+		const alive = track(monitor);
+		const answer = () => alive.emit("pong");
+
+		monitor.sweep();
+		answer();
+		monitor.sweep(); // first miss is tolerated
+		answer();
+		expect(silent.terminated).toBe(false);
+
+		vi.advanceTimersByTime(1000);
+		monitor.sweep();
+
+		expect(silent.terminated).toBe(true);
+		expect(alive.terminated).toBe(false);
+		expect(monitor.stats()).toMatchObject({
+			connections: 1,
+			terminated: 1,
+			lastTerminatedAt: new Date().toISOString(),
+		});
+	});
+
+	it("measures latency from the first unanswered ping", () => {
+		const monitor = new HeartbeatMonitor({ intervalMs: 1000, maxMissed: 3 });
+		const socket = track(monitor);
+
+		monitor.sweep();
+		vi.advanceTimersByTime(1000);
+		monitor.sweep();
+		vi.advanceTimersByTime(200);
+		socket.emit("pong");
+
+		expect(monitor.latencyOf(socket as unknown as WebSocket)).toBe(1200);
+
+		// The late pong resets the miss count
+		monitor.sweep();
+		monitor.sweep();
+		monitor.sweep();
+		expect(socket.terminated).toBe(false);
+	});
+
+	it("stops tracking closed connections", () => {
+		const monitor = new HeartbeatMonitor();
+		const socket = track(monitor);
+		socket.emit("close", 1000, Buffer.alloc(0));
+
+		monitor.sweep();
+
+		expect(socket.pings).toBe(0);
+		expect(monitor.stats()).toEqual({
+			connections: 0,
+			latencyMs: { average: null, max: null },
+			terminated: 0,
+			lastTerminatedAt: null,
+		});
+	});
+
+	it("reads the interval and miss tolerance from the environment", () => {
+		expect(
+			heartbeatOptionsFromEnv({ WS_HEARTBEAT_INTERVAL_MS: "5000", WS_HEARTBEAT_MAX_MISSED: "4" })
+		).toEqual({ intervalMs: 5000, maxMissed: 4 });
+		expect(() => heartbeatOptionsFromEnv({ WS_HEARTBEAT_INTERVAL_MS: "0" })).toThrow(
+			"WS_HEARTBEAT_INTERVAL_MS must be a positive integer"
+		);
+		expect(() => heartbeatOptionsFromEnv({ WS_HEARTBEAT_MAX_MISSED: "many" })).toThrow(
+			"WS_HEARTBEAT_MAX_MISSED must be a positive integer"
+		);
+	});
+});
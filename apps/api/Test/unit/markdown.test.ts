@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { renderMarkdown } from "../../src/utils/markdown.js";
+import { normalizeMarkdown, sanitizeText } from "../../src/utils/sanitize.js";
+
+describe("renderMarkdown", () => {
+	it("renders common Markdown and GFM syntax", () => {
+		expect(renderMarkdown("# Title\n\n**bold** _em_ ~~gone~~ `code`")).toBe(
+			"<h1>Title</h1>\n<p><strong>bold</strong> <em>em</em> <del>gone</del> <code>code</code></p>"
+		);
+		expect(renderMarkdown("```ts\nconst a = 1;\n```")).toBe(
+			'<pre><code class="language-ts">const a = 1;\n</code></pre>'
+		);
+		expect(renderMarkdown("- [x] done")).toContain('<input type="checkbox" checked disabled>');
+	});
+
+	it("keeps line breaks within paragraphs", () => {
+		expect(renderMarkdown("first line  \nsecond line\n\nnext paragraph")).toBe(
+			"<p>first line<br>\nsecond line</p>\n<p>next paragraph</p>"
+		);
+	});
+
+	it("adds safe link attributes", () => {
+		expect(renderMarkdown("[site](https://example.com)")).toBe(
+			'<p><a href="https://example.com" rel="nofollow noopener noreferrer" target="_blank">site</a></p>'
+		);
+	});
+
+	describe("XSS vectors", () => {
+		const vectors: [string, string][] = [
+			["script tag", "<script>alert(1)</script>"],
+			["script with attributes", '<script src="https://evil.example/x.js"></script>'],
+			["mixed-case script", "<ScRiPt>alert(1)</sCrIpT>"],
+			["event handler on img", "<img src=x onerror=alert(1)>"],
+			["event handler on svg", "<svg onload=alert(1)></svg>"],
+			["event handler without quotes or spaces", "<a/onmouseover=alert(1)>x</a>"],
+			["javascript link", "[click](javascript:alert(1))"],
+			["encoded javascript link", "[click](jav&#x61;script:alert(1))"],
+			["javascript link with whitespace", '<a href=" javascript:alert(1)">x</a>'],
+			["data URL link", "[x](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)"],
+			["vbscript link", '<a href="vbscript:msgbox(1)">x</a>'],
+			["iframe", '<iframe src="javascript:alert(1)"></iframe>'],
+			["object", '<object data="javascript:alert(1)"></object>'],
+			["embed", '<embed src="javascript:alert(1)">'],
+			["style tag", "<style>body{background:url(javascript:alert(1))}</style>"],
+			["style attribute", '<p style="background:url(javascript:alert(1))">x</p>'],
+			["form action", '<form action="javascript:alert(1)"><button>x</button></form>'],
+			["meta refresh", '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">'],
+			["base href", '<base href="javascript:alert(1)//">'],
+			["image with javascript src", "![x](javascript:alert(1))"],
+			["nested tags", "<scr<script>ipt>alert(1)</script>"],
+			["html comment breakout", "<!--><script>alert(1)</script>-->"],
+		];
+
+		it.each(vectors)("neutralizes %s", (_name, source) => {
+			const html = renderMarkdown(source);
+			expect(html).not.toMatch(/<script|<iframe|<object|<embed|<style|<form|<meta|<base|<svg/i);
+			expect(html).not.toMatch(/\son\w+=/i);
+			expect(html).not.toMatch(/(href|src)="\s*(javascript|vbscript|data):/i);
+		});
+
+		it("drops id and name attributes to prevent DOM clobbering", () => {
+			expect(renderMarkdown('<a id="login" name="x" href="https://example.com">x</a>')).not.toMatch(
+				/\s(id|name)=/
+			);
+		});
+	});
+});
+
+describe("normalizeMarkdown", () => {
+	it("preserves line breaks and indentation while removing control characters", () => {
+		expect(normalizeMarkdown("\n\n  code\r\nline\u0000two  \n\n\n")).toBe("  code\nline two");
+	});
+});
+
+describe("sanitizeText", () => {
+	it("collapses whitespace for single-line text", () => {
+		expect(sanitizeText("  a\n\tb   c\u0007 ")).toBe("a b c");
+	});
+});
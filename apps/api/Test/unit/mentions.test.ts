@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { extractMentions } from "../../src/utils/mentions.js";
+
+describe("extractMentions", () => {
+	it("returns each mentioned username once, in order of appearance", () => {
+		expect(extractMentions("@alice thanks! cc @bob_2 and @alice, (@carol-x)")).toEqual([
+			"alice",
+			"bob_2",
+			"carol-x",
+		]);
+		expect(extractMentions("**@dave**: see above\n> @erin")).toEqual(["dave", "erin"]);
+	});
+
+	it("skips e-mail addresses, URLs and escaped @ signs", () => {
+		expect(
+			extractMentions("mail me@example.com or see https://example.com/@frank and \\@grace")
+		).toEqual([]);
+	});
+
+	it("ignores mentions inside inline code and fenced code blocks", () => {
+		const body = "run `npm i @types/node` then\n```\n@decorator\n```\nping @heidi\n~~~js\n@ivan";
+		expect(extractMentions(body)).toEqual(["heidi"]);
+	});
+
+	it("drops names longer than a username can be and caps the number of mentions", () => {
+		expect(extractMentions(`@${"a".repeat(51)} @ok`)).toEqual(["ok"]);
+		expect(extractMentions("@a @b @c @d", 2)).toEqual(["a", "b"]);
+	});
+});
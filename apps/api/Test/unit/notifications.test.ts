@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+	isQuietTime,
+	isValidTimeZone,
+	minutesInTimeZone,
+	toQuietHours,
+} from "../../src/utils/notifications.js";
+
+describe("minutesInTimeZone", () => {
+	it("returns minutes after local midnight", () => {
+		const instant = new Date("2024-01-01T15:30:00Z");
+		expect(minutesInTimeZone(instant, "UTC")).toBe(15 * 60 + 30);
+		expect(minutesInTimeZone(instant, "Asia/Tokyo")).toBe(30); // 00:30 JST
+		expect(minutesInTimeZone(new Date("2024-01-01T00:00:00Z"), "UTC")).toBe(0);
+	});
+});
+
+describe("isQuietTime", () => {
+	const at = (time: string) => new Date(`2024-01-01T${time}:00Z`);
+
+	it("checks a period within a single day, excluding its end", () => {
+		const quiet = { start: 9 * 60, end: 17 * 60, timeZone: "UTC" };
+		expect(isQuietTime(quiet, at("08:59"))).toBe(false);
+		expect(isQuietTime(quiet, at("09:00"))).toBe(true);
+		expect(isQuietTime(quiet, at("16:59"))).toBe(true);
+		expect(isQuietTime(quiet, at("17:00"))).toBe(false);
+	});
+
+	it("wraps past midnight when the end is before the start", () => {
+		const quiet = { start: 22 * 60, end: 7 * 60, timeZone: "UTC" };
+		expect(isQuietTime(quiet, at("23:30"))).toBe(true);
+		expect(isQuietTime(quiet, at("03:00"))).toBe(true);
+		expect(isQuietTime(quiet, at("07:00"))).toBe(false);
+		expect(isQuietTime(quiet, at("12:00"))).toBe(false);
+	});
+
+	it("uses the user's time zone", () => {
+		// 22:00-07:00 in Tokyo is 13:00-22:00 UTC
+		const quiet = { start: 22 * 60, end: 7 * 60, timeZone: "Asia/Tokyo" };
+		expect(isQuietTime(quiet, at("14:00"))).toBe(true);
+		expect(isQuietTime(quiet, at("23:00"))).toBe(false);
+	});
+
+	it("is never quiet without quiet hours or with an empty period", () => {
+		expect(isQuietTime(null, at("03:00"))).toBe(false);
+		expect(isQuietTime({ start: 60, end: 60, timeZone: "UTC" }, at("01:00"))).toBe(false);
+	});
+});
+
+describe("toQuietHours", () => {
+	it("requires both ends and defaults the time zone to UTC", () => {
+		expect(toQuietHours({ quietHoursStart: 60, quietHoursEnd: null, timeZone: "UTC" })).toBeNull();
+		expect(toQuietHours({ quietHoursStart: 60, quietHoursEnd: 120, timeZone: null })).toEqual({
+			start: 60,
+			end: 120,
+			timeZone: "UTC",
+		});
+	});
+});
+
+describe("isValidTimeZone", () => {
+	it("accepts IANA time zone names only", () => {
+		expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+		expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+	});
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PresenceEvent, TypingEvent } from "../../src/core/events/index.js";
+import { PresenceTracker, TypingTracker } from "../../src/core/presence/index.js";
+
+const alice = { id: 1, username: "alice" };
+const bob = { id: 2, username: "bob" };
+
+function createTracker() {
+	const events: PresenceEvent[] = [];
+	const tracker = new PresenceTracker((event) => events.push(event));
+	return { tracker, events };
+}
+
+describe("PresenceTracker", () => {
+	it("keeps a user online until their last connection closes", () => {
+		const { tracker, events } = createTracker();
+		tracker.connect("a1", alice);
+		tracker.connect("a2", alice);
+		tracker.connect("b1", bob);
+		expect(tracker.list().online).toEqual([alice, bob]);
+
+		tracker.disconnect("a1");
+		expect(tracker.list().online).toEqual([alice, bob]);
+		tracker.disconnect("a2");
+		tracker.disconnect("a2");
+		expect(tracker.list().online).toEqual([bob]);
+
+		expect(events).toEqual([
+			{ user: alice, online: true, postIds: [] },
+			{ user: bob, online: true, postIds: [] },
+			{ user: alice, online: false, postIds: [] },
+		]);
+	});
+
+	it("lists the viewers of a post while their watches are open", () => {
+		const { tracker, events } = createTracker();
+		tracker.connect("a1", alice);
+		tracker.connect("b1", bob);
+		const stopAlice = tracker.watch("a1", 10);
+		const stopBob = tracker.watch("b1", 10);
+		tracker.watch("b1", 20);
+		expect(tracker.list(10).viewers).toEqual([alice, bob]);
+		expect(tracker.list(20).viewers).toEqual([bob]);
+		expect(tracker.list().viewers).toEqual([]);
+
+		stopAlice();
+		stopAlice();
+		stopBob();
+		expect(tracker.list(10).viewers).toEqual([]);
+		expect(events.slice(2)).toEqual([
+			{ user: alice, online: true, postIds: [10] },
+			{ user: bob, online: true, postIds: [10] },
+			{ user: bob, online: true, postIds: [10, 20] },
+			{ user: alice, online: true, postIds: [] },
+			{ user: bob, online: true, postIds: [20] },
+		]);
+	});
+
+	it("only reports changes to the user's combined state", () => {
+		const { tracker, events } = createTracker();
+		tracker.connect("a1", alice);
+		tracker.connect("a2", alice);
+		const first = tracker.watch("a1", 10);
+		tracker.watch("a2", 10);
+		first();
+		expect(events).toEqual([
+			{ user: alice, online: true, postIds: [] },
+			{ user: alice, online: true, postIds: [10] },
+		]);
+		expect(tracker.list(10).viewers).toEqual([alice]);
+	});
+
+	it("drops the watches of a closed connection", () => {
+		const { tracker, events } = createTracker();
+		tracker.connect("a1", alice);
+		const stop = tracker.watch("a1", 10);
+		tracker.disconnect("a1");
+		stop();
+		expect(tracker.list(10)).toEqual({ online: [], viewers: [] });
+		expect(events.at(-1)).toEqual({ user: alice, online: false, postIds: [] });
+
+		// Watching on an unknown connection is a no-op
+		tracker.watch("missing", 10)();
+		expect(tracker.list(10).viewers).toEqual([]);
+	});
+});
+
+describe("TypingTracker", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function createTypingTracker() {
+		const events: TypingEvent[] = [];
+		const tracker = new TypingTracker((event) => events.push(event), 1_000);
+		return { tracker, events };
+	}
+
+	it("expires unless start is repeated within the TTL", () => {
+		const { tracker, events } = createTypingTracker();
+		tracker.start("a1", alice, 10);
+		vi.advanceTimersByTime(800);
+		tracker.start("a1", alice, 10);
+		vi.advanceTimersByTime(800);
+		expect(tracker.list(10)).toEqual([alice]);
+
+		vi.advanceTimersByTime(200);
+		expect(tracker.list(10)).toEqual([]);
+		expect(events).toEqual([
+			{ postId: 10, user: alice, typing: true },
+			{ postId: 10, user: alice, typing: false },
+		]);
+	});
+
+	it("stops on request and when the connection closes", () => {
+		const { tracker, events } = createTypingTracker();
+		tracker.start("a1", alice, 10);
+		tracker.start("b1", bob, 10);
+		tracker.start("b1", bob, 20);
+		tracker.stop("a1", 10);
+		tracker.stop("a1", 10);
+		tracker.disconnect("b1");
+
+		expect(tracker.list(10)).toEqual([]);
+		expect(tracker.list(20)).toEqual([]);
+		expect(events.filter((event) => !event.typing)).toEqual([
+			{ postId: 10, user: alice, typing: false },
+			{ postId: 10, user: bob, typing: false },
+			{ postId: 20, user: bob, typing: false },
+		]);
+	});
+
+	it("reports a user typing on several connections once", () => {
+		const { tracker, events } = createTypingTracker();
+		tracker.start("a1", alice, 10);
+		tracker.start("a2", alice, 10);
+		tracker.stop("a1", 10);
+		expect(events).toEqual([{ postId: 10, user: alice, typing: true }]);
+
+		tracker.disconnect("a2");
+		expect(events.at(-1)).toEqual({ postId: 10, user: alice, typing: false });
+	});
+});
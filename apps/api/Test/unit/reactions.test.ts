@@ -0,0 +1,82 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+import { summarizeReactions, toggleReaction } from "../../src/utils/reactions.js";
+
+describe("summarizeReactions", () => {
+	it("groups counts by target in display order and marks the viewer's reactions", () => {
+		const summaries = summarizeReactions(
+			[
+				{ targetId: 1, emoji: "🎉", count: 1 },
+				{ targetId: 1, emoji: "👍", count: 3 },
+				{ targetId: 2, emoji: "😢", count: 2 },
+			],
+			[{ targetId: 1, emoji: "👍" }]
+		);
+
+		expect(summaries.get(1)).toEqual([
+			{ emoji: "👍", count: 3, reacted: true },
+			{ emoji: "🎉", count: 1, reacted: false },
+		]);
+		expect(summaries.get(2)).toEqual([{ emoji: "😢", count: 2, reacted: false }]);
+		expect(summaries.has(3)).toBe(false);
+	});
+
+	it("skips empty groups", () => {
+		expect(summarizeReactions([{ targetId: 1, emoji: "👍", count: 0 }], []).size).toBe(0);
+	});
+});
+
+describe("toggleReaction", () => {
+	const key = { userId: 1, targetType: "post" as const, targetId: 2, emoji: "👍" };
+
+	function prismaWith(deleted: number, create: () => Promise<unknown>) {
+		return {
+			reaction: {
+				deleteMany: vi.fn().mockResolvedValue({ count: deleted }),
+				create: vi.fn(create),
+			},
+		} as unknown as PrismaClient;
+	}
+
+	it("removes an existing reaction and adds a missing one", async () => {
+		expect(
+			await toggleReaction(
+				prismaWith(1, async () => ({})),
+				key
+			)
+		).toEqual({
+			reacted: false,
+			changed: true,
+		});
+		expect(
+			await toggleReaction(
+				prismaWith(0, async () => ({})),
+				key
+			)
+		).toEqual({
+			reacted: true,
+			changed: true,
+		});
+	});
+
+	it("treats losing a concurrent add to the unique constraint as already reacted", async () => {
+		const conflict = new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+			code: "P2002",
+			clientVersion: Prisma.prismaVersion.client,
+		});
+		expect(
+			await toggleReaction(
+				prismaWith(0, () => Promise.reject(conflict)),
+				key
+			)
+		).toEqual({ reacted: true, changed: false });
+
+		const failure = new Error("connection lost");
+		await expect(
+			toggleReaction(
+				prismaWith(0, () => Promise.reject(failure)),
+				key
+			)
+		).rejects.toBe(failure);
+	});
+});
@@ -0,0 +1,231 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { type Broker, InProcessBroker } from "../../src/core/broker/index.js";
+import { RoomHub, type RoomHubOptions } from "../../src/core/rooms/index.js";
+
+type TestEvents = {
+	thread: { "message.added": { text: string } };
+	inbox: { "mail.received": { from: string }; "mail.read": { id: number } };
+};
+
+type Member = { userId: number };
+
+function createHub(broker: Broker = new InProcessBroker(), options: RoomHubOptions = {}) {
+	const hub = new RoomHub<TestEvents, Member>(broker, options);
+	hub.authorize("thread", () => true);
+	hub.authorize("inbox", (member, room) => member.userId === room.id);
+	return hub;
+}
+
+describe("RoomHub", () => {
+	it("delivers events to the members of the room only", async () => {
+		const hub = createHub();
+		const received: string[] = [];
+		await hub.join({ userId: 1 }, { kind: "thread", id: 1 }, (event) =>
+			received.push(`1:${event.payload.text}`)
+		);
+		await hub.join({ userId: 2 }, { kind: "thread", id: 2 }, (event) =>
+			received.push(`2:${event.payload.text}`)
+		);
+
+		hub.publish({ kind: "thread", id: 1 }, "message.added", { text: "hello" });
+		hub.publish({ kind: "thread", id: 3 }, "message.added", { text: "nobody" });
+
+		expect(received).toEqual(["1:hello"]);
+	});
+
+	it("keeps the event type with the payload", async () => {
+		const hub = createHub();
+		const received: unknown[] = [];
+		await hub.join({ userId: 5 }, { kind: "inbox", id: 5 }, (event) => received.push(event));
+
+		hub.publish({ kind: "inbox", id: 5 }, "mail.received", { from: "alice" });
+		hub.publish({ kind: "inbox", id: 5 }, "mail.read", { id: 3 });
+
+		expect(received).toEqual([
+			{ type: "mail.received", payload: { from: "alice" } },
+			{ type: "mail.read", payload: { id: 3 } },
+		]);
+	});
+
+	it("denies joins rejected by the hook and kinds without a hook", async () => {
+		const hub = new RoomHub<TestEvents, Member>();
+		hub.authorize("inbox", async (member, room) => member.userId === room.id);
+
+		expect(await hub.join({ userId: 1 }, { kind: "inbox", id: 2 }, () => {})).toBeNull();
+		expect(await hub.join({ userId: 1 }, { kind: "thread", id: 1 }, () => {})).toBeNull();
+		expect(await hub.join({ userId: 2 }, { kind: "inbox", id: 2 }, () => {})).toBeTypeOf(
+			"function"
+		);
+		expect(hub.memberCount({ kind: "inbox", id: 2 })).toBe(1);
+	});
+
+	it("checks the hook without joining", async () => {
+		const hub = new RoomHub<TestEvents, Member>();
+		hub.authorize("inbox", async (member, room) => member.userId === room.id);
+
+		expect(await hub.canJoin({ userId: 1 }, { kind: "inbox", id: 2 })).toBe(false);
+		expect(await hub.canJoin({ userId: 1 }, { kind: "thread", id: 1 })).toBe(false);
+		expect(await hub.canJoin({ userId: 2 }, { kind: "inbox", id: 2 })).toBe(true);
+		expect(hub.memberCount({ kind: "inbox", id: 2 })).toBe(0);
+	});
+
+	it("stops delivering after leaving and counts members", async () => {
+		const hub = createHub();
+		const room = { kind: "thread" as const, id: 1 };
+		const received: string[] = [];
+		const leave = await hub.join({ userId: 1 }, room, (event) => received.push(event.payload.text));
+		await hub.join({ userId: 2 }, room, () => {});
+		expect(hub.memberCount(room)).toBe(2);
+
+		leave?.();
+		leave?.();
+		hub.publish(room, "message.added", { text: "after" });
+
+		expect(received).toEqual([]);
+		expect(hub.memberCount(room)).toBe(1);
+	});
+
+	it("routes traffic through the broker it was given", async () => {
+		const published: [string, unknown][] = [];
+		const broker = new InProcessBroker();
+		const recording: Broker = {
+			publish: (channel, message) => {
+				published.push([channel, message]);
+				broker.publish(channel, message);
+			},
+			subscribe: (channel, handler) => broker.subscribe(channel, handler),
+			close: () => broker.close(),
+		};
+		const hub = createHub(recording);
+		const received: string[] = [];
+		await hub.join({ userId: 1 }, { kind: "thread", id: 7 }, (event) =>
+			received.push(event.payload.text)
+		);
+
+		hub.publish({ kind: "thread", id: 7 }, "message.added", { text: "hi" });
+
+		expect(published).toEqual([
+			["room:thread:7", { id: expect.any(String), type: "message.added", payload: { text: "hi" } }],
+		]);
+		expect(received).toEqual(["hi"]);
+	});
+});
+
+describe("RoomHub replay", () => {
+	const room = { kind: "thread" as const, id: 1 };
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	/**
+	 * Join and record the texts received, returning the id to resume from
+	 */
+	async function joinRecording(hub: RoomHub<TestEvents, Member>, lastEventId?: string) {
+		const received: string[] = [];
+		const ready: { id: string; resync: boolean }[] = [];
+		let lastSeen = lastEventId;
+		const leave = await hub.join(
+			{ userId: 1 },
+			room,
+			(event, id) => {
+				received.push(event.payload.text);
+				lastSeen = id;
+			},
+			{
+				lastEventId,
+				onReady: (id, resync) => {
+					ready.push({ id, resync });
+					lastSeen = id;
+				},
+			}
+		);
+		return { received, ready, leave, lastSeen: () => lastSeen };
+	}
+
+	it("numbers events in increasing order and replays those after lastEventId", async () => {
+		const hub = createHub();
+		const first = await joinRecording(hub);
+		hub.publish(room, "message.added", { text: "one" });
+		const afterOne = first.lastSeen();
+		hub.publish(room, "message.added", { text: "two" });
+		hub.publish(room, "message.added", { text: "three" });
+		first.leave?.();
+
+		const resumed = await joinRecording(hub, afterOne);
+		expect(resumed.received).toEqual(["two", "three"]);
+		expect(resumed.ready).toEqual([{ id: first.lastSeen(), resync: false }]);
+
+		const [epoch, seq] = (afterOne ?? "").split(":");
+		const [laterEpoch, laterSeq] = first.lastSeen()?.split(":") ?? [];
+		expect(laterEpoch).toBe(epoch);
+		expect(Number(laterSeq)).toBeGreaterThan(Number(seq));
+	});
+
+	it("requires a resync when the missed events no longer fit the buffer", async () => {
+		const hub = createHub(new InProcessBroker(), { replayBufferSize: 2 });
+		const member = await joinRecording(hub);
+		const joinedAt = member.lastSeen();
+		for (const text of ["a", "b", "c"]) {
+			hub.publish(room, "message.added", { text });
+		}
+
+		const tooOld = await joinRecording(hub, joinedAt);
+		expect(tooOld.received).toEqual([]);
+		expect(tooOld.ready).toEqual([{ id: member.lastSeen(), resync: true }]);
+
+		const otherHub = await joinRecording(createHub(), member.lastSeen());
+		expect(otherHub.ready[0]?.resync).toBe(true);
+
+		const upToDate = await joinRecording(hub, member.lastSeen());
+		expect(upToDate.ready).toEqual([{ id: member.lastSeen(), resync: false }]);
+	});
+
+	it("resumes on another hub that received the events, whoever published them", async () => {
+		const broker = new InProcessBroker();
+		const a = createHub(broker);
+		const b = createHub(broker);
+		const onA = await joinRecording(a);
+		const onB = await joinRecording(b);
+		b.publish(room, "message.added", { text: "one" });
+		const afterOne = onA.lastSeen();
+		a.publish(room, "message.added", { text: "two" });
+		onA.leave?.();
+
+		// The load balancer sends the reconnecting member to the other instance
+		const resumed = await joinRecording(b, afterOne);
+		expect(resumed.received).toEqual(["two"]);
+		expect(resumed.ready).toEqual([{ id: onB.lastSeen(), resync: false }]);
+		expect(onB.lastSeen()).toBe(onA.lastSeen());
+	});
+
+	it("does not replay transient events", async () => {
+		const hub = createHub();
+		const member = await joinRecording(hub);
+		const joinedAt = member.lastSeen();
+		hub.publish(room, "message.added", { text: "typing" }, { transient: true });
+		hub.publish(room, "message.added", { text: "kept" });
+		expect(member.received).toEqual(["typing", "kept"]);
+
+		const resumed = await joinRecording(hub, joinedAt);
+		expect(resumed.received).toEqual(["kept"]);
+	});
+
+	it("keeps buffering a room for a while after its last member leaves", async () => {
+		vi.useFakeTimers();
+		const hub = createHub(new InProcessBroker(), { retentionMs: 1000 });
+		const member = await joinRecording(hub);
+		member.leave?.();
+		hub.publish(room, "message.added", { text: "while away" });
+
+		const resumed = await joinRecording(hub, member.lastSeen());
+		expect(resumed.received).toEqual(["while away"]);
+		resumed.leave?.();
+
+		vi.advanceTimersByTime(1000);
+		hub.publish(room, "message.added", { text: "after expiry" });
+		const late = await joinRecording(hub, resumed.lastSeen());
+		expect(late.received).toEqual([]);
+		expect(late.ready[0]?.resync).toBe(true);
+	});
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildSnippet,
+	extractSearchTerms,
+	resolveDatabaseProvider,
+	toFtsMatchExpression,
+} from "../../src/core/search/index.js";
+
+describe("search helpers", () => {
+	it("splits queries into unique terms", () => {
+		expect(extractSearchTerms('  hello "World"  world 東京 ')).toEqual(["hello", "World", "東京"]);
+		expect(extractSearchTerms('""')).toEqual([]);
+	});
+
+	it("quotes FTS5 terms so query syntax is not interpreted", () => {
+		expect(toFtsMatchExpression(["foo", 'a"b', "OR"])).toBe('"foo" "a""b" "OR"');
+	});
+
+	it("detects the database provider from the connection string", () => {
+		expect(resolveDatabaseProvider("postgresql://localhost/db")).toBe("postgresql");
+		expect(resolveDatabaseProvider("postgres://localhost/db")).toBe("postgresql");
+		expect(resolveDatabaseProvider("file:./data/app.db")).toBe("sqlite");
+		expect(resolveDatabaseProvider(undefined)).toBe("sqlite");
+	});
+
+	it("highlights every term occurrence case-insensitively", () => {
+		expect(buildSnippet("Hello world, hello again", ["hello"])).toEqual([
+			{ text: "Hello", highlight: true },
+			{ text: " world, ", highlight: false },
+			{ text: "hello", highlight: true },
+			{ text: " again", highlight: false },
+		]);
+	});
+
+	it("centers long text on the first match", () => {
+		const text = `${"a".repeat(100)} needle ${"b".repeat(300)}`;
+		const snippet = buildSnippet(text, ["needle"], 80);
+
+		expect(snippet[0]).toEqual({ text: "…", highlight: false });
+		expect(snippet.at(-1)).toEqual({ text: "…", highlight: false });
+		expect(snippet.filter((s) => s.highlight).map((s) => s.text)).toEqual(["needle"]);
+		expect(snippet.map((s) => s.text).join("").length).toBe(82);
+	});
+
+	it("returns the start of the text when nothing matches", () => {
+		expect(buildSnippet("short text", ["missing"])).toEqual([
+			{ text: "short text", highlight: false },
+		]);
+	});
+});
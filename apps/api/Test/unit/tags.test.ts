@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { normalizeTag, normalizeTags } from "../../src/utils/tags.js";
+
+describe("tag normalization", () => {
+	it("lowercases, strips hashes and joins words with hyphens", () => {
+		expect(normalizeTag("  #TypeScript ")).toBe("typescript");
+		expect(normalizeTag("Release Notes")).toBe("release-notes");
+		expect(normalizeTag("ＡＰＩ")).toBe("api");
+		expect(normalizeTag("日本語")).toBe("日本語");
+	});
+
+	it("drops punctuation and returns an empty string when nothing is left", () => {
+		expect(normalizeTag("c++/c#")).toBe("cc");
+		expect(normalizeTag(" - !! - ")).toBe("");
+		expect(normalizeTag("a".repeat(100))).toHaveLength(32);
+	});
+
+	it("deduplicates after normalization and keeps input order", () => {
+		expect(normalizeTags(["News", "#news", "", "tips", "NEWS "])).toEqual(["news", "tips"]);
+	});
+});
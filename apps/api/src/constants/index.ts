@@ -75,6 +75,17 @@ export const WEBSOCKET = {
 	MAX_RECONNECT_ATTEMPTS: 10,
 } as const;
 
+/**
+ * Close codes the API sends on WebSocket connections (4000-4999 are reserved for applications)
+ */
+export const WEBSOCKET_CLOSE_CODES = {
+	IDLE_TIMEOUT: 4000, // No message received within the idle timeout
+	CONNECTION_REPLACED: 4001, // Oldest connection of a user evicted for a new one
+	TOO_MANY_CONNECTIONS: 4002, // New connection rejected, the user is at the limit
+	TOKEN_EXPIRED: 4003, // Access token expired without being replaced through auth.reauthenticate
+	SESSION_TERMINATED: 4004, // An administrator ended all sessions of the user (admin.forceLogout)
+} as const;
+
 export const SECURITY = {
 	BCRYPT_ROUNDS: 12,
 	CSRF_TOKEN_LENGTH: 32,
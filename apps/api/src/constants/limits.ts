@@ -9,6 +9,9 @@ export const MAX_WEBSOCKET_PAYLOAD_BYTES = 1_000_000; // 1MB
 // 接続数
 export const MAX_WEBSOCKET_CONNECTIONS = 1000;
 
+// ルームのイベント再送（これより古いイベントを取りこぼした購読には再取得を求める）
+export const ROOM_REPLAY_BUFFER_SIZE = 200; // 1ルームあたりに保持するイベント数
+
 // ページネーション
 export const DEFAULT_PAGE_SIZE = 50;
 export const MAX_PAGE_SIZE = 100;
@@ -17,3 +20,31 @@ export const MAX_PAGE_SIZE = 100;
 export const USERNAME_MIN_LENGTH = 3;
 export const USERNAME_MAX_LENGTH = 50;
 export const USERNAME_GENERATION_MAX_ATTEMPTS = 1000;
+
+// コメントスレッド
+export const MAX_COMMENT_DEPTH = 5; // トップレベルを含むネストの最大段数
+export const COMMENT_REPLIES_PAGE_SIZE = 20; // 1コメントあたりに一度に返す返信数
+
+// タグ
+export const MAX_TAGS_PER_POST = 5;
+export const TAG_MAX_LENGTH = 32;
+export const POPULAR_TAGS_LIMIT = 20;
+
+// 添付ファイル（サイズ上限とアップロード回数は BUSINESS_RULES / RATE_LIMITING を参照）
+export const MAX_ATTACHMENTS_PER_POST = 10; // 投稿・コメントそれぞれの上限
+export const ATTACHMENT_FILENAME_MAX_LENGTH = 255;
+export const THUMBNAIL_MAX_DIMENSION = 320; // サムネイルの長辺(px)
+
+// メンション
+export const MAX_MENTIONS_PER_POST = 20; // 1つの投稿・コメントで通知するユーザー数の上限
+export const USER_SEARCH_LIMIT = 10; // ユーザー名補完の候補数
+
+// 通知（保持期間・件数上限は NOTIFICATIONS を参照）
+export const BROADCAST_TITLE_MAX_LENGTH = 100;
+export const BROADCAST_MESSAGE_MAX_LENGTH = 500;
+
+// ダイレクトメッセージ
+export const MAX_CONVERSATION_MEMBERS = 10; // 自分を含む参加者数の上限
+export const CONVERSATION_TITLE_MAX_LENGTH = 100;
+export const MESSAGE_MAX_LENGTH = 2000;
+export const MESSAGES_PAGE_SIZE = 50;
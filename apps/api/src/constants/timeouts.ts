@@ -6,6 +6,21 @@
 export const WEBSOCKET_IDLE_TIMEOUT_AUTHENTICATED_MS = 30 * 60 * 1000; // 30分
 export const WEBSOCKET_IDLE_TIMEOUT_UNAUTHENTICATED_MS = 5 * 60 * 1000; // 5分
 export const WEBSOCKET_HEARTBEAT_INTERVAL_MS = 30_000; // 30秒
+export const WEBSOCKET_HEARTBEAT_MAX_MISSED = 2; // 応答のない ping がこの回数続いた接続を切断
+export const WEBSOCKET_AUTH_HANDSHAKE_TIMEOUT_MS = 10_000; // 10秒（最初のメッセージでトークンを受け取るまで）
+
+// 入力中表示の有効期間（この間に typing.start が再送されなければ消える）
+export const TYPING_INDICATOR_TTL_MS = 8_000; // 8秒
+
+// インスタンス間のプレゼンス同期（スナップショット送信間隔と、応答のないインスタンスを外すまでの時間）
+export const PRESENCE_HEARTBEAT_MS = 15_000; // 15秒
+export const PRESENCE_INSTANCE_EXPIRY_MS = 45_000; // 45秒
+
+// ブローカー（BROKER_URL）切断時の再接続間隔
+export const BROKER_RECONNECT_DELAY_MS = 1_000; // 1秒
+
+// ルームのイベント再送（最後の参加者が抜けた後もバッファを保持し、再接続した購読に未受信分を送る）
+export const ROOM_REPLAY_RETENTION_MS = 5 * 60 * 1000; // 5分
 
 // JWT/トークン有効期限
 export const ACCESS_TOKEN_EXPIRES_IN_SECONDS = 3600; // 1時間
@@ -14,3 +29,7 @@ export const REFRESH_GRACE_PERIOD_MS = 60_000; // 1分
 
 // クリーンアップ
 export const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1時間
+
+// 添付ファイル
+export const ATTACHMENT_URL_TTL_SECONDS = 60 * 60; // ダウンロードURLの有効期間の単位（1〜2時間有効）
+export const UNLINKED_ATTACHMENT_TTL_MS = 24 * 60 * 60 * 1000; // 未使用アップロードの保持期間（24時間）
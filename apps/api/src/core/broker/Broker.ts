@@ -0,0 +1,18 @@
+/**
+ * Delivers messages published on a channel to the channel's subscribers. The event bus,
+ * rooms and presence send all of their traffic through a broker, so the broker decides
+ * how far events travel: this process only, or every instance sharing the broker.
+ */
+export interface Broker {
+	publish(channel: string, message: unknown): void;
+
+	/**
+	 * Register a handler and return a function that removes it
+	 */
+	subscribe(channel: string, handler: (message: unknown) => void): () => void;
+
+	/**
+	 * Release connections held by the broker
+	 */
+	close(): Promise<void>;
+}
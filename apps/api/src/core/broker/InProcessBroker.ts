@@ -0,0 +1,29 @@
+import { EventEmitter } from "events";
+import type { Broker } from "./Broker.js";
+
+/**
+ * Broker for a single process: messages reach subscribers in the same process only
+ */
+export class InProcessBroker implements Broker {
+	private readonly emitter = new EventEmitter();
+
+	constructor() {
+		// Every joined room registers a listener; do not warn on many subscribers
+		this.emitter.setMaxListeners(0);
+	}
+
+	publish(channel: string, message: unknown): void {
+		this.emitter.emit(channel, message);
+	}
+
+	subscribe(channel: string, handler: (message: unknown) => void): () => void {
+		this.emitter.on(channel, handler);
+		return () => {
+			this.emitter.off(channel, handler);
+		};
+	}
+
+	async close(): Promise<void> {
+		this.emitter.removeAllListeners();
+	}
+}
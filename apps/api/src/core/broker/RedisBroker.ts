@@ -0,0 +1,284 @@
+import { randomUUID } from "crypto";
+import * as net from "net";
+import * as tls from "tls";
+import superjson from "superjson";
+import { BROKER_RECONNECT_DELAY_MS } from "../../constants/timeouts.js";
+import { logger } from "../../modules/logger/core/logger.js";
+import type { Broker } from "./Broker.js";
+import { InProcessBroker } from "./InProcessBroker.js";
+import { RespReader, type RespValue, encodeValue } from "./resp.js";
+
+// Messages published while the connection is down, kept until it is back
+const MAX_QUEUED_COMMANDS = 1000;
+
+type Envelope = {
+	origin: string; // Broker instance that published the message
+	message: unknown;
+};
+
+export type RedisBrokerOptions = {
+	reconnectDelayMs?: number;
+};
+
+/**
+ * Broker over the Redis protocol (PUBLISH / SUBSCRIBE) for running several API instances
+ * against one Redis-compatible server. Local subscribers receive messages directly; copies
+ * coming back from the server are recognized by their origin and skipped, so delivery in
+ * this process does not depend on the server being reachable. Messages are serialized with
+ * superjson so dates survive the trip.
+ */
+export class RedisBroker implements Broker {
+	private readonly origin = randomUUID();
+	private readonly local = new InProcessBroker();
+	// Local subscriptions per channel; the server subscription lives while any remain
+	private readonly channels = new Map<string, number>();
+	private readonly publisher: RedisConnection;
+	private readonly subscriber: RedisConnection;
+
+	constructor(url: string, options: RedisBrokerOptions = {}) {
+		const reconnectDelayMs = options.reconnectDelayMs ?? BROKER_RECONNECT_DELAY_MS;
+		this.publisher = new RedisConnection(url, {
+			name: "publisher",
+			reconnectDelayMs,
+			maxQueued: MAX_QUEUED_COMMANDS,
+		});
+		this.subscriber = new RedisConnection(url, {
+			name: "subscriber",
+			reconnectDelayMs,
+			maxQueued: 0,
+			onReply: (reply) => this.handleReply(reply),
+			// Subscriptions do not survive a reconnect
+			onReady: () => {
+				if (this.channels.size > 0) {
+					this.subscriber.send(["SUBSCRIBE", ...this.channels.keys()]);
+				}
+			},
+		});
+	}
+
+	publish(channel: string, message: unknown): void {
+		this.local.publish(channel, message);
+		const envelope: Envelope = { origin: this.origin, message };
+		this.publisher.send(["PUBLISH", channel, superjson.stringify(envelope)]);
+	}
+
+	subscribe(channel: string, handler: (message: unknown) => void): () => void {
+		const unsubscribe = this.local.subscribe(channel, handler);
+		const count = this.channels.get(channel) ?? 0;
+		this.channels.set(channel, count + 1);
+		if (count === 0) {
+			this.subscriber.send(["SUBSCRIBE", channel]);
+		}
+
+		let active = true;
+		return () => {
+			if (!active) return;
+			active = false;
+			unsubscribe();
+			const remaining = (this.channels.get(channel) ?? 1) - 1;
+			if (remaining > 0) {
+				this.channels.set(channel, remaining);
+			} else {
+				this.channels.delete(channel);
+				this.subscriber.send(["UNSUBSCRIBE", channel]);
+			}
+		};
+	}
+
+	async close(): Promise<void> {
+		await Promise.all([this.publisher.close(), this.subscriber.close()]);
+		await this.local.close();
+	}
+
+	private handleReply(reply: RespValue): void {
+		// Pushed messages are ["message", channel, payload]; other replies confirm (un)subscribes
+		if (!Array.isArray(reply) || reply[0] !== "message") return;
+		const [, channel, payload] = reply;
+		if (typeof channel !== "string" || typeof payload !== "string") return;
+
+		let envelope: Envelope;
+		try {
+			envelope = superjson.parse<Envelope>(payload);
+		} catch (error) {
+			logger.warn("Ignoring malformed broker message", {
+				channel,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return;
+		}
+		if (envelope.origin !== this.origin) {
+			this.local.publish(channel, envelope.message);
+		}
+	}
+}
+
+type RedisConnectionOptions = {
+	name: string;
+	reconnectDelayMs: number;
+	maxQueued: number; // Commands kept while disconnected; 0 drops them
+	onReply?: (reply: RespValue) => void;
+	onReady?: () => void;
+};
+
+/**
+ * A single connection that authenticates from the URL and reconnects until closed
+ */
+class RedisConnection {
+	private readonly target: URL;
+	private socket: net.Socket | null = null;
+	private reader = new RespReader();
+	private ready = false;
+	// Waiting for the reply to AUTH; nothing else is sent until it succeeds
+	private authenticating = false;
+	private closed = false;
+	private queue: RespValue[][] = [];
+	private reconnectTimer: NodeJS.Timeout | null = null;
+
+	constructor(
+		url: string,
+		private readonly options: RedisConnectionOptions
+	) {
+		this.target = new URL(url);
+		this.connect();
+	}
+
+	send(command: RespValue[]): void {
+		if (this.ready && this.socket) {
+			this.socket.write(encodeValue(command));
+			return;
+		}
+		if (this.options.maxQueued === 0) return;
+		if (this.queue.length >= this.options.maxQueued) {
+			this.queue.shift();
+		}
+		this.queue.push(command);
+	}
+
+	async close(): Promise<void> {
+		this.closed = true;
+		this.ready = false;
+		this.authenticating = false;
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = null;
+		}
+		const socket = this.socket;
+		this.socket = null;
+		if (!socket || socket.destroyed) return;
+		await new Promise<void>((resolve) => {
+			socket.once("close", () => resolve());
+			socket.end();
+		});
+	}
+
+	private connect(): void {
+		const host = this.target.hostname || "127.0.0.1";
+		const port = Number(this.target.port) || 6379;
+		const socket =
+			this.target.protocol === "rediss:"
+				? tls.connect({ host, port, servername: host })
+				: net.connect({ host, port });
+		this.socket = socket;
+		this.reader = new RespReader();
+
+		socket.setNoDelay(true);
+		socket.once(socket instanceof tls.TLSSocket ? "secureConnect" : "connect", () =>
+			this.handleConnect(socket)
+		);
+		socket.on("data", (chunk: Buffer) => this.handleData(socket, chunk));
+		socket.on("error", (error) => {
+			logger.warn("Broker connection error", {
+				connection: this.options.name,
+				error: error.message,
+			});
+		});
+		socket.on("close", () => this.handleClose(socket));
+	}
+
+	private handleConnect(socket: net.Socket): void {
+		const password = decodeURIComponent(this.target.password);
+		if (!password) {
+			this.markReady(socket);
+			return;
+		}
+		const username = decodeURIComponent(this.target.username);
+		this.authenticating = true;
+		socket.write(encodeValue(username ? ["AUTH", username, password] : ["AUTH", password]));
+	}
+
+	private markReady(socket: net.Socket): void {
+		this.ready = true;
+		logger.info("Broker connection ready", { connection: this.options.name });
+
+		const queued = this.queue;
+		this.queue = [];
+		for (const command of queued) {
+			socket.write(encodeValue(command));
+		}
+		this.options.onReady?.();
+	}
+
+	private handleData(socket: net.Socket, chunk: Buffer): void {
+		let replies: RespValue[];
+		try {
+			replies = this.reader.push(chunk);
+		} catch (error) {
+			logger.warn("Broker protocol error, reconnecting", {
+				connection: this.options.name,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			socket.destroy();
+			return;
+		}
+		for (const reply of replies) {
+			if (this.authenticating) {
+				if (!this.handleAuthReply(socket, reply)) return;
+				continue;
+			}
+			if (reply instanceof Error) {
+				logger.warn("Broker command failed", {
+					connection: this.options.name,
+					error: reply.message,
+				});
+				continue;
+			}
+			this.options.onReply?.(reply);
+		}
+	}
+
+	/**
+	 * The first reply after connecting answers AUTH. A rejected password drops the connection
+	 * and retries later rather than sending commands that would all fail with NOAUTH.
+	 */
+	private handleAuthReply(socket: net.Socket, reply: RespValue): boolean {
+		this.authenticating = false;
+		if (reply instanceof Error) {
+			logger.warn("Broker authentication failed, reconnecting", {
+				connection: this.options.name,
+				error: reply.message,
+			});
+			socket.destroy();
+			return false;
+		}
+		this.markReady(socket);
+		return true;
+	}
+
+	private handleClose(socket: net.Socket): void {
+		if (this.socket !== socket) return;
+		this.ready = false;
+		this.authenticating = false;
+		this.socket = null;
+		if (this.closed) return;
+
+		logger.warn("Broker connection lost, reconnecting", {
+			connection: this.options.name,
+			delayMs: this.options.reconnectDelayMs,
+		});
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = null;
+			this.connect();
+		}, this.options.reconnectDelayMs);
+		this.reconnectTimer.unref();
+	}
+}
@@ -0,0 +1,46 @@
+import type { Broker } from "./Broker.js";
+import { InProcessBroker } from "./InProcessBroker.js";
+import { RedisBroker } from "./RedisBroker.js";
+
+/**
+ * Broker selected by BROKER_URL: redis:// or rediss:// for a Redis-protocol server shared by
+ * all instances, in-process when unset
+ */
+export function createBroker(url: string | undefined = process.env.BROKER_URL): Broker {
+	if (!url) {
+		return new InProcessBroker();
+	}
+	if (/^rediss?:\/\//i.test(url)) {
+		return new RedisBroker(url);
+	}
+	// Only the scheme: the URL may contain credentials
+	throw new Error(`Unsupported BROKER_URL scheme: ${url.split(":")[0]}`);
+}
+
+let shared: Broker | null = null;
+
+/**
+ * Broker shared by the event bus, rooms and presence of this process. It is created on
+ * first use, after the entry point has loaded the environment.
+ */
+export const broker: Broker = {
+	publish: (channel, message) => {
+		shared ??= createBroker();
+		shared.publish(channel, message);
+	},
+	subscribe: (channel, handler) => {
+		shared ??= createBroker();
+		return shared.subscribe(channel, handler);
+	},
+	close: async () => {
+		await shared?.close();
+		shared = null;
+	},
+};
+
+export { InProcessBroker } from "./InProcessBroker.js";
+export { RedisBroker } from "./RedisBroker.js";
+export { RespReader, encodeValue } from "./resp.js";
+export type { Broker } from "./Broker.js";
+export type { RedisBrokerOptions } from "./RedisBroker.js";
+export type { RespValue } from "./resp.js";
@@ -0,0 +1,80 @@
+/**
+ * Encoding and incremental decoding of the Redis serialization protocol (RESP2)
+ */
+
+export type RespValue = string | number | null | Error | RespValue[];
+
+/**
+ * Encode a value; strings become bulk strings, so a command is encodeValue(["PUBLISH", channel, message])
+ */
+export function encodeValue(value: RespValue): Buffer {
+	return Buffer.from(serialize(value));
+}
+
+function serialize(value: RespValue): string {
+	if (value === null) return "$-1\r\n";
+	if (value instanceof Error) return `-${value.message.replace(/\r?\n/g, " ")}\r\n`;
+	if (typeof value === "number") return `:${value}\r\n`;
+	if (Array.isArray(value)) return `*${value.length}\r\n${value.map(serialize).join("")}`;
+	return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+/**
+ * Decodes values from a stream of chunks; a value split across chunks is returned once complete
+ */
+export class RespReader {
+	private buffer: Buffer = Buffer.alloc(0);
+
+	push(chunk: Buffer): RespValue[] {
+		this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+		const values: RespValue[] = [];
+		let offset = 0;
+		for (;;) {
+			const parsed = parseValue(this.buffer, offset);
+			if (!parsed) break;
+			values.push(parsed.value);
+			offset = parsed.offset;
+		}
+		this.buffer = this.buffer.subarray(offset);
+		return values;
+	}
+}
+
+// The value starting at offset and the offset after it, or null while incomplete
+function parseValue(buffer: Buffer, offset: number): { value: RespValue; offset: number } | null {
+	const lineEnd = buffer.indexOf("\r\n", offset);
+	if (lineEnd === -1) return null;
+	const type = String.fromCharCode(buffer[offset]);
+	const line = buffer.toString("utf8", offset + 1, lineEnd);
+	const next = lineEnd + 2;
+
+	switch (type) {
+		case "+":
+			return { value: line, offset: next };
+		case "-":
+			return { value: new Error(line), offset: next };
+		case ":":
+			return { value: Number(line), offset: next };
+		case "$": {
+			const length = Number(line);
+			if (length < 0) return { value: null, offset: next };
+			if (buffer.length < next + length + 2) return null;
+			return { value: buffer.toString("utf8", next, next + length), offset: next + length + 2 };
+		}
+		case "*": {
+			const count = Number(line);
+			if (count < 0) return { value: null, offset: next };
+			const items: RespValue[] = [];
+			let position = next;
+			for (let i = 0; i < count; i++) {
+				const item = parseValue(buffer, position);
+				if (!item) return null;
+				items.push(item.value);
+				position = item.offset;
+			}
+			return { value: items, offset: position };
+		}
+		default:
+			throw new Error(`Unexpected RESP type: ${JSON.stringify(type)}`);
+	}
+}
@@ -3,6 +3,7 @@ import type { PrismaClient } from "@prisma/client";
 import { injectable } from "tsyringe";
 import type { IDbInitializer } from "../../interfaces/IDbService.js";
 import { logger } from "../../modules/logger/core/logger.js";
+import { createSearchBackend } from "../search/index.js";
 
 @injectable()
 export class DbInitializer implements IDbInitializer {
@@ -22,6 +23,22 @@ export class DbInitializer implements IDbInitializer {
 			});
 			logger.info("Admin user seeded", { username: "admin", role: "ADMIN" });
 		}
+
+		// Every post belongs to a board; give legacy posts a home
+		const boardCount = await this.prisma.board.count();
+		if (boardCount === 0) {
+			const board = await this.prisma.board.create({
+				data: { name: "General", slug: "general", description: "General discussion" },
+			});
+			const moved = await this.prisma.post.updateMany({
+				where: { boardId: null },
+				data: { boardId: board.id },
+			});
+			logger.info("Default board seeded", { slug: board.slug, movedPosts: moved.count });
+		}
+
+		// Full-text search indexes are not expressible in schema.prisma
+		await createSearchBackend(this.prisma).ensureIndex();
 	}
 }
 
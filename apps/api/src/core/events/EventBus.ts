@@ -0,0 +1,121 @@
+import { logger } from "../../modules/logger/core/logger.js";
+import type { AttachmentInfo } from "../../utils/attachments.js";
+import { type Broker, InProcessBroker, broker } from "../broker/index.js";
+
+type EventAuthor = {
+	id: number;
+	username: string;
+};
+
+export type PostEvent = {
+	id: number;
+	title: string;
+	body: string;
+	bodyHtml: string;
+	boardId: number | null;
+	tags: string[];
+	attachments: AttachmentInfo[];
+	createdAt: Date;
+	editedAt: Date | null;
+	author: EventAuthor;
+};
+
+export type CommentEvent = {
+	id: number;
+	postId: number;
+	parentId: number | null;
+	depth: number;
+	body: string;
+	bodyHtml: string;
+	attachments: AttachmentInfo[];
+	createdAt: Date;
+	editedAt: Date | null;
+	author: EventAuthor;
+};
+
+export type PostDeletedEvent = {
+	id: number;
+};
+
+export type CommentDeletedEvent = {
+	id: number;
+	postId: number;
+};
+
+export type ReactionEvent = {
+	postId: number; // Thread the target belongs to
+	targetType: "post" | "comment";
+	targetId: number;
+	emoji: string;
+	count: number; // Total reactions with this emoji after the change
+	userId: number;
+	added: boolean;
+};
+
+export type NotificationEvent = {
+	id: number | null; // null when the recipient turned off the notification center
+	userId: number; // Recipient
+	type: "mention" | "reply" | "reaction" | "broadcast";
+	title: string | null; // Broadcast title; null for other types
+	message: string | null; // Broadcast message or reaction emoji
+
+	postId: number | null;
+	commentId: number | null;
+	postTitle: string | null;
+	actor: EventAuthor | null;
+	createdAt: Date;
+	readAt: Date | null;
+	toast: boolean; // Whether the client shows a toast (off by preference or in quiet hours)
+};
+
+export type PresenceEvent = {
+	user: EventAuthor;
+	online: boolean; // false once the user's last connection closed
+	postIds: number[]; // Posts the user is viewing on any connection
+};
+
+export type TypingEvent = {
+	postId: number;
+	user: EventAuthor;
+	typing: boolean;
+};
+
+export type SessionsTerminatedEvent = {
+	userId: number; // User whose sessions an administrator ended
+};
+
+/**
+ * Map of event names to payload types published over the bus. Events scoped to a post
+ * or a user go to rooms instead (see core/rooms).
+ */
+export type EventMap = {
+	"posts.created": PostEvent;
+	"posts.updated": PostEvent;
+	"posts.deleted": PostDeletedEvent;
+	// For the servers rather than clients: every instance closes the user's connections
+	"sessions.terminated": SessionsTerminatedEvent;
+};
+
+export type EventName = keyof EventMap;
+
+/**
+ * Publish/subscribe bus used to push events for every client to tRPC subscriptions.
+ * Events travel through the broker, so with a shared broker they reach every instance.
+ */
+export class EventBus {
+	constructor(private readonly broker: Broker = new InProcessBroker()) {}
+
+	publish<K extends EventName>(event: K, payload: EventMap[K]): void {
+		logger.debug("Publishing event", { event });
+		this.broker.publish(`event:${event}`, payload);
+	}
+
+	/**
+	 * Register a listener and return a function that removes it
+	 */
+	subscribe<K extends EventName>(event: K, listener: (payload: EventMap[K]) => void): () => void {
+		return this.broker.subscribe(`event:${event}`, (payload) => listener(payload as EventMap[K]));
+	}
+}
+
+export const eventBus = new EventBus(broker);
@@ -0,0 +1,14 @@
+export { EventBus, eventBus } from "./EventBus.js";
+export type {
+	CommentDeletedEvent,
+	CommentEvent,
+	EventMap,
+	EventName,
+	NotificationEvent,
+	PostDeletedEvent,
+	PostEvent,
+	PresenceEvent,
+	ReactionEvent,
+	SessionsTerminatedEvent,
+	TypingEvent,
+} from "./EventBus.js";
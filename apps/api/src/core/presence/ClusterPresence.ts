@@ -0,0 +1,266 @@
+import { randomUUID } from "crypto";
+import { PRESENCE_HEARTBEAT_MS, PRESENCE_INSTANCE_EXPIRY_MS } from "../../constants/timeouts.js";
+import { type Broker, InProcessBroker } from "../broker/index.js";
+import type { PresenceEvent } from "../events/index.js";
+import { PresenceTracker, type PresenceUser } from "./PresenceTracker.js";
+
+const CHANNEL = "presence";
+
+type UserState = {
+	user: PresenceUser;
+	postIds: number[];
+};
+
+type Instance = {
+	users: Map<number, UserState>;
+	seenAt: number;
+};
+
+/**
+ * What instances tell each other: a user's change on one instance, the full state of an
+ * instance (sent every heartbeat and when asked by a starting instance), a request for
+ * those snapshots, and an instance shutting down
+ */
+type PresenceMessage =
+	| { type: "update"; instanceId: string; state: PresenceEvent }
+	| { type: "snapshot"; instanceId: string; users: UserState[] }
+	| { type: "sync"; instanceId: string }
+	| { type: "leave"; instanceId: string };
+
+export type ClusterPresenceOptions = {
+	instanceId?: string;
+	heartbeatMs?: number;
+	expiryMs?: number; // Instances silent for this long are dropped with their users
+};
+
+/**
+ * Presence across every instance sharing a broker. Connections of this instance are
+ * tracked by a PresenceTracker; the other instances' users are learned from their
+ * messages. Listeners receive a user's merged state, once per actual change, computed
+ * by each instance on its own so no change is delivered twice.
+ */
+export class ClusterPresence {
+	private readonly instanceId: string;
+	private readonly heartbeatMs: number;
+	private readonly expiryMs: number;
+	private readonly tracker: PresenceTracker;
+	private readonly instances = new Map<string, Instance>();
+	private readonly listeners = new Set<(event: PresenceEvent) => void>();
+	private unsubscribe: (() => void) | null = null;
+	private heartbeat: NodeJS.Timeout | null = null;
+
+	constructor(
+		private readonly broker: Broker = new InProcessBroker(),
+		options: ClusterPresenceOptions = {}
+	) {
+		this.instanceId = options.instanceId ?? randomUUID();
+		this.heartbeatMs = options.heartbeatMs ?? PRESENCE_HEARTBEAT_MS;
+		this.expiryMs = options.expiryMs ?? PRESENCE_INSTANCE_EXPIRY_MS;
+		this.instances.set(this.instanceId, { users: new Map(), seenAt: Number.POSITIVE_INFINITY });
+		this.tracker = new PresenceTracker((event) => this.applyLocal(event));
+	}
+
+	connect(connectionId: string, user: PresenceUser): void {
+		this.tracker.connect(connectionId, user);
+	}
+
+	disconnect(connectionId: string): void {
+		this.tracker.disconnect(connectionId);
+	}
+
+	watch(connectionId: string, postId: number): () => void {
+		return this.tracker.watch(connectionId, postId);
+	}
+
+	userOf(connectionId: string): PresenceUser | null {
+		return this.tracker.userOf(connectionId);
+	}
+
+	/**
+	 * Online users on any instance, and the users viewing a post when postId is given
+	 */
+	list(postId?: number): { online: PresenceUser[]; viewers: PresenceUser[] } {
+		const online = new Map<number, PresenceUser>();
+		const viewers = new Map<number, PresenceUser>();
+		for (const instance of this.instances.values()) {
+			for (const { user, postIds } of instance.users.values()) {
+				online.set(user.id, user);
+				if (postId !== undefined && postIds.includes(postId)) {
+					viewers.set(user.id, user);
+				}
+			}
+		}
+		const byName = (a: PresenceUser, b: PresenceUser) => a.username.localeCompare(b.username);
+		return {
+			online: [...online.values()].sort(byName),
+			viewers: [...viewers.values()].sort(byName),
+		};
+	}
+
+	/**
+	 * Register a listener for merged changes and return a function that removes it
+	 */
+	subscribe(listener: (event: PresenceEvent) => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Start exchanging presence with the other instances
+	 */
+	start(): void {
+		if (this.unsubscribe) {
+			return;
+		}
+		this.unsubscribe = this.broker.subscribe(CHANNEL, (message) =>
+			this.receive(message as PresenceMessage)
+		);
+		this.send({ type: "sync", instanceId: this.instanceId });
+		this.sendSnapshot();
+		this.heartbeat = setInterval(() => {
+			this.sendSnapshot();
+			this.expire(Date.now());
+		}, this.heartbeatMs);
+		this.heartbeat.unref();
+	}
+
+	/**
+	 * Tell the other instances this one is leaving and forget their users
+	 */
+	stop(): void {
+		if (!this.unsubscribe) {
+			return;
+		}
+		if (this.heartbeat) {
+			clearInterval(this.heartbeat);
+			this.heartbeat = null;
+		}
+		this.send({ type: "leave", instanceId: this.instanceId });
+		this.unsubscribe();
+		this.unsubscribe = null;
+		for (const instanceId of [...this.instances.keys()]) {
+			if (instanceId !== this.instanceId) {
+				this.removeInstance(instanceId);
+			}
+		}
+	}
+
+	private applyLocal(event: PresenceEvent): void {
+		this.apply(this.instanceId, event.user, event.online ? event.postIds : null);
+		if (this.unsubscribe) {
+			this.send({ type: "update", instanceId: this.instanceId, state: event });
+		}
+	}
+
+	private receive(message: PresenceMessage): void {
+		if (message.instanceId === this.instanceId) {
+			return;
+		}
+		switch (message.type) {
+			case "sync":
+				this.sendSnapshot();
+				return;
+			case "leave":
+				this.removeInstance(message.instanceId);
+				return;
+			case "update": {
+				this.touch(message.instanceId);
+				const { user, online, postIds } = message.state;
+				this.apply(message.instanceId, user, online ? postIds : null);
+				return;
+			}
+			case "snapshot": {
+				const instance = this.touch(message.instanceId);
+				const reported = new Set(message.users.map(({ user }) => user.id));
+				for (const { user } of [...instance.users.values()]) {
+					if (!reported.has(user.id)) {
+						this.apply(message.instanceId, user, null);
+					}
+				}
+				for (const { user, postIds } of message.users) {
+					this.apply(message.instanceId, user, postIds);
+				}
+				return;
+			}
+		}
+	}
+
+	// Set what one instance reports for a user (null: no connections there) and report merged changes
+	private apply(instanceId: string, user: PresenceUser, postIds: number[] | null): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance) {
+			return;
+		}
+		const before = this.stateOf(user.id);
+		if (postIds) {
+			instance.users.set(user.id, { user, postIds });
+		} else {
+			instance.users.delete(user.id);
+		}
+		const after = this.stateOf(user.id);
+		if (before.online !== after.online || before.postIds.join() !== after.postIds.join()) {
+			for (const listener of this.listeners) {
+				listener({ user, ...after });
+			}
+		}
+	}
+
+	private stateOf(userId: number): { online: boolean; postIds: number[] } {
+		const postIds = new Set<number>();
+		let online = false;
+		for (const instance of this.instances.values()) {
+			const state = instance.users.get(userId);
+			if (!state) continue;
+			online = true;
+			for (const postId of state.postIds) {
+				postIds.add(postId);
+			}
+		}
+		return { online, postIds: [...postIds].sort((a, b) => a - b) };
+	}
+
+	private touch(instanceId: string): Instance {
+		let instance = this.instances.get(instanceId);
+		if (!instance) {
+			instance = { users: new Map(), seenAt: 0 };
+			this.instances.set(instanceId, instance);
+		}
+		instance.seenAt = Date.now();
+		return instance;
+	}
+
+	// Drop instances that stopped sending heartbeats, e.g. after a crash
+	private expire(now: number): void {
+		for (const [instanceId, instance] of [...this.instances]) {
+			if (now - instance.seenAt > this.expiryMs) {
+				this.removeInstance(instanceId);
+			}
+		}
+	}
+
+	private removeInstance(instanceId: string): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instanceId === this.instanceId) {
+			return;
+		}
+		for (const { user } of [...instance.users.values()]) {
+			this.apply(instanceId, user, null);
+		}
+		this.instances.delete(instanceId);
+	}
+
+	private sendSnapshot(): void {
+		const own = this.instances.get(this.instanceId);
+		this.send({
+			type: "snapshot",
+			instanceId: this.instanceId,
+			users: own ? [...own.users.values()] : [],
+		});
+	}
+
+	private send(message: PresenceMessage): void {
+		this.broker.publish(CHANNEL, message);
+	}
+}
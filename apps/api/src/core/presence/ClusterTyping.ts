@@ -0,0 +1,180 @@
+import { randomUUID } from "crypto";
+import { TYPING_INDICATOR_TTL_MS } from "../../constants/timeouts.js";
+import { type Broker, InProcessBroker } from "../broker/index.js";
+import type { TypingEvent } from "../events/index.js";
+import type { PresenceUser } from "./PresenceTracker.js";
+import { TypingTracker } from "./TypingTracker.js";
+
+const CHANNEL = "typing";
+
+type Typist = {
+	user: PresenceUser;
+	postId: number;
+};
+
+/**
+ * What instances tell each other: a user typing (repeated with every typing.start, so it
+ * also extends the expiry), a user that stopped, a request for the current typists sent by a
+ * starting instance, and the answer to it
+ */
+type TypingMessage =
+	| ({ type: "typing"; instanceId: string } & Typist)
+	| ({ type: "stopped"; instanceId: string } & Typist)
+	| { type: "sync"; instanceId: string }
+	| { type: "snapshot"; instanceId: string; typists: Typist[] };
+
+export type ClusterTypingOptions = {
+	instanceId?: string;
+	ttlMs?: number;
+};
+
+/**
+ * Typing indicators across every instance sharing a broker. Connections of this instance
+ * are tracked by a TypingTracker, which reports changes to onChange; the other instances'
+ * typists are only kept for list(), so a subscriber joining here starts with everyone already
+ * typing in the post. Remote entries expire like local ones, so an instance that goes away
+ * without a word leaves nothing behind for longer than the TTL.
+ */
+export class ClusterTyping {
+	private readonly instanceId: string;
+	private readonly ttlMs: number;
+	private readonly tracker: TypingTracker;
+	private readonly remote = new Map<string, Typist & { timer: NodeJS.Timeout }>();
+	private unsubscribe: (() => void) | null = null;
+
+	constructor(
+		private readonly broker: Broker = new InProcessBroker(),
+		onChange: (event: TypingEvent) => void = () => {},
+		options: ClusterTypingOptions = {}
+	) {
+		this.instanceId = options.instanceId ?? randomUUID();
+		this.ttlMs = options.ttlMs ?? TYPING_INDICATOR_TTL_MS;
+		this.tracker = new TypingTracker((event) => {
+			if (!event.typing) {
+				this.send({
+					type: "stopped",
+					instanceId: this.instanceId,
+					user: event.user,
+					postId: event.postId,
+				});
+			}
+			onChange(event);
+		}, this.ttlMs);
+	}
+
+	/**
+	 * Mark the user as typing in a post, or extend the expiry when already typing
+	 */
+	start(connectionId: string, user: PresenceUser, postId: number): void {
+		this.tracker.start(connectionId, user, postId);
+		this.send({ type: "typing", instanceId: this.instanceId, user, postId });
+	}
+
+	stop(connectionId: string, postId: number): void {
+		this.tracker.stop(connectionId, postId);
+	}
+
+	disconnect(connectionId: string): void {
+		this.tracker.disconnect(connectionId);
+	}
+
+	/**
+	 * Users typing in a post on any instance, ordered by username
+	 */
+	list(postId: number): PresenceUser[] {
+		const users = new Map<number, PresenceUser>();
+		for (const user of this.tracker.list(postId)) {
+			users.set(user.id, user);
+		}
+		for (const typist of this.remote.values()) {
+			if (typist.postId === postId) {
+				users.set(typist.user.id, typist.user);
+			}
+		}
+		return [...users.values()].sort((a, b) => a.username.localeCompare(b.username));
+	}
+
+	/**
+	 * Start exchanging typists with the other instances
+	 */
+	join(): void {
+		if (this.unsubscribe) {
+			return;
+		}
+		this.unsubscribe = this.broker.subscribe(CHANNEL, (message) =>
+			this.receive(message as TypingMessage)
+		);
+		this.send({ type: "sync", instanceId: this.instanceId });
+	}
+
+	/**
+	 * Stop exchanging typists and forget those of the other instances
+	 */
+	leave(): void {
+		if (!this.unsubscribe) {
+			return;
+		}
+		this.unsubscribe();
+		this.unsubscribe = null;
+		for (const typist of this.remote.values()) {
+			clearTimeout(typist.timer);
+		}
+		this.remote.clear();
+	}
+
+	private receive(message: TypingMessage): void {
+		if (message.instanceId === this.instanceId) {
+			return;
+		}
+		switch (message.type) {
+			case "sync":
+				this.send({
+					type: "snapshot",
+					instanceId: this.instanceId,
+					typists: this.tracker.typists(),
+				});
+				return;
+			case "snapshot":
+				for (const typist of message.typists) {
+					this.refresh(message.instanceId, typist);
+				}
+				return;
+			case "typing":
+				this.refresh(message.instanceId, message);
+				return;
+			case "stopped":
+				this.forget(this.key(message.instanceId, message));
+				return;
+		}
+	}
+
+	private refresh(instanceId: string, { user, postId }: Typist): void {
+		const key = this.key(instanceId, { user, postId });
+		const existing = this.remote.get(key);
+		if (existing) {
+			existing.timer.refresh();
+			return;
+		}
+		const timer = setTimeout(() => this.forget(key), this.ttlMs);
+		timer.unref();
+		this.remote.set(key, { user, postId, timer });
+	}
+
+	private forget(key: string): void {
+		const typist = this.remote.get(key);
+		if (typist) {
+			clearTimeout(typist.timer);
+			this.remote.delete(key);
+		}
+	}
+
+	private key(instanceId: string, { user, postId }: Typist): string {
+		return `${instanceId}:${user.id}:${postId}`;
+	}
+
+	private send(message: TypingMessage): void {
+		if (this.unsubscribe) {
+			this.broker.publish(CHANNEL, message);
+		}
+	}
+}
@@ -0,0 +1,121 @@
+import type { PresenceEvent } from "../events/index.js";
+
+export type PresenceUser = PresenceEvent["user"];
+
+type Connection = {
+	user: PresenceUser;
+	// Open watches per post; a connection may watch the same post more than once
+	watching: Map<number, number>;
+};
+
+/**
+ * Tracks authenticated WebSocket connections and the posts each one is viewing.
+ * A user is online while any of their connections is open. Changes are reported per user,
+ * and only when the user's online state or set of viewed posts actually changes.
+ */
+export class PresenceTracker {
+	private readonly connections = new Map<string, Connection>();
+
+	constructor(private readonly onChange: (event: PresenceEvent) => void = () => {}) {}
+
+	connect(connectionId: string, user: PresenceUser): void {
+		if (this.connections.has(connectionId)) {
+			return;
+		}
+		this.update(user, () => {
+			this.connections.set(connectionId, { user, watching: new Map() });
+		});
+	}
+
+	/**
+	 * Forget a connection and everything it was viewing. Safe to call more than once.
+	 */
+	disconnect(connectionId: string): void {
+		const connection = this.connections.get(connectionId);
+		if (!connection) {
+			return;
+		}
+		this.update(connection.user, () => {
+			this.connections.delete(connectionId);
+		});
+	}
+
+	/**
+	 * Mark the connection as viewing a post and return a function that ends the watch
+	 */
+	watch(connectionId: string, postId: number): () => void {
+		const connection = this.connections.get(connectionId);
+		if (!connection) {
+			return () => {};
+		}
+		this.update(connection.user, () => {
+			connection.watching.set(postId, (connection.watching.get(postId) ?? 0) + 1);
+		});
+
+		let released = false;
+		return () => {
+			// The watch is gone already when the connection was disconnected
+			if (released || this.connections.get(connectionId) !== connection) {
+				return;
+			}
+			released = true;
+			this.update(connection.user, () => {
+				const count = (connection.watching.get(postId) ?? 0) - 1;
+				if (count > 0) {
+					connection.watching.set(postId, count);
+				} else {
+					connection.watching.delete(postId);
+				}
+			});
+		};
+	}
+
+	/**
+	 * The user an open, authenticated connection belongs to
+	 */
+	userOf(connectionId: string): PresenceUser | null {
+		return this.connections.get(connectionId)?.user ?? null;
+	}
+
+	/**
+	 * Online users, and the users viewing a post when postId is given, ordered by username
+	 */
+	list(postId?: number): { online: PresenceUser[]; viewers: PresenceUser[] } {
+		const online = new Map<number, PresenceUser>();
+		const viewers = new Map<number, PresenceUser>();
+		for (const { user, watching } of this.connections.values()) {
+			online.set(user.id, user);
+			if (postId !== undefined && watching.has(postId)) {
+				viewers.set(user.id, user);
+			}
+		}
+		const byName = (a: PresenceUser, b: PresenceUser) => a.username.localeCompare(b.username);
+		return {
+			online: [...online.values()].sort(byName),
+			viewers: [...viewers.values()].sort(byName),
+		};
+	}
+
+	private stateOf(userId: number): { online: boolean; postIds: number[] } {
+		const postIds = new Set<number>();
+		let online = false;
+		for (const { user, watching } of this.connections.values()) {
+			if (user.id !== userId) continue;
+			online = true;
+			for (const postId of watching.keys()) {
+				postIds.add(postId);
+			}
+		}
+		return { online, postIds: [...postIds].sort((a, b) => a - b) };
+	}
+
+	// Apply a change and report the user's new state if it differs from before
+	private update(user: PresenceUser, change: () => void): void {
+		const before = this.stateOf(user.id);
+		change();
+		const after = this.stateOf(user.id);
+		if (before.online !== after.online || before.postIds.join() !== after.postIds.join()) {
+			this.onChange({ user, ...after });
+		}
+	}
+}
@@ -0,0 +1,103 @@
+import { TYPING_INDICATOR_TTL_MS } from "../../constants/timeouts.js";
+import type { TypingEvent } from "../events/index.js";
+import type { PresenceUser } from "./PresenceTracker.js";
+
+type Entry = {
+	user: PresenceUser;
+	postId: number;
+	timer: NodeJS.Timeout;
+};
+
+/**
+ * Ephemeral "is typing" state per connection and post. Nothing is persisted: an entry
+ * expires unless start() is repeated within the TTL, and disappears with its connection.
+ * Changes are reported per user and post, so several tabs typing in one thread count once.
+ */
+export class TypingTracker {
+	private readonly entries = new Map<string, Entry>();
+
+	constructor(
+		private readonly onChange: (event: TypingEvent) => void = () => {},
+		private readonly ttlMs = TYPING_INDICATOR_TTL_MS
+	) {}
+
+	/**
+	 * Mark the user as typing in a post, or extend the expiry when already typing
+	 */
+	start(connectionId: string, user: PresenceUser, postId: number): void {
+		const key = this.key(connectionId, postId);
+		const existing = this.entries.get(key);
+		if (existing) {
+			existing.timer.refresh();
+			return;
+		}
+		const typingBefore = this.isTyping(user.id, postId);
+		const timer = setTimeout(() => this.stop(connectionId, postId), this.ttlMs);
+		timer.unref();
+		this.entries.set(key, { user, postId, timer });
+		if (!typingBefore) {
+			this.onChange({ postId, user, typing: true });
+		}
+	}
+
+	stop(connectionId: string, postId: number): void {
+		const key = this.key(connectionId, postId);
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return;
+		}
+		clearTimeout(entry.timer);
+		this.entries.delete(key);
+		if (!this.isTyping(entry.user.id, postId)) {
+			this.onChange({ postId, user: entry.user, typing: false });
+		}
+	}
+
+	/**
+	 * Stop everything the connection was typing
+	 */
+	disconnect(connectionId: string): void {
+		for (const [key, entry] of this.entries) {
+			if (key.startsWith(`${connectionId}:`)) {
+				this.stop(connectionId, entry.postId);
+			}
+		}
+	}
+
+	/**
+	 * Users typing in a post, ordered by username
+	 */
+	list(postId: number): PresenceUser[] {
+		const users = new Map<number, PresenceUser>();
+		for (const entry of this.entries.values()) {
+			if (entry.postId === postId) {
+				users.set(entry.user.id, entry.user);
+			}
+		}
+		return [...users.values()].sort((a, b) => a.username.localeCompare(b.username));
+	}
+
+	/**
+	 * Every user and post being typed in, once per user and post
+	 */
+	typists(): { user: PresenceUser; postId: number }[] {
+		const typists = new Map<string, { user: PresenceUser; postId: number }>();
+		for (const { user, postId } of this.entries.values()) {
+			typists.set(`${user.id}:${postId}`, { user, postId });
+		}
+		return [...typists.values()];
+	}
+
+	private isTyping(userId: number, postId: number): boolean {
+		for (const entry of this.entries.values()) {
+			if (entry.user.id === userId && entry.postId === postId) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	private key(connectionId: string, postId: number): string {
+		return `${connectionId}:${postId}`;
+	}
+}
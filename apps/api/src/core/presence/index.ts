@@ -0,0 +1,27 @@
+import { broker } from "../broker/index.js";
+import { postRoom, rooms } from "../rooms/index.js";
+import { ClusterPresence } from "./ClusterPresence.js";
+import { ClusterTyping } from "./ClusterTyping.js";
+
+/**
+ * Presence of the connections served by this process, merged with the other instances
+ * sharing the broker once started
+ */
+export const presence = new ClusterPresence(broker);
+
+/**
+ * Typing indicators of the connections served by this process, published as "typing.changed"
+ * to the post's room, and the typers of the other instances once joined. They are transient:
+ * a reconnecting subscriber gets the current typers instead of a replay.
+ */
+export const typing = new ClusterTyping(broker, (event) =>
+	rooms.publish(postRoom(event.postId), "typing.changed", event, { transient: true })
+);
+
+export { ClusterPresence } from "./ClusterPresence.js";
+export { ClusterTyping } from "./ClusterTyping.js";
+export { PresenceTracker } from "./PresenceTracker.js";
+export { TypingTracker } from "./TypingTracker.js";
+export type { ClusterPresenceOptions } from "./ClusterPresence.js";
+export type { ClusterTypingOptions } from "./ClusterTyping.js";
+export type { PresenceUser } from "./PresenceTracker.js";
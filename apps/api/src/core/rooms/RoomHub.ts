@@ -0,0 +1,251 @@
+import { randomBytes } from "crypto";
+import { ROOM_REPLAY_BUFFER_SIZE } from "../../constants/limits.js";
+import { ROOM_REPLAY_RETENTION_MS } from "../../constants/timeouts.js";
+import { logger } from "../../modules/logger/core/logger.js";
+import { type Broker, InProcessBroker } from "../broker/index.js";
+
+/**
+ * Event payloads by room kind and event type, e.g. { post: { "comments.added": CommentEvent } }
+ */
+export type RoomEventMaps = Record<string, Record<string, unknown>>;
+
+export type Room<K extends string = string> = {
+	kind: K;
+	id: number;
+};
+
+/**
+ * An event published to a room of kind K, discriminated by type
+ */
+export type RoomEvent<TEvents extends RoomEventMaps, K extends keyof TEvents> = {
+	[E in keyof TEvents[K]]: { type: E; payload: TEvents[K][E] };
+}[keyof TEvents[K]];
+
+/**
+ * Decides whether a member may join a room
+ */
+export type RoomAuthorizer<TMember, K extends string> = (
+	member: TMember,
+	room: Room<K>
+) => boolean | Promise<boolean>;
+
+export type RoomJoinOptions = {
+	// Id of the last event the member received, to be sent the events published since
+	lastEventId?: string;
+	// Called once the replay is done, with the id to resume from next time; resync is true
+	// when lastEventId could not be resumed from and the member has to reload instead
+	onReady?: (lastEventId: string, resync: boolean) => void;
+};
+
+export type RoomPublishOptions = {
+	// Delivered to current members only, never replayed (e.g. typing indicators)
+	transient?: boolean;
+};
+
+export type RoomHubOptions = {
+	replayBufferSize?: number; // Events kept per room for members resuming after a reconnect
+	retentionMs?: number; // How long a room without members keeps receiving and buffering events
+};
+
+type PublishedEvent = {
+	id: string; // Assigned by the publishing hub, so every instance knows the event by the same id
+	type: string;
+	payload: unknown;
+	transient?: true;
+};
+
+type RoomListener = (event: unknown, id: string) => void;
+
+type RoomState = {
+	listeners: Set<RoomListener>;
+	buffer: { id: string; event: unknown }[];
+	openedId: string; // Position before the first buffered event while nothing was dropped
+	truncated: boolean; // Events were dropped from the front of the buffer
+	latestId: string; // Id of the last replayable event, or openedId before the first one
+	unsubscribe: () => void;
+	expiry: NodeJS.Timeout | null;
+};
+
+export function roomChannel(room: Room): string {
+	return `room:${room.kind}:${room.id}`;
+}
+
+/**
+ * Named rooms that connections join and server code publishes typed events to.
+ * Joining requires the authorization hook registered for the room's kind; kinds without
+ * a hook cannot be joined. Events travel through the broker with an id given by the
+ * publishing hub, so every instance knows an event by the same id. The hub subscribes once
+ * per room with local members and keeps the latest events, so a member that reconnects, to
+ * this instance or another, can pass the last id it saw and be sent what it missed. Resuming
+ * falls back to a resync when the id is not among the events this hub buffered, e.g. after
+ * a restart or on an instance that had no member in the room at the time.
+ */
+export class RoomHub<TEvents extends RoomEventMaps, TMember> {
+	private readonly authorizers = new Map<string, RoomAuthorizer<TMember, string>>();
+	private readonly rooms = new Map<string, RoomState>();
+	// Keeps this hub's ids apart from those of a previous process or another instance
+	private readonly epoch = randomBytes(6).toString("base64url");
+	private sequence = 0;
+	private readonly replayBufferSize: number;
+	private readonly retentionMs: number;
+
+	constructor(
+		private readonly broker: Broker = new InProcessBroker(),
+		options: RoomHubOptions = {}
+	) {
+		this.replayBufferSize = options.replayBufferSize ?? ROOM_REPLAY_BUFFER_SIZE;
+		this.retentionMs = options.retentionMs ?? ROOM_REPLAY_RETENTION_MS;
+	}
+
+	authorize<K extends keyof TEvents & string>(
+		kind: K,
+		authorizer: RoomAuthorizer<TMember, K>
+	): void {
+		this.authorizers.set(kind, authorizer as RoomAuthorizer<TMember, string>);
+	}
+
+	/**
+	 * Whether the room's authorization hook lets the member in, for checks without joining
+	 */
+	async canJoin<K extends keyof TEvents & string>(
+		member: TMember,
+		room: Room<K>
+	): Promise<boolean> {
+		const authorizer = this.authorizers.get(room.kind);
+		return authorizer !== undefined && (await authorizer(member, room));
+	}
+
+	/**
+	 * Join a room and receive its events until the returned function is called.
+	 * With lastEventId, the buffered events published after it are delivered first.
+	 * Resolves to null when the room's authorization hook denies access.
+	 */
+	async join<K extends keyof TEvents & string>(
+		member: TMember,
+		room: Room<K>,
+		listener: (event: RoomEvent<TEvents, K>, id: string) => void,
+		options: RoomJoinOptions = {}
+	): Promise<(() => void) | null> {
+		if (!(await this.canJoin(member, room))) {
+			logger.debug("Room join denied", { room: roomChannel(room) });
+			return null;
+		}
+
+		const channel = roomChannel(room);
+		const state = this.open(channel);
+		const deliver = listener as RoomListener;
+		state.listeners.add(deliver);
+
+		const missed =
+			options.lastEventId === undefined ? [] : this.eventsAfter(state, options.lastEventId);
+		for (const { id, event } of missed ?? []) {
+			deliver(event, id);
+		}
+		if (!missed) {
+			logger.debug("Room replay unavailable, resync required", { room: channel });
+		}
+		options.onReady?.(state.latestId, !missed);
+
+		let left = false;
+		return () => {
+			if (left) return;
+			left = true;
+			state.listeners.delete(deliver);
+			if (state.listeners.size === 0) this.retain(channel, state);
+		};
+	}
+
+	publish<K extends keyof TEvents & string, E extends keyof TEvents[K] & string>(
+		room: Room<K>,
+		type: E,
+		payload: TEvents[K][E],
+		options: RoomPublishOptions = {}
+	): void {
+		logger.debug("Publishing room event", { room: roomChannel(room), type });
+		const id = this.nextId();
+		const message: PublishedEvent = options.transient
+			? { id, type, payload, transient: true }
+			: { id, type, payload };
+		this.broker.publish(roomChannel(room), message);
+	}
+
+	/**
+	 * Members of the room joined through this hub
+	 */
+	memberCount(room: Room): number {
+		return this.rooms.get(roomChannel(room))?.listeners.size ?? 0;
+	}
+
+	private open(channel: string): RoomState {
+		const existing = this.rooms.get(channel);
+		if (existing) {
+			if (existing.expiry) {
+				clearTimeout(existing.expiry);
+				existing.expiry = null;
+			}
+			return existing;
+		}
+		// Opening takes an id of its own for members that joined before the first event
+		const opened = this.nextId();
+		const state: RoomState = {
+			listeners: new Set(),
+			buffer: [],
+			openedId: opened,
+			truncated: false,
+			latestId: opened,
+			unsubscribe: () => {},
+			expiry: null,
+		};
+		this.rooms.set(channel, state);
+		state.unsubscribe = this.broker.subscribe(channel, (message) =>
+			this.dispatch(state, message as PublishedEvent)
+		);
+		return state;
+	}
+
+	/**
+	 * Keep an empty room subscribed for a while so members reconnecting can still resume
+	 */
+	private retain(channel: string, state: RoomState): void {
+		state.expiry = setTimeout(() => {
+			state.expiry = null;
+			if (state.listeners.size > 0) return;
+			state.unsubscribe();
+			this.rooms.delete(channel);
+		}, this.retentionMs);
+		state.expiry.unref();
+	}
+
+	/**
+	 * Transient events are delivered with the id of the last replayable event, which stays
+	 * the position to resume from
+	 */
+	private dispatch(state: RoomState, message: PublishedEvent): void {
+		const event = { type: message.type, payload: message.payload };
+		if (!message.transient) {
+			state.latestId = message.id;
+			state.buffer.push({ id: message.id, event });
+			if (state.buffer.length > this.replayBufferSize) {
+				state.buffer.shift();
+				state.truncated = true;
+			}
+		}
+		for (const listener of [...state.listeners]) {
+			listener(event, state.latestId);
+		}
+	}
+
+	/**
+	 * The buffered events published after the given id, or null when they are not all known
+	 */
+	private eventsAfter(state: RoomState, lastEventId: string): RoomState["buffer"] | null {
+		if (lastEventId === state.latestId) return [];
+		if (lastEventId === state.openedId) return state.truncated ? null : state.buffer;
+		const index = state.buffer.findIndex(({ id }) => id === lastEventId);
+		return index === -1 ? null : state.buffer.slice(index + 1);
+	}
+
+	private nextId(): string {
+		return `${this.epoch}:${++this.sequence}`;
+	}
+}
@@ -0,0 +1,77 @@
+import type { PrismaClient } from "@prisma/client";
+import type { MessageItem, ReadReceipt } from "../../utils/directMessages.js";
+import { broker } from "../broker/index.js";
+import type {
+	CommentDeletedEvent,
+	CommentEvent,
+	NotificationEvent,
+	ReactionEvent,
+	TypingEvent,
+} from "../events/index.js";
+import type { Room, RoomEvent } from "./RoomHub.js";
+import { RoomHub } from "./RoomHub.js";
+
+/**
+ * Events published to each kind of room: a post's thread and a user's private room
+ */
+export type AppRoomEvents = {
+	post: {
+		"comments.added": CommentEvent;
+		"comments.updated": CommentEvent;
+		"comments.deleted": CommentDeletedEvent;
+		"reactions.changed": ReactionEvent;
+		"typing.changed": TypingEvent;
+	};
+	user: {
+		"notifications.created": NotificationEvent;
+		"dm.message": MessageItem;
+		"dm.read": ReadReceipt;
+	};
+};
+
+export type RoomKind = keyof AppRoomEvents;
+
+export type AppRoomEvent<K extends RoomKind> = RoomEvent<AppRoomEvents, K>;
+
+/**
+ * What resumable room subscriptions emit: each event with its id, and "ready" once the room
+ * is joined and missed events are replayed, with the id to pass as lastEventId after a
+ * reconnect. resync means the missed events are no longer available and the client has to
+ * reload what the subscription keeps up to date.
+ */
+export type RoomMessage<T> =
+	| { type: "event"; id: string; data: T }
+	| { type: "ready"; id: string; resync: boolean };
+
+/**
+ * What authorization hooks see of a joining connection; the tRPC context satisfies it
+ */
+export type RoomMember = {
+	user: { localUserId: number } | null;
+	prisma: PrismaClient;
+};
+
+/**
+ * Rooms joined by the connections of this process, delivered through the shared broker.
+ * Authorization hooks are registered next to the procedures that join them (routers/index.ts).
+ */
+export const rooms = new RoomHub<AppRoomEvents, RoomMember>(broker);
+
+export function postRoom(postId: number): Room<"post"> {
+	return { kind: "post", id: postId };
+}
+
+export function userRoom(userId: number): Room<"user"> {
+	return { kind: "user", id: userId };
+}
+
+export { RoomHub, roomChannel } from "./RoomHub.js";
+export type {
+	Room,
+	RoomAuthorizer,
+	RoomEvent,
+	RoomEventMaps,
+	RoomHubOptions,
+	RoomJoinOptions,
+	RoomPublishOptions,
+} from "./RoomHub.js";
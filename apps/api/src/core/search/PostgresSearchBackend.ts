@@ -0,0 +1,74 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { logger } from "../../modules/logger/core/logger.js";
+import {
+	HIDDEN_COMMENTS_CTE,
+	type SearchBackend,
+	type SearchHit,
+	type SearchQuery,
+} from "./SearchBackend.js";
+
+// The 'simple' configuration does not stem, so it behaves the same for every language.
+// These expressions must match the GIN index definitions for the planner to use them.
+const POST_VECTOR = Prisma.raw(
+	`to_tsvector('simple', coalesce(p."title", '') || ' ' || coalesce(p."body", ''))`
+);
+const COMMENT_VECTOR = Prisma.raw(`to_tsvector('simple', coalesce(c."body", ''))`);
+
+/**
+ * PostgreSQL search using tsvector expression indexes on Post and Comment
+ */
+export class PostgresSearchBackend implements SearchBackend {
+	readonly provider = "postgresql" as const;
+
+	constructor(private readonly prisma: PrismaClient) {}
+
+	async ensureIndex(): Promise<void> {
+		await this.prisma.$executeRawUnsafe(`
+			CREATE INDEX IF NOT EXISTS "Post_search_idx" ON "Post"
+			USING GIN (to_tsvector('simple', coalesce("title", '') || ' ' || coalesce("body", '')))`);
+		await this.prisma.$executeRawUnsafe(`
+			CREATE INDEX IF NOT EXISTS "Comment_search_idx" ON "Comment"
+			USING GIN (to_tsvector('simple', coalesce("body", '')))`);
+		logger.debug("PostgreSQL full-text search indexes ensured");
+	}
+
+	async search(query: SearchQuery): Promise<SearchHit[]> {
+		const conditions = [Prisma.sql`TRUE`];
+		if (query.authorId !== undefined) {
+			conditions.push(Prisma.sql`hits."authorId" = ${query.authorId}`);
+		}
+		if (query.from) {
+			conditions.push(Prisma.sql`hits."createdAt" >= ${query.from}`);
+		}
+		if (query.to) {
+			conditions.push(Prisma.sql`hits."createdAt" <= ${query.to}`);
+		}
+
+		// websearch_to_tsquery accepts free-form user input without syntax errors
+		const rows = await this.prisma.$queryRaw<{ kind: string; id: number; postId: number }[]>`
+			WITH RECURSIVE ${HIDDEN_COMMENTS_CTE},
+				q AS (SELECT websearch_to_tsquery('simple', ${query.raw}) AS query)
+			SELECT hits.kind, hits.id, hits."postId"
+			FROM (
+				SELECT 'post' AS kind, p.id, p.id AS "postId", p."authorId", p."createdAt",
+					ts_rank(${POST_VECTOR}, q.query) AS rank
+				FROM "Post" p, q
+				WHERE p."deletedAt" IS NULL AND ${POST_VECTOR} @@ q.query
+				UNION ALL
+				SELECT 'comment' AS kind, c.id, c."postId", c."authorId", c."createdAt",
+					ts_rank(${COMMENT_VECTOR}, q.query) AS rank
+				FROM "Comment" c JOIN "Post" p ON p.id = c."postId", q
+				WHERE c.id NOT IN (SELECT id FROM "HiddenComment") AND p."deletedAt" IS NULL
+					AND ${COMMENT_VECTOR} @@ q.query
+			) hits
+			WHERE ${Prisma.join(conditions, " AND ")}
+			ORDER BY hits.rank DESC, hits.id DESC
+			LIMIT ${query.limit} OFFSET ${query.offset}`;
+
+		return rows.map((row) => ({
+			kind: row.kind === "comment" ? "comment" : "post",
+			id: Number(row.id),
+			postId: Number(row.postId),
+		}));
+	}
+}
@@ -0,0 +1,49 @@
+import { Prisma } from "@prisma/client";
+
+export type DatabaseProvider = "sqlite" | "postgresql";
+
+export type SearchFilters = {
+	authorId?: number;
+	from?: Date;
+	to?: Date;
+};
+
+export type SearchQuery = SearchFilters & {
+	terms: string[];
+	raw: string;
+	limit: number;
+	offset: number;
+};
+
+/**
+ * A matching post or comment, ordered by relevance
+ */
+export type SearchHit = {
+	kind: "post" | "comment";
+	id: number;
+	postId: number;
+};
+
+/**
+ * Recursive common table expression "HiddenComment": trashed comments and every reply below
+ * them, which comments.list does not show either. Standard SQL, shared by both backends.
+ */
+export const HIDDEN_COMMENTS_CTE = Prisma.sql`"HiddenComment"(id) AS (
+	SELECT id FROM "Comment" WHERE "deletedAt" IS NOT NULL
+	UNION
+	SELECT reply.id FROM "Comment" reply JOIN "HiddenComment" hidden ON reply."parentId" = hidden.id
+)`;
+
+/**
+ * Database specific full-text search over post titles, post bodies and comments
+ */
+export interface SearchBackend {
+	readonly provider: DatabaseProvider;
+
+	/**
+	 * Create the full-text index if it does not exist yet (idempotent)
+	 */
+	ensureIndex(): Promise<void>;
+
+	search(query: SearchQuery): Promise<SearchHit[]>;
+}
@@ -0,0 +1,134 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { logger } from "../../modules/logger/core/logger.js";
+import {
+	HIDDEN_COMMENTS_CTE,
+	type SearchBackend,
+	type SearchHit,
+	type SearchQuery,
+} from "./SearchBackend.js";
+
+// The trigram tokenizer only matches terms of at least three characters
+const MIN_TRIGRAM_TERM_LENGTH = 3;
+
+/**
+ * Quote each term as an FTS5 phrase so user input cannot inject query syntax
+ */
+export function toFtsMatchExpression(terms: string[]): string {
+	return terms.map((term) => `"${term.replaceAll('"', '""')}"`).join(" ");
+}
+
+function escapeLike(term: string): string {
+	return term.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+/**
+ * SQLite FTS5 search. Posts and comments are copied into the `SearchIndex` virtual table
+ * by triggers, so the index stays in sync with every write path.
+ */
+export class SqliteSearchBackend implements SearchBackend {
+	readonly provider = "sqlite" as const;
+
+	constructor(private readonly prisma: PrismaClient) {}
+
+	async ensureIndex(): Promise<void> {
+		const existing = await this.prisma.$queryRaw<{ name: string }[]>`
+			SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'SearchIndex'`;
+
+		// trigram handles languages without word separators (e.g. Japanese)
+		await this.prisma.$executeRawUnsafe(`
+			CREATE VIRTUAL TABLE IF NOT EXISTS "SearchIndex" USING fts5(
+				kind UNINDEXED, recordId UNINDEXED, postId UNINDEXED, title, body,
+				tokenize = 'trigram'
+			)`);
+
+		const triggers = [
+			`CREATE TRIGGER IF NOT EXISTS "Post_search_insert" AFTER INSERT ON "Post" BEGIN
+				INSERT INTO "SearchIndex" (kind, recordId, postId, title, body)
+				VALUES ('post', new.id, new.id, new.title, new.body);
+			END`,
+			`CREATE TRIGGER IF NOT EXISTS "Post_search_update" AFTER UPDATE OF title, body ON "Post" BEGIN
+				UPDATE "SearchIndex" SET title = new.title, body = new.body
+				WHERE kind = 'post' AND recordId = new.id;
+			END`,
+			`CREATE TRIGGER IF NOT EXISTS "Post_search_delete" AFTER DELETE ON "Post" BEGIN
+				DELETE FROM "SearchIndex" WHERE kind = 'post' AND recordId = old.id;
+			END`,
+			`CREATE TRIGGER IF NOT EXISTS "Comment_search_insert" AFTER INSERT ON "Comment" BEGIN
+				INSERT INTO "SearchIndex" (kind, recordId, postId, title, body)
+				VALUES ('comment', new.id, new.postId, '', new.body);
+			END`,
+			`CREATE TRIGGER IF NOT EXISTS "Comment_search_update" AFTER UPDATE OF body ON "Comment" BEGIN
+				UPDATE "SearchIndex" SET body = new.body
+				WHERE kind = 'comment' AND recordId = new.id;
+			END`,
+			`CREATE TRIGGER IF NOT EXISTS "Comment_search_delete" AFTER DELETE ON "Comment" BEGIN
+				DELETE FROM "SearchIndex" WHERE kind = 'comment' AND recordId = old.id;
+			END`,
+		];
+		for (const trigger of triggers) {
+			await this.prisma.$executeRawUnsafe(trigger);
+		}
+
+		if (existing.length === 0) {
+			// Backfill content written before the index existed
+			await this.prisma.$executeRawUnsafe(`
+				INSERT INTO "SearchIndex" (kind, recordId, postId, title, body)
+				SELECT 'post', id, id, title, body FROM "Post"
+				UNION ALL
+				SELECT 'comment', id, postId, '', body FROM "Comment"`);
+			logger.info("SQLite full-text search index created");
+		}
+	}
+
+	async search(query: SearchQuery): Promise<SearchHit[]> {
+		const conditions = [
+			Prisma.sql`p."deletedAt" IS NULL`,
+			Prisma.sql`("SearchIndex".kind = 'post' OR c.id NOT IN (SELECT id FROM "HiddenComment"))`,
+		];
+		if (query.authorId !== undefined) {
+			conditions.push(Prisma.sql`COALESCE(c."authorId", p."authorId") = ${query.authorId}`);
+		}
+		// Prisma stores SQLite DateTime values as epoch milliseconds
+		if (query.from) {
+			conditions.push(
+				Prisma.sql`COALESCE(c."createdAt", p."createdAt") >= ${query.from.getTime()}`
+			);
+		}
+		if (query.to) {
+			conditions.push(Prisma.sql`COALESCE(c."createdAt", p."createdAt") <= ${query.to.getTime()}`);
+		}
+
+		const useFts = query.terms.every((term) => [...term].length >= MIN_TRIGRAM_TERM_LENGTH);
+		if (useFts) {
+			conditions.push(Prisma.sql`"SearchIndex" MATCH ${toFtsMatchExpression(query.terms)}`);
+		} else {
+			// Short terms fall back to a substring scan of the index content
+			for (const term of query.terms) {
+				const pattern = `%${escapeLike(term)}%`;
+				conditions.push(
+					Prisma.sql`("SearchIndex".title LIKE ${pattern} ESCAPE '\\' OR "SearchIndex".body LIKE ${pattern} ESCAPE '\\')`
+				);
+			}
+		}
+
+		const orderBy = useFts
+			? Prisma.sql`bm25("SearchIndex"), "SearchIndex".recordId DESC`
+			: Prisma.sql`COALESCE(c."createdAt", p."createdAt") DESC, "SearchIndex".recordId DESC`;
+
+		const rows = await this.prisma.$queryRaw<{ kind: string; id: number; postId: number }[]>`
+			WITH RECURSIVE ${HIDDEN_COMMENTS_CTE}
+			SELECT "SearchIndex".kind AS kind, "SearchIndex".recordId AS id, "SearchIndex".postId AS postId
+			FROM "SearchIndex"
+			JOIN "Post" p ON p.id = "SearchIndex".postId
+			LEFT JOIN "Comment" c ON "SearchIndex".kind = 'comment' AND c.id = "SearchIndex".recordId
+			WHERE ${Prisma.join(conditions, " AND ")}
+			ORDER BY ${orderBy}
+			LIMIT ${query.limit} OFFSET ${query.offset}`;
+
+		return rows.map((row) => ({
+			kind: row.kind === "comment" ? "comment" : "post",
+			id: Number(row.id),
+			postId: Number(row.postId),
+		}));
+	}
+}
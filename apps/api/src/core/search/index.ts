@@ -0,0 +1,32 @@
+import type { PrismaClient } from "@prisma/client";
+import { PostgresSearchBackend } from "./PostgresSearchBackend.js";
+import type { DatabaseProvider, SearchBackend } from "./SearchBackend.js";
+import { SqliteSearchBackend } from "./SqliteSearchBackend.js";
+
+/**
+ * Infer the Prisma provider from the connection string (schema.prisma supports both)
+ */
+export function resolveDatabaseProvider(url: string | undefined): DatabaseProvider {
+	return url && /^postgres(ql)?:\/\//i.test(url) ? "postgresql" : "sqlite";
+}
+
+export function createSearchBackend(
+	prisma: PrismaClient,
+	provider: DatabaseProvider = resolveDatabaseProvider(process.env.DATABASE_URL)
+): SearchBackend {
+	return provider === "postgresql"
+		? new PostgresSearchBackend(prisma)
+		: new SqliteSearchBackend(prisma);
+}
+
+export { PostgresSearchBackend } from "./PostgresSearchBackend.js";
+export { SqliteSearchBackend, toFtsMatchExpression } from "./SqliteSearchBackend.js";
+export { buildSnippet, extractSearchTerms } from "./snippet.js";
+export type {
+	DatabaseProvider,
+	SearchBackend,
+	SearchFilters,
+	SearchHit,
+	SearchQuery,
+} from "./SearchBackend.js";
+export type { SnippetSegment } from "./snippet.js";
@@ -0,0 +1,80 @@
+export type SnippetSegment = {
+	text: string;
+	highlight: boolean;
+};
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEADING_CONTEXT = 40;
+
+/**
+ * Split a free-form query into unique search terms
+ */
+export function extractSearchTerms(raw: string): string[] {
+	const terms = raw
+		.replaceAll('"', " ")
+		.split(/\s+/)
+		.map((term) => term.trim())
+		.filter((term) => term.length > 0);
+	const seen = new Set<string>();
+	return terms.filter((term) => {
+		const key = term.toLowerCase();
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
+
+function findNextMatch(
+	lower: string,
+	terms: string[],
+	from: number
+): { index: number; length: number } | null {
+	let best: { index: number; length: number } | null = null;
+	for (const term of terms) {
+		const index = lower.indexOf(term, from);
+		if (index === -1) continue;
+		if (!best || index < best.index || (index === best.index && term.length > best.length)) {
+			best = { index, length: term.length };
+		}
+	}
+	return best;
+}
+
+/**
+ * Cut an excerpt around the first matching term and mark every term occurrence.
+ * Segments are plain text; the client decides how to render highlights.
+ */
+export function buildSnippet(
+	text: string,
+	terms: string[],
+	maxLength = SNIPPET_LENGTH
+): SnippetSegment[] {
+	const lowerTerms = terms.map((term) => term.toLowerCase()).filter((term) => term.length > 0);
+	const first = findNextMatch(text.toLowerCase(), lowerTerms, 0);
+
+	const start = first ? Math.max(0, first.index - SNIPPET_LEADING_CONTEXT) : 0;
+	const end = Math.min(text.length, start + maxLength);
+	const excerpt = text.slice(start, end);
+	const lower = excerpt.toLowerCase();
+
+	const segments: SnippetSegment[] = [];
+	const push = (value: string, highlight: boolean) => {
+		if (value) segments.push({ text: value, highlight });
+	};
+
+	push(start > 0 ? "…" : "", false);
+	let position = 0;
+	for (
+		let match = findNextMatch(lower, lowerTerms, 0);
+		match;
+		match = findNextMatch(lower, lowerTerms, position)
+	) {
+		push(excerpt.slice(position, match.index), false);
+		push(excerpt.slice(match.index, match.index + match.length), true);
+		position = match.index + match.length;
+	}
+	push(excerpt.slice(position), false);
+	push(end < text.length ? "…" : "", false);
+
+	return segments;
+}
@@ -0,0 +1,54 @@
+import type { RawData, WebSocket } from "ws";
+import { WEBSOCKET_AUTH_HANDSHAKE_TIMEOUT_MS } from "../../../constants/index.js";
+
+/**
+ * 認証ハンドシェイクに使うプロシージャ
+ * アップグレードリクエストで認証しなかった接続は、最初のメッセージでこのプロシージャを呼び、入力でトークンを渡す
+ */
+export const AUTH_HANDSHAKE_PATH = "auth.handshake";
+
+type HandshakeMessage = {
+	method?: unknown;
+	params?: { path?: unknown; input?: { json?: { token?: unknown } } };
+};
+
+/**
+ * 最初のメッセージが認証ハンドシェイクならそのトークンを返す（それ以外は空文字）
+ * tRPC の JSON-RPC 形式（superjson でシリアライズした入力）のまま受け取るので、メッセージ自体は tRPC も処理する
+ */
+export function parseHandshakeToken(data: RawData): string {
+	try {
+		const parsed = JSON.parse(data.toString()) as HandshakeMessage | HandshakeMessage[];
+		const message = Array.isArray(parsed) ? parsed[0] : parsed;
+		if (message?.method !== "mutation" || message.params?.path !== AUTH_HANDSHAKE_PATH) {
+			return "";
+		}
+		const token = message.params.input?.json?.token;
+		return typeof token === "string" ? token : "";
+	} catch {
+		return "";
+	}
+}
+
+/**
+ * 接続の最初のメッセージを待ち、認証ハンドシェイクのトークンを返す
+ * ハンドシェイク以外のメッセージが届いたとき、タイムアウトしたとき、切断されたときは空文字（未認証）
+ */
+export function waitForHandshakeToken(
+	socket: WebSocket,
+	timeoutMs = WEBSOCKET_AUTH_HANDSHAKE_TIMEOUT_MS
+): Promise<string> {
+	return new Promise((resolve) => {
+		const finish = (token: string) => {
+			clearTimeout(timer);
+			socket.off("message", onMessage);
+			socket.off("close", onClose);
+			resolve(token);
+		};
+		const onMessage = (data: RawData) => finish(parseHandshakeToken(data));
+		const onClose = () => finish("");
+		const timer = setTimeout(() => finish(""), timeoutMs);
+		socket.on("message", onMessage);
+		socket.on("close", onClose);
+	});
+}
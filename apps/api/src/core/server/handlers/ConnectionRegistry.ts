@@ -0,0 +1,214 @@
+import type { WebSocket } from "ws";
+import {
+	WEBSOCKET,
+	WEBSOCKET_CLOSE_CODES,
+	WEBSOCKET_IDLE_TIMEOUT_AUTHENTICATED_MS,
+	WEBSOCKET_IDLE_TIMEOUT_UNAUTHENTICATED_MS,
+} from "../../../constants/index.js";
+import { logger } from "../../../modules/logger/core/logger.js";
+
+/**
+ * ユーザーあたりの接続数が上限に達したときの扱い
+ * evict-oldest: 最も古い接続を切断して新しい接続を受け入れる / reject: 新しい接続を切断する
+ */
+export type ConnectionLimitPolicy = "evict-oldest" | "reject";
+
+export type ConnectionRegistryOptions = {
+	maxPerUser?: number;
+	policy?: ConnectionLimitPolicy;
+	idleTimeoutAuthenticatedMs?: number;
+	idleTimeoutUnauthenticatedMs?: number;
+};
+
+type TrackedConnection = {
+	userId: number | null;
+	lastActivityAt: number;
+	expiresAt: number | null; // 認証に使ったトークンの有効期限（ミリ秒）
+};
+
+/**
+ * 環境変数（MAX_WS_CONNECTIONS_PER_USER / WS_CONNECTION_LIMIT_POLICY）から接続数の上限を読み込む
+ */
+export function connectionLimitsFromEnv(
+	env: NodeJS.ProcessEnv = process.env
+): ConnectionRegistryOptions {
+	const policy = env.WS_CONNECTION_LIMIT_POLICY || "evict-oldest";
+	if (policy !== "evict-oldest" && policy !== "reject") {
+		throw new Error(`Unsupported WS_CONNECTION_LIMIT_POLICY: ${policy}`);
+	}
+	const maxPerUser = Number.parseInt(
+		env.MAX_WS_CONNECTIONS_PER_USER || String(WEBSOCKET.MAX_CONNECTIONS_PER_USER),
+		10
+	);
+	if (!Number.isInteger(maxPerUser) || maxPerUser < 1) {
+		throw new Error("MAX_WS_CONNECTIONS_PER_USER must be a positive integer");
+	}
+	return { maxPerUser, policy };
+}
+
+/**
+ * WebSocket 接続をユーザーごとに管理するクラス
+ * ユーザーあたりの同時接続数の上限と、メッセージを受信しないまま一定時間が過ぎた接続の切断を担当
+ */
+export class ConnectionRegistry {
+	private readonly connections = new Map<WebSocket, TrackedConnection>();
+	// ユーザーごとの接続（認証された順）
+	private readonly byUser = new Map<number, WebSocket[]>();
+	private readonly maxPerUser: number;
+	private readonly policy: ConnectionLimitPolicy;
+	private readonly idleTimeoutAuthenticatedMs: number;
+	private readonly idleTimeoutUnauthenticatedMs: number;
+
+	constructor(options: ConnectionRegistryOptions = {}) {
+		this.maxPerUser = options.maxPerUser ?? WEBSOCKET.MAX_CONNECTIONS_PER_USER;
+		this.policy = options.policy ?? "evict-oldest";
+		this.idleTimeoutAuthenticatedMs =
+			options.idleTimeoutAuthenticatedMs ?? WEBSOCKET_IDLE_TIMEOUT_AUTHENTICATED_MS;
+		this.idleTimeoutUnauthenticatedMs =
+			options.idleTimeoutUnauthenticatedMs ?? WEBSOCKET_IDLE_TIMEOUT_UNAUTHENTICATED_MS;
+	}
+
+	/**
+	 * 接続を登録する（未認証として扱う）
+	 * 受信したメッセージを活動として記録し、切断時に登録を外す
+	 */
+	add(socket: WebSocket): void {
+		this.connections.set(socket, { userId: null, lastActivityAt: Date.now(), expiresAt: null });
+		socket.on("message", () => {
+			const connection = this.connections.get(socket);
+			if (connection) connection.lastActivityAt = Date.now();
+		});
+		socket.once("close", () => this.remove(socket));
+	}
+
+	/**
+	 * 接続をユーザーに結び付ける（expiresAt はトークンの有効期限）
+	 * 上限に達している場合、evict-oldest では最も古い接続を切断し、reject ではこの接続を切断して false を返す
+	 */
+	authenticate(socket: WebSocket, userId: number, expiresAt: number | null = null): boolean {
+		const connection = this.connections.get(socket);
+		if (!connection) {
+			// 認証中に切断された
+			return false;
+		}
+
+		const sockets = this.byUser.get(userId) ?? [];
+		if (sockets.length >= this.maxPerUser) {
+			if (this.policy === "reject") {
+				logger.warn("WebSocket connection rejected: too many connections for user", {
+					userId,
+					limit: this.maxPerUser,
+				});
+				this.close(socket, WEBSOCKET_CLOSE_CODES.TOO_MANY_CONNECTIONS, "Too many connections");
+				return false;
+			}
+			for (const oldest of sockets.slice(0, sockets.length - this.maxPerUser + 1)) {
+				logger.info("Closing oldest WebSocket connection of user", {
+					userId,
+					limit: this.maxPerUser,
+				});
+				this.close(
+					oldest,
+					WEBSOCKET_CLOSE_CODES.CONNECTION_REPLACED,
+					"Replaced by a newer connection"
+				);
+			}
+		}
+
+		connection.userId = userId;
+		connection.expiresAt = expiresAt;
+		this.byUser.set(userId, [...(this.byUser.get(userId) ?? []), socket]);
+		return true;
+	}
+
+	/**
+	 * アイドルタイムアウトを過ぎた接続を切断する（ハートビートごとに呼び出す）
+	 */
+	closeIdle(): void {
+		const now = Date.now();
+		for (const [socket, connection] of this.connections) {
+			const timeout =
+				connection.userId === null
+					? this.idleTimeoutUnauthenticatedMs
+					: this.idleTimeoutAuthenticatedMs;
+			if (now - connection.lastActivityAt >= timeout) {
+				logger.info("Closing idle WebSocket connection", {
+					userId: connection.userId,
+					idleMs: now - connection.lastActivityAt,
+				});
+				this.close(socket, WEBSOCKET_CLOSE_CODES.IDLE_TIMEOUT, "Idle timeout");
+			}
+		}
+	}
+
+	/**
+	 * 接続のトークンを更新したときに有効期限を差し替える
+	 */
+	renew(socket: WebSocket, expiresAt: number | null): void {
+		const connection = this.connections.get(socket);
+		if (connection) connection.expiresAt = expiresAt;
+	}
+
+	/**
+	 * トークンの有効期限を過ぎても更新されなかった接続を切断する（ハートビートごとに呼び出す）
+	 */
+	closeExpired(): void {
+		const now = Date.now();
+		for (const [socket, connection] of this.connections) {
+			if (connection.expiresAt !== null && connection.expiresAt <= now) {
+				logger.info("Closing WebSocket connection with an expired token", {
+					userId: connection.userId,
+					expiredForMs: now - connection.expiresAt,
+				});
+				this.close(socket, WEBSOCKET_CLOSE_CODES.TOKEN_EXPIRED, "Token expired");
+			}
+		}
+	}
+
+	/**
+	 * ユーザーのすべての接続を切断し、切断した数を返す
+	 */
+	closeUser(userId: number, code: number, reason: string): number {
+		const sockets = this.byUser.get(userId) ?? [];
+		for (const socket of sockets) {
+			this.close(socket, code, reason);
+		}
+		return sockets.length;
+	}
+
+	/**
+	 * ユーザーの接続数
+	 */
+	countOf(userId: number): number {
+		return this.byUser.get(userId)?.length ?? 0;
+	}
+
+	/**
+	 * 接続を閉じ、close イベントを待たずに登録を外す（上限の判定にすぐ反映させるため）
+	 */
+	private close(socket: WebSocket, code: number, reason: string): void {
+		this.remove(socket);
+		try {
+			socket.close(code, reason);
+		} catch (error) {
+			logger.debug("Failed to close WebSocket connection", {
+				code,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	private remove(socket: WebSocket): void {
+		const connection = this.connections.get(socket);
+		if (!connection) return;
+		this.connections.delete(socket);
+		if (connection.userId === null) return;
+
+		const remaining = (this.byUser.get(connection.userId) ?? []).filter((s) => s !== socket);
+		if (remaining.length > 0) {
+			this.byUser.set(connection.userId, remaining);
+		} else {
+			this.byUser.delete(connection.userId);
+		}
+	}
+}
@@ -0,0 +1,154 @@
+import type { WebSocket } from "ws";
+import {
+	WEBSOCKET_HEARTBEAT_INTERVAL_MS,
+	WEBSOCKET_HEARTBEAT_MAX_MISSED,
+} from "../../../constants/index.js";
+import { logger } from "../../../modules/logger/core/logger.js";
+
+export type HeartbeatOptions = {
+	intervalMs?: number;
+	maxMissed?: number; // 応答のない ping がこの回数続くと切断する
+};
+
+export type HeartbeatStats = {
+	connections: number;
+	latencyMs: { average: number | null; max: number | null };
+	terminated: number; // 起動後に応答なしで切断した接続数
+	lastTerminatedAt: string | null;
+};
+
+type SocketState = {
+	connectedAt: number;
+	pingSentAt: number | null; // 応答待ちの ping の送信時刻
+	missed: number;
+	latencyMs: number | null; // 直近の ping から pong までの時間
+};
+
+/**
+ * 環境変数（WS_HEARTBEAT_INTERVAL_MS / WS_HEARTBEAT_MAX_MISSED）からハートビートの設定を読み込む
+ */
+export function heartbeatOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): HeartbeatOptions {
+	const intervalMs = Number.parseInt(
+		env.WS_HEARTBEAT_INTERVAL_MS || String(WEBSOCKET_HEARTBEAT_INTERVAL_MS),
+		10
+	);
+	const maxMissed = Number.parseInt(
+		env.WS_HEARTBEAT_MAX_MISSED || String(WEBSOCKET_HEARTBEAT_MAX_MISSED),
+		10
+	);
+	if (!Number.isInteger(intervalMs) || intervalMs < 1) {
+		throw new Error("WS_HEARTBEAT_INTERVAL_MS must be a positive integer");
+	}
+	if (!Number.isInteger(maxMissed) || maxMissed < 1) {
+		throw new Error("WS_HEARTBEAT_MAX_MISSED must be a positive integer");
+	}
+	return { intervalMs, maxMissed };
+}
+
+/**
+ * WebSocket の死活監視を担当するクラス
+ * 定期的に ping を送り、pong でレイテンシを記録する。応答のない ping が続いた接続は切断して数える
+ */
+export class HeartbeatMonitor {
+	readonly intervalMs: number;
+	private readonly maxMissed: number;
+	private readonly sockets = new Map<WebSocket, SocketState>();
+	private terminated = 0;
+	private lastTerminatedAt: Date | null = null;
+
+	constructor(options: HeartbeatOptions = {}) {
+		this.intervalMs = options.intervalMs ?? WEBSOCKET_HEARTBEAT_INTERVAL_MS;
+		this.maxMissed = options.maxMissed ?? WEBSOCKET_HEARTBEAT_MAX_MISSED;
+	}
+
+	/**
+	 * 接続の監視を始める（切断時に自動で外す）
+	 */
+	track(socket: WebSocket): void {
+		const state: SocketState = {
+			connectedAt: Date.now(),
+			pingSentAt: null,
+			missed: 0,
+			latencyMs: null,
+		};
+		this.sockets.set(socket, state);
+		socket.on("pong", () => {
+			if (state.pingSentAt !== null) {
+				state.latencyMs = Date.now() - state.pingSentAt;
+				state.pingSentAt = null;
+			}
+			state.missed = 0;
+		});
+		socket.once("close", () => this.sockets.delete(socket));
+	}
+
+	/**
+	 * 前回の ping に応答がなかった接続を数え、許容回数を超えたものを切断してから ping を送る
+	 * intervalMs ごとに呼び出す
+	 */
+	sweep(): void {
+		const now = Date.now();
+		for (const [socket, state] of this.sockets) {
+			if (state.pingSentAt !== null) {
+				state.missed++;
+			}
+			if (state.missed >= this.maxMissed) {
+				this.terminate(socket, state, now);
+				continue;
+			}
+			// 応答待ちの ping があれば送信時刻を更新しない（レイテンシは最初の ping から測る）
+			state.pingSentAt ??= now;
+			try {
+				socket.ping();
+			} catch (error) {
+				logger.debug("Failed to ping connection", {
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+	}
+
+	/**
+	 * 接続の直近のレイテンシ（まだ pong を受け取っていなければ null）
+	 */
+	latencyOf(socket: WebSocket): number | null {
+		return this.sockets.get(socket)?.latencyMs ?? null;
+	}
+
+	stats(): HeartbeatStats {
+		const latencies = [...this.sockets.values()]
+			.map((state) => state.latencyMs)
+			.filter((latency): latency is number => latency !== null);
+		return {
+			connections: this.sockets.size,
+			latencyMs: {
+				average:
+					latencies.length > 0
+						? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+						: null,
+				max: latencies.length > 0 ? Math.max(...latencies) : null,
+			},
+			terminated: this.terminated,
+			lastTerminatedAt: this.lastTerminatedAt?.toISOString() ?? null,
+		};
+	}
+
+	private terminate(socket: WebSocket, state: SocketState, now: number): void {
+		this.sockets.delete(socket);
+		this.terminated++;
+		this.lastTerminatedAt = new Date(now);
+		logger.warn("Terminating unresponsive WebSocket connection", {
+			missedPongs: state.missed,
+			lastLatencyMs: state.latencyMs,
+			connectedForMs: now - state.connectedAt,
+			terminatedTotal: this.terminated,
+		});
+		try {
+			socket.terminate();
+		} catch (error) {
+			logger.debug("Failed to terminate dead connection", {
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+}
@@ -1,3 +1,20 @@
+export {
+	AUTH_HANDSHAKE_PATH,
+	parseHandshakeToken,
+	waitForHandshakeToken,
+} from "./AuthHandshake.js";
+export {
+	type ConnectionLimitPolicy,
+	ConnectionRegistry,
+	type ConnectionRegistryOptions,
+	connectionLimitsFromEnv,
+} from "./ConnectionRegistry.js";
 export { CookieManager } from "./CookieManager.js";
+export {
+	HeartbeatMonitor,
+	type HeartbeatOptions,
+	type HeartbeatStats,
+	heartbeatOptionsFromEnv,
+} from "./HeartbeatMonitor.js";
 export { HttpHelper } from "./HttpHelper.js";
 export { SessionManager } from "./SessionManager.js";
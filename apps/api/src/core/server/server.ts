@@ -1,6 +1,7 @@
 import "reflect-metadata";
 import * as fs from "fs";
 import type { IncomingMessage, ServerResponse } from "http";
+import type { AddressInfo } from "net";
 import * as http from "http";
 import * as https from "https";
 import { randomBytes, randomUUID } from "crypto";
@@ -13,18 +14,45 @@ import { z } from "zod";
 import { type WebSocket, WebSocketServer } from "ws";
 import type { AccessTokenClaims, IdTokenClaims } from "../auth/index.js";
 import { JwtService } from "../auth/index.js";
+import { broker } from "../broker/index.js";
+import { eventBus } from "../events/index.js";
+import { presence, typing } from "../presence/index.js";
+import { type StorageBackend, createStorageBackend } from "../storage/index.js";
+import {
+	ConnectionRegistry,
+	HeartbeatMonitor,
+	connectionLimitsFromEnv,
+	heartbeatOptionsFromEnv,
+	waitForHandshakeToken,
+} from "./handlers/index.js";
+import {
+	BUSINESS_RULES,
+	RATE_LIMITING,
+	WEBSOCKET_CLOSE_CODES,
+} from "../../constants/index.js";
 import { logger } from "../../modules/logger/core/logger.js";
 import type { Context, ContextUser } from "../../routers/index.js";
-
-// Extend WebSocket type to include isAlive property
+import {
+	type AttachmentVariant,
+	createThumbnail,
+	sanitizeFilename,
+	storeAttachment,
+	verifyAttachmentSignature,
+} from "../../utils/attachments.js";
+import { mergeRoles } from "../../utils/authorization.js";
+import { isImageType, sniffMimeType } from "../../utils/mime.js";
+
+// Extend WebSocket type to include the connection id used for presence
 interface ExtendedWebSocket extends WebSocket {
-	isAlive?: boolean;
+	connectionId?: string;
 }
 
-// WebSocket configuration constants
-const IDLE_TIMEOUT_AUTHENTICATED_MS = 30 * 60 * 1000; // 30 minutes
-const IDLE_TIMEOUT_UNAUTHENTICATED_MS = 5 * 60 * 1000; // 5 minutes
-const HEARTBEAT_INTERVAL_MS = 30_000; // 30 seconds
+// Expiry of an access token in milliseconds, if it has one
+const expiresAtOf = (claims: AccessTokenClaims): number | null =>
+	claims.exp ? claims.exp * 1000 : null;
+
+const UPLOAD_RATE_WINDOW_MS = 60 * 60 * 1000; // RATE_LIMITING.MAX_UPLOADS_PER_HOUR window
+const DOWNLOAD_PATH = /^\/uploads\/(\d+)(\/thumbnail)?$/;
 
 @injectable()
 export class ServerApp {
@@ -37,6 +65,14 @@ export class ServerApp {
 		process.env.OIDC_MAX_AUTH_BODY_BYTES || "1048576",
 		10
 	);
+	private readonly storage: StorageBackend = createStorageBackend();
+	// Per-user connection limit and idle timeouts
+	private readonly connections = new ConnectionRegistry(connectionLimitsFromEnv());
+	// Ping/pong liveness and latency of every connection
+	private readonly heartbeat = new HeartbeatMonitor(heartbeatOptionsFromEnv());
+	// Deprecated: accept the access token in the URL query string, where proxies log it
+	private readonly allowQueryToken = process.env.WS_ALLOW_QUERY_TOKEN?.toLowerCase() === "true";
+	private stopServers: (() => Promise<void>) | null = null;
 
 	constructor(
 		@inject("Prisma") private readonly prisma: PrismaClient,
@@ -60,7 +96,8 @@ export class ServerApp {
 	}
 
 	/**
-	 * Extract JWT token from WebSocket request headers or URL query parameter
+	 * Extract JWT token from the request headers, or from the URL query parameter when
+	 * WS_ALLOW_QUERY_TOKEN is enabled
 	 */
 	private extractToken(req: IncomingMessage): string {
 		// Extract from Authorization header (standard method)
@@ -81,20 +118,24 @@ export class ServerApp {
 			}
 		}
 
-		// Extract from URL query parameter (WebSocket upgrade request)
+		// Extract from URL query parameter (deprecated: the URL ends up in proxy access logs;
+		// browsers send the token in the first message instead, see waitForHandshakeToken)
+		if (!this.allowQueryToken) {
+			return "";
+		}
 		try {
 			const host = req.headers.host ?? "localhost";
 			const url = new URL(req.url || "", `http://${host}`);
 			const authParam = url.searchParams.get("authorization");
-			if (authParam) {
-				const match = /^Bearer\s+(.+)$/i.exec(authParam);
-				if (match?.[1]) {
-					// すぐに削除してログに残らないようにする
-					return match[1];
-				}
-			}
+			const match = authParam ? /^Bearer\s+(.+)$/i.exec(authParam) : null;
 			// 後方互換性のため、tokenパラメータもチェック
-			return url.searchParams.get("token") ?? "";
+			const token = match?.[1] ?? url.searchParams.get("token") ?? "";
+			if (token) {
+				logger.warn(
+					"Access token read from the URL query string (deprecated); send it in a header or the first message and unset WS_ALLOW_QUERY_TOKEN"
+				);
+			}
+			return token;
 		} catch {
 			return "";
 		}
@@ -238,6 +279,26 @@ export class ServerApp {
 		}
 	}
 
+	/**
+	 * Read a raw request body, or return null as soon as it exceeds maxBytes
+	 */
+	private async readRawBody(req: IncomingMessage, maxBytes: number): Promise<Buffer | null> {
+		const chunks: Buffer[] = [];
+		let received = 0;
+
+		for await (const chunk of req) {
+			const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+			received += buffer.length;
+			if (received > maxBytes) {
+				req.destroy();
+				return null;
+			}
+			chunks.push(buffer);
+		}
+
+		return Buffer.concat(chunks);
+	}
+
 	private sanitizeUsernameCandidate(candidate: string | undefined | null): string | null {
 		if (!candidate) {
 			return null;
@@ -417,7 +478,7 @@ export class ServerApp {
 		return {
 			sub: claims.sub,
 			localUserId: user.id,
-			roles: this.extractRoles(claims, idTokenClaims),
+			roles: mergeRoles(this.extractRoles(claims, idTokenClaims), user.role),
 			email,
 			preferredUsername,
 			name,
@@ -425,6 +486,46 @@ export class ServerApp {
 		};
 	}
 
+	/**
+	 * Whether the access token was issued before an administrator ended the user's sessions.
+	 * Signing in again within the same second is rejected too, rather than leaving a gap.
+	 */
+	private isRevoked(user: User, claims: AccessTokenClaims): boolean {
+		if (!user.sessionsRevokedAt) {
+			return false;
+		}
+		// iat has whole seconds and sessionsRevokedAt is stored rounded down to match
+		return (claims.iat ?? 0) <= user.sessionsRevokedAt.getTime() / 1000;
+	}
+
+	/**
+	 * End every session of a user: revoke and delete the refresh sessions, reject the access
+	 * tokens issued so far and close the user's WebSockets on every instance
+	 */
+	private async terminateSessions(userId: number): Promise<number> {
+		const sessions = await this.prisma.refreshToken.findMany({ where: { userId } });
+		for (const session of sessions) {
+			if (session.tokenType !== "oidc") {
+				continue;
+			}
+			try {
+				await this.jwtService.revokeRefreshToken(session.token);
+			} catch (error) {
+				logger.warn("Failed to revoke refresh token", {
+					userId,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+		await this.prisma.refreshToken.deleteMany({ where: { userId } });
+		await this.prisma.user.update({
+			where: { id: userId },
+			data: { sessionsRevokedAt: new Date(Math.floor(Date.now() / 1000) * 1000) },
+		});
+		eventBus.publish("sessions.terminated", { userId });
+		return sessions.length;
+	}
+
 	private async persistRefreshSession(
 		userId: number,
 		refreshToken: string,
@@ -781,6 +882,155 @@ export class ServerApp {
 		res.end();
 	}
 
+	/**
+	 * User of the access token sent with an HTTP request, or null when it is missing, invalid
+	 * or revoked
+	 */
+	private async authenticateRequest(req: IncomingMessage): Promise<User | null> {
+		const token = this.extractToken(req);
+		const claims = token ? await this.jwtService.verifyAccessToken(token) : null;
+		if (!claims) {
+			return null;
+		}
+		const user = await this.provisionUser(claims);
+		return this.isRevoked(user, claims) ? null : user;
+	}
+
+	/**
+	 * Store the raw request body as an unlinked attachment of the caller. The file name
+	 * comes from the `filename` query parameter; the type is sniffed from the content.
+	 */
+	private async handleUpload(req: IncomingMessage, res: ServerResponse, url: URL) {
+		const user = await this.authenticateRequest(req);
+		if (!user) {
+			this.sendJson(res, 401, { error: "Authentication required" });
+			return;
+		}
+
+		const declaredLength = Number.parseInt(req.headers["content-length"] ?? "", 10);
+		if (declaredLength > BUSINESS_RULES.MAX_UPLOAD_SIZE) {
+			this.sendJson(res, 413, { error: "File too large" });
+			return;
+		}
+
+		const recentUploads = await this.prisma.attachment.count({
+			where: {
+				uploaderId: user.id,
+				createdAt: { gte: new Date(Date.now() - UPLOAD_RATE_WINDOW_MS) },
+			},
+		});
+		if (recentUploads >= RATE_LIMITING.MAX_UPLOADS_PER_HOUR) {
+			res.setHeader("Retry-After", String(UPLOAD_RATE_WINDOW_MS / 1000));
+			this.sendJson(res, 429, { error: "Upload limit reached, try again later" });
+			return;
+		}
+
+		const data = await this.readRawBody(req, BUSINESS_RULES.MAX_UPLOAD_SIZE);
+		if (!data) {
+			this.sendJson(res, 413, { error: "File too large" });
+			return;
+		}
+		if (data.length === 0) {
+			this.sendJson(res, 400, { error: "Empty file" });
+			return;
+		}
+
+		const mimeType = sniffMimeType(data);
+		if (!mimeType) {
+			this.sendJson(res, 415, { error: "Unsupported file type" });
+			return;
+		}
+
+		let image: Awaited<ReturnType<typeof createThumbnail>> | undefined;
+		if (isImageType(mimeType)) {
+			try {
+				image = await createThumbnail(data);
+			} catch (error) {
+				logger.debug("Uploaded image could not be decoded", {
+					error: error instanceof Error ? error.message : String(error),
+				});
+				this.sendJson(res, 415, { error: "Invalid image" });
+				return;
+			}
+		}
+
+		const attachment = await storeAttachment(this.prisma, this.storage, {
+			uploaderId: user.id,
+			filename: sanitizeFilename(url.searchParams.get("filename") ?? ""),
+			mimeType,
+			data,
+			image,
+		});
+		logger.info("Attachment uploaded", {
+			attachmentId: attachment.id,
+			userId: user.id,
+			mimeType,
+			size: attachment.size,
+		});
+		this.sendJson(res, 201, attachment);
+	}
+
+	/**
+	 * Serve an attachment (or its thumbnail) for a signed URL issued by the API
+	 */
+	private async handleDownload(res: ServerResponse, url: URL, match: RegExpExecArray) {
+		const id = Number(match[1]);
+		const variant: AttachmentVariant = match[2] ? "thumbnail" : "original";
+		const valid = verifyAttachmentSignature(
+			id,
+			variant,
+			url.searchParams.get("expires"),
+			url.searchParams.get("sig")
+		);
+		if (!valid) {
+			this.sendJson(res, 403, { error: "Invalid or expired link" });
+			return;
+		}
+
+		const attachment = await this.prisma.attachment.findUnique({
+			where: { id },
+			select: {
+				storageKey: true,
+				thumbnailKey: true,
+				filename: true,
+				mimeType: true,
+				post: { select: { deletedAt: true } },
+				comment: { select: { deletedAt: true, post: { select: { deletedAt: true } } } },
+			},
+		});
+		// Trashed content keeps its attachments for a restore, but they are not served
+		const hidden =
+			!!attachment?.post?.deletedAt ||
+			!!attachment?.comment?.deletedAt ||
+			!!attachment?.comment?.post.deletedAt;
+		const key = variant === "thumbnail" ? attachment?.thumbnailKey : attachment?.storageKey;
+		const stream = attachment && key && !hidden ? await this.storage.get(key) : null;
+		if (!attachment || !stream) {
+			this.sendJson(res, 404, { error: "Not found" });
+			return;
+		}
+
+		const contentType = variant === "thumbnail" ? "image/webp" : attachment.mimeType;
+		const disposition = isImageType(contentType) ? "inline" : "attachment";
+		res.statusCode = 200;
+		res.setHeader(
+			"Content-Type",
+			contentType === "text/plain" ? "text/plain; charset=utf-8" : contentType
+		);
+		res.setHeader(
+			"Content-Disposition",
+			`${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`
+		);
+		res.setHeader("X-Content-Type-Options", "nosniff");
+		res.setHeader("Content-Security-Policy", "default-src 'none'; sandbox");
+		res.setHeader("Cache-Control", "private, max-age=3600");
+		stream.on("error", (error) => {
+			logger.error("Failed to stream attachment", { attachmentId: id, error: error.message });
+			res.destroy();
+		});
+		stream.pipe(res);
+	}
+
 	private async handleHttpRequest(
 		req: IncomingMessage,
 		res: ServerResponse,
@@ -798,19 +1048,24 @@ export class ServerApp {
 			const url = new URL(req.url || "/", `http://${host}`);
 			const origin = req.headers.origin as string | undefined;
 			const isAuthEndpoint = url.pathname.startsWith("/auth/");
+			const isUploadEndpoint = url.pathname === "/uploads";
 
-			if (method === "OPTIONS" && isAuthEndpoint) {
+			if (method === "OPTIONS" && (isAuthEndpoint || isUploadEndpoint)) {
 				this.applyCors(res, origin, allowedOrigin);
 				this.handleOptions(res);
 				return;
 			}
 
-			if (isAuthEndpoint && !this.applyCors(res, origin, allowedOrigin)) {
+			if ((isAuthEndpoint || isUploadEndpoint) && !this.applyCors(res, origin, allowedOrigin)) {
 				return;
 			}
 
 			if (url.pathname === "/api/health" || url.pathname === "/health") {
-				this.sendJson(res, 200, { status: "ok", timestamp: new Date().toISOString() });
+				this.sendJson(res, 200, {
+					status: "ok",
+					timestamp: new Date().toISOString(),
+					websocket: this.heartbeat.stats(),
+				});
 				return;
 			}
 
@@ -834,6 +1089,17 @@ export class ServerApp {
 				return;
 			}
 
+			if (method === "POST" && isUploadEndpoint) {
+				await this.handleUpload(req, res, url);
+				return;
+			}
+
+			const download = method === "GET" ? DOWNLOAD_PATH.exec(url.pathname) : null;
+			if (download) {
+				await this.handleDownload(res, url, download);
+				return;
+			}
+
 			res.statusCode = 404;
 			res.end();
 		} catch (error) {
@@ -848,7 +1114,10 @@ export class ServerApp {
 		}
 	}
 
-	public async start(port: number) {
+	/**
+	 * Start the HTTP and WebSocket servers and resolve to the bound port (port 0 picks a free one)
+	 */
+	public async start(port: number): Promise<number> {
 		const allowedWsOrigin = process.env.ALLOWED_WS_ORIGIN;
 		if (!allowedWsOrigin) {
 			throw new Error("ALLOWED_WS_ORIGIN must be set. See .env.example");
@@ -911,7 +1180,8 @@ export class ServerApp {
 		const handler = applyWSSHandler({
 			wss: wss as any,
 			router: appRouter,
-			createContext: async ({ req }) => this.createContextFromReq(req),
+			createContext: async ({ req, res }) =>
+				this.createContextFromReq(req, res as ExtendedWebSocket),
 		});
 
 		wss.on("connection", (socket, req) => {
@@ -932,12 +1202,12 @@ export class ServerApp {
 				}
 				return;
 			}
+			this.connections.add(socket);
+			this.heartbeat.track(socket);
 
+			// Only the size: frames such as auth.handshake and auth.reauthenticate carry access tokens
 			socket.on("message", (data) => {
-				logger.debug("WebSocket message received", { 
-					dataLength: data.length,
-					dataPreview: data.toString().substring(0, 100)
-				});
+				logger.debug("WebSocket message received", { dataLength: data.length });
 			});
 
 			socket.on("error", (error) => {
@@ -946,74 +1216,90 @@ export class ServerApp {
 
 			socket.on("close", (code, reason) => {
 				logger.debug("WebSocket connection closed", { code, reason: reason.toString() });
+				const { connectionId } = socket as ExtendedWebSocket;
+				if (connectionId) {
+					presence.disconnect(connectionId);
+					typing.disconnect(connectionId);
+				}
 			});
 		});
 
-		// Periodic ping to detect broken connections
+		// Periodic ping to detect broken connections, and closing of idle and expired ones
 		const interval = setInterval(() => {
-			for (const client of wss.clients) {
-				const ws = client as ExtendedWebSocket;
-				if (ws.isAlive === false) {
-					try {
-						ws.terminate();
-					} catch (error) {
-						logger.debug("Failed to terminate dead connection", {
-							error: error instanceof Error ? error.message : String(error),
-						});
-					}
-					continue;
-				}
-				ws.isAlive = false;
-				try {
-					ws.ping();
-				} catch (error) {
-					logger.debug("Failed to ping connection", {
-						error: error instanceof Error ? error.message : String(error),
-					});
-				}
-			}
-		}, HEARTBEAT_INTERVAL_MS);
+			this.connections.closeIdle();
+			this.connections.closeExpired();
+			this.heartbeat.sweep();
+		}, this.heartbeat.intervalMs);
 
 		wss.on("close", () => clearInterval(interval));
 
-		// Start the server
-		server.listen(port, "0.0.0.0", () => {
-			const protocol = useSSL ? "HTTPS" : "HTTP";
-			logger.info(`${protocol} server listening`, { port, host: "0.0.0.0" });
-			logger.info("WebSocket server ready", { port, protocol: useSSL ? "WSS" : "WS" });
+		// Exchange presence and typing indicators with the other instances sharing the broker
+		presence.start();
+		typing.join();
+
+		// Close the connections of users whose sessions were ended on any instance
+		const unsubscribeSessions = eventBus.subscribe("sessions.terminated", ({ userId }) => {
+			const closed = this.connections.closeUser(
+				userId,
+				WEBSOCKET_CLOSE_CODES.SESSION_TERMINATED,
+				"Session terminated by an administrator"
+			);
+			logger.info("Closed WebSocket connections of a terminated user", { userId, closed });
 		});
-		const gracefulShutdown = async (signal: string) => {
-			logger.info(`Received ${signal}, starting graceful shutdown...`);
 
-			try {
-				// Broadcast reconnection notification to clients
-				handler.broadcastReconnectNotification();
-
-				// Close all WebSocket connections
-				await new Promise<void>((resolve, reject) => {
-					wss.close((err) => {
-						if (err) {
-							logger.error("Error closing WebSocket server", err);
-							reject(err);
-						} else {
-							logger.info("WebSocket server closed successfully");
-							resolve();
-						}
-					});
+		// Start the server
+		await new Promise<void>((resolve) => server.listen(port, "0.0.0.0", resolve));
+		const boundPort = (server.address() as AddressInfo).port;
+		const protocol = useSSL ? "HTTPS" : "HTTP";
+		logger.info(`${protocol} server listening`, { port: boundPort, host: "0.0.0.0" });
+		logger.info("WebSocket server ready", { port: boundPort, protocol: useSSL ? "WSS" : "WS" });
+
+		this.stopServers = async () => {
+			// Broadcast reconnection notification to clients
+			handler.broadcastReconnectNotification();
+
+			// Close all WebSocket connections
+			await new Promise<void>((resolve, reject) => {
+				wss.close((err) => {
+					if (err) {
+						logger.error("Error closing WebSocket server", err);
+						reject(err);
+					} else {
+						logger.info("WebSocket server closed successfully");
+						resolve();
+					}
 				});
+				for (const client of wss.clients) {
+					client.close(1001, "Server shutting down");
+				}
+			});
 
-				// Close HTTP/HTTPS server
-				await new Promise<void>((resolve, reject) => {
-					server.close((err) => {
-						if (err) {
-							logger.error("Error closing HTTP server", err);
-							reject(err);
-						} else {
-							logger.info("HTTP server closed successfully");
-							resolve();
-						}
-					});
+			// Close HTTP/HTTPS server
+			await new Promise<void>((resolve, reject) => {
+				server.close((err) => {
+					if (err) {
+						logger.error("Error closing HTTP server", err);
+						reject(err);
+					} else {
+						logger.info("HTTP server closed successfully");
+						resolve();
+					}
 				});
+				server.closeAllConnections();
+			});
+
+			// Leave the other instances' presence and release the broker connections
+			unsubscribeSessions();
+			presence.stop();
+			typing.leave();
+			await broker.close();
+		};
+
+		const gracefulShutdown = async (signal: string) => {
+			logger.info(`Received ${signal}, starting graceful shutdown...`);
+
+			try {
+				await this.stop();
 
 				// Close database connections
 				await this.prisma.$disconnect();
@@ -1029,29 +1315,109 @@ export class ServerApp {
 
 		process.on("SIGTERM", () => gracefulShutdown("SIGTERM"));
 		process.on("SIGINT", () => gracefulShutdown("SIGINT"));
+		return boundPort;
 	}
 
-	private async createContextFromReq(req: IncomingMessage): Promise<Context> {
-		const token = this.extractToken(req);
+	/**
+	 * Close the WebSocket and HTTP servers and leave the broker; the database stays connected
+	 */
+	public async stop(): Promise<void> {
+		const stopServers = this.stopServers;
+		this.stopServers = null;
+		await stopServers?.();
+	}
+
+	private async createContextFromReq(
+		req: IncomingMessage,
+		socket: ExtendedWebSocket
+	): Promise<Context> {
+		const connectionId = randomUUID();
+		socket.connectionId = connectionId;
+		const context: Context = {
+			user: null,
+			prisma: this.prisma,
+			accessToken: null,
+			connectionId,
+			reauthenticate: (token) => this.reauthenticate(socket, context, token),
+			terminateSessions: (userId) => this.terminateSessions(userId),
+		};
+
+		// Browsers cannot set headers on the upgrade request, so they send the token in the
+		// first message instead; the adapter holds every message until the context is ready
+		const token = this.extractToken(req) || (await waitForHandshakeToken(socket));
 		if (!token) {
 			logger.debug("No access token provided");
-			return { user: null, prisma: this.prisma, accessToken: null };
+			return context;
 		}
 
 		const claims = await this.jwtService.verifyAccessToken(token);
 		if (!claims) {
-			return { user: null, prisma: this.prisma, accessToken: null };
+			return context;
 		}
 
 		try {
 			const user = await this.provisionUser(claims);
+			if (this.isRevoked(user, claims)) {
+				logger.warn("WebSocket connection with a revoked access token", { userId: user.id });
+				return context;
+			}
 			const contextUser = this.buildContextUser(user, claims);
-			return { user: contextUser, prisma: this.prisma, accessToken: token };
+			// Closed when the user is at the connection limit and the policy rejects new connections
+			if (!this.connections.authenticate(socket, user.id, expiresAtOf(claims))) {
+				return context;
+			}
+			// The socket may have closed while the user was being provisioned
+			if (socket.readyState === socket.OPEN) {
+				presence.connect(connectionId, { id: user.id, username: user.username });
+			}
+			context.user = contextUser;
+			context.accessToken = token;
+			return context;
 		} catch (error) {
 			logger.error("Failed to prepare context user from access token", {
 				error: error instanceof Error ? error.message : String(error),
 			});
-			return { user: null, prisma: this.prisma, accessToken: null };
+			return context;
+		}
+	}
+
+	/**
+	 * Swap the access token of an authenticated connection for a refreshed one of the same user.
+	 * The tRPC WebSocket adapter shares one context per connection, so updating it applies to
+	 * every later call and to the expiry check of the connection registry.
+	 */
+	private async reauthenticate(
+		socket: ExtendedWebSocket,
+		context: Context,
+		token: string
+	): Promise<ContextUser | null> {
+		const current = context.user;
+		if (!current) {
+			return null;
+		}
+		const claims = await this.jwtService.verifyAccessToken(token);
+		if (!claims) {
+			return null;
+		}
+		if (claims.sub !== current.sub) {
+			logger.warn("WebSocket reauthentication rejected: token belongs to another user", {
+				userId: current.localUserId,
+			});
+			return null;
+		}
+
+		const user = await this.provisionUser(claims);
+		if (this.isRevoked(user, claims)) {
+			return null;
+		}
+		// The connection may have been closed (for example as expired) while the token was verified
+		if (context.user !== current || socket.readyState !== socket.OPEN) {
+			return null;
 		}
+		context.user = this.buildContextUser(user, claims);
+		context.accessToken = token;
+		this.connections.renew(socket, expiresAtOf(claims));
+		logger.debug("WebSocket connection reauthenticated", { userId: user.id });
+		return context.user;
 	}
 }
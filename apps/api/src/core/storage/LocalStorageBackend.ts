@@ -0,0 +1,47 @@
+import { createReadStream } from "fs";
+import * as path from "path";
+import type { Readable } from "stream";
+import * as fs from "fs/promises";
+import type { StorageBackend } from "./StorageBackend.js";
+
+const KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Stores objects as files below a single directory
+ */
+export class LocalStorageBackend implements StorageBackend {
+	readonly driver = "local" as const;
+	private readonly root: string;
+
+	constructor(root: string) {
+		this.root = path.resolve(root);
+	}
+
+	private resolveKey(key: string): string {
+		// Keys never contain separators, so a key cannot point outside the root
+		if (!KEY_PATTERN.test(key)) {
+			throw new Error(`Invalid storage key: ${key}`);
+		}
+		return path.join(this.root, key);
+	}
+
+	async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+		const file = this.resolveKey(key);
+		await fs.mkdir(this.root, { recursive: true });
+		await fs.writeFile(file, data, { flag: "wx" });
+	}
+
+	async get(key: string): Promise<Readable | null> {
+		const file = this.resolveKey(key);
+		try {
+			await fs.access(file);
+		} catch {
+			return null;
+		}
+		return createReadStream(file);
+	}
+
+	async delete(key: string): Promise<void> {
+		await fs.rm(this.resolveKey(key), { force: true });
+	}
+}
@@ -0,0 +1,23 @@
+import type { Readable } from "stream";
+
+export type StorageDriver = "local";
+
+/**
+ * Where uploaded file contents live. Keys are generated by the server (see utils/attachments.ts),
+ * metadata stays in the `Attachment` table.
+ */
+export interface StorageBackend {
+	readonly driver: StorageDriver;
+
+	put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+	/**
+	 * Stream an object, or null when the key does not exist
+	 */
+	get(key: string): Promise<Readable | null>;
+
+	/**
+	 * Remove an object; missing keys are ignored
+	 */
+	delete(key: string): Promise<void>;
+}
@@ -0,0 +1,19 @@
+import { LocalStorageBackend } from "./LocalStorageBackend.js";
+import type { StorageBackend, StorageDriver } from "./StorageBackend.js";
+
+/**
+ * Storage backend selected by STORAGE_BACKEND (only "local" is built in; UPLOAD_DIR sets its directory)
+ */
+export function createStorageBackend(
+	driver: string = process.env.STORAGE_BACKEND || "local"
+): StorageBackend {
+	switch (driver as StorageDriver) {
+		case "local":
+			return new LocalStorageBackend(process.env.UPLOAD_DIR || "data/uploads");
+		default:
+			throw new Error(`Unsupported STORAGE_BACKEND: ${driver}`);
+	}
+}
+
+export { LocalStorageBackend } from "./LocalStorageBackend.js";
+export type { StorageBackend, StorageDriver } from "./StorageBackend.js";
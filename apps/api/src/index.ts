@@ -7,6 +7,11 @@ import { JwtService } from "./core/auth/index.js";
 import { DbInitializer, prisma } from "./core/database/index.js";
 import { logger } from "./modules/logger/core/logger.js";
 import { ServerApp } from "./core/server/index.js";
+import { createStorageBackend } from "./core/storage/index.js";
+import { UNLINKED_ATTACHMENT_TTL_MS } from "./constants/timeouts.js";
+import { pruneUnlinkedAttachments } from "./utils/attachments.js";
+import { pruneNotifications } from "./utils/notifications.js";
+import { pruneOrphanedReactions } from "./utils/reactions.js";
 
 // Load environment
 const __filename = fileURLToPath(import.meta.url);
@@ -101,6 +106,64 @@ async function main() {
 			}
 		}, CLEANUP_INTERVAL_MS);
 
+		// Permanently delete trashed posts and comments after the retention period
+		const trashRetentionDays = parseOptionalInt(process.env.TRASH_RETENTION_DAYS) ?? 30;
+		setInterval(async () => {
+			try {
+				const cutoff = new Date(Date.now() - trashRetentionDays * 24 * 60 * 60 * 1000);
+				// Comments first so trashed comments of live posts are purged too
+				const comments = await prisma.comment.deleteMany({
+					where: { deletedAt: { lt: cutoff } },
+				});
+				const posts = await prisma.post.deleteMany({
+					where: { deletedAt: { lt: cutoff } },
+				});
+
+				if (comments.count > 0 || posts.count > 0) {
+					await pruneOrphanedReactions(prisma);
+					logger.info("Purged expired trash", {
+						posts: posts.count,
+						comments: comments.count,
+						cutoff: cutoff.toISOString(),
+					});
+				} else {
+					logger.debug("No expired trash to purge");
+				}
+			} catch (error) {
+				logger.error("Failed to purge expired trash", error as Error);
+			}
+		}, CLEANUP_INTERVAL_MS);
+
+		// Delete uploads that were never attached, or whose post or comment was purged
+		const storage = createStorageBackend();
+		setInterval(async () => {
+			try {
+				const cutoff = new Date(Date.now() - UNLINKED_ATTACHMENT_TTL_MS);
+				const count = await pruneUnlinkedAttachments(prisma, storage, cutoff);
+				if (count > 0) {
+					logger.info("Deleted unlinked attachments", { count, cutoff: cutoff.toISOString() });
+				} else {
+					logger.debug("No unlinked attachments to delete");
+				}
+			} catch (error) {
+				logger.error("Failed to delete unlinked attachments", error as Error);
+			}
+		}, CLEANUP_INTERVAL_MS);
+
+		// Enforce notification retention and the per-user notification cap
+		setInterval(async () => {
+			try {
+				const count = await pruneNotifications(prisma);
+				if (count > 0) {
+					logger.info("Pruned notifications", { count });
+				} else {
+					logger.debug("No notifications to prune");
+				}
+			} catch (error) {
+				logger.error("Failed to prune notifications", error as Error);
+			}
+		}, CLEANUP_INTERVAL_MS);
+
 		// Note: Graceful shutdown is handled by ServerApp (server.ts:214-260)
 		// which includes WebSocket server, HTTP server, and Prisma disconnect
 
@@ -1,14 +1,98 @@
 import type { PrismaClient } from "@prisma/client";
 import { TRPCError, initTRPC } from "@trpc/server";
+import { observable } from "@trpc/server/observable";
 import argon2 from "argon2";
 import superjson from "superjson";
 import type { OpenApiMeta } from "trpc-openapi";
 import { z } from "zod";
+import { NOTIFICATIONS } from "../constants/index.js";
+import {
+	BROADCAST_MESSAGE_MAX_LENGTH,
+	BROADCAST_TITLE_MAX_LENGTH,
+	COMMENT_REPLIES_PAGE_SIZE,
+	CONVERSATION_TITLE_MAX_LENGTH,
+	DEFAULT_PAGE_SIZE,
+	MAX_ATTACHMENTS_PER_POST,
+	MAX_COMMENT_DEPTH,
+	MAX_CONVERSATION_MEMBERS,
+	MAX_TAGS_PER_POST,
+	MESSAGES_PAGE_SIZE,
+	MESSAGE_MAX_LENGTH,
+	POPULAR_TAGS_LIMIT,
+	TAG_MAX_LENGTH,
+	USERNAME_MAX_LENGTH,
+	USER_SEARCH_LIMIT,
+} from "../constants/limits.js";
 import type { AccessTokenClaims } from "../core/auth/index.js";
+import {
+	type CommentDeletedEvent,
+	type CommentEvent,
+	type NotificationEvent,
+	type PostDeletedEvent,
+	type PostEvent,
+	type PresenceEvent,
+	type ReactionEvent,
+	type TypingEvent,
+	eventBus,
+} from "../core/events/index.js";
+import { type PresenceUser, presence, typing } from "../core/presence/index.js";
+import {
+	type AppRoomEvent,
+	type Room,
+	type RoomKind,
+	type RoomMessage,
+	postRoom,
+	rooms,
+	userRoom,
+} from "../core/rooms/index.js";
+import { buildSnippet, createSearchBackend, extractSearchTerms } from "../core/search/index.js";
 import { logger } from "../modules/logger/core/logger.js";
-import { sanitizeText } from "../utils/sanitize.js";
+import {
+	type AttachmentInfo,
+	type AttachmentRow,
+	attachmentSelect,
+	canAttach,
+	toAttachmentInfo,
+} from "../utils/attachments.js";
 import { createAuditMiddleware } from "../utils/audit.js";
+import { ROLES, canModifyContent, requirePermission, requireRole } from "../utils/authorization.js";
+import { collectBoardIds, wouldCreateCycle } from "../utils/boards.js";
+import {
+	type CommentNode,
+	type CommentRow,
+	buildCommentTree,
+	loadFirstReplyIds,
+} from "../utils/commentTree.js";
+import {
+	type MessageItem,
+	type ReadReceipt,
+	countUnreadMessages,
+	findDirectConversation,
+	findMemberIds,
+	messageSelect,
+} from "../utils/directMessages.js";
+import { renderMarkdown } from "../utils/markdown.js";
+import { findMentionedUserIds } from "../utils/mentions.js";
+import {
+	NOTIFICATION_TYPES,
+	type NotificationInput,
+	deliverNotifications,
+	isValidTimeZone,
+	loadNotificationChannels,
+	notificationSelect,
+	toNotificationItem,
+	toQuietHours,
+} from "../utils/notifications.js";
 import { createRateLimitMiddleware, startCleanupInterval } from "../utils/rateLimit.js";
+import {
+	REACTION_EMOJIS,
+	type ReactionSummary,
+	loadReactionSummaries,
+	pruneOrphanedReactions,
+	toggleReaction,
+} from "../utils/reactions.js";
+import { normalizeMarkdown, sanitizeText } from "../utils/sanitize.js";
+import { normalizeTags } from "../utils/tags.js";
 
 // Log JWT environment variables on module load for verification
 logger.debug("Routers module initialized", {
@@ -32,6 +116,12 @@ export type Context = {
 	user: ContextUser | null;
 	prisma: PrismaClient;
 	accessToken: string | null;
+	connectionId: string | null; // WebSocket connection the request arrived on
+	// Swaps the access token of the connection in place; resolves to null when the token is
+	// rejected or belongs to another user
+	reauthenticate: (token: string) => Promise<ContextUser | null>;
+	// Ends every session of a user on all instances; resolves to the number of refresh sessions
+	terminateSessions: (userId: number) => Promise<number>;
 };
 
 // Type definitions for API responses
@@ -43,28 +133,47 @@ type UserResponse = {
 type PostWithAuthor = {
 	id: number;
 	title: string;
-	body: string;
+	body: string; // Markdown source
+	bodyHtml: string; // Sanitized HTML rendered from `body`
+	boardId: number | null;
+	tags: string[];
+	attachments: AttachmentInfo[];
 	createdAt: Date;
+	editedAt: Date | null;
 	author: UserResponse;
 };
 
+type PostWithReactions = PostWithAuthor & { reactions: ReactionSummary[] };
+
+type CommentListRow = CommentRow & {
+	bodyHtml: string;
+	attachments: AttachmentInfo[];
+	reactions: ReactionSummary[];
+};
+
 type CommentWithAuthor = {
 	id: number;
 	body: string;
+	bodyHtml: string;
+	attachments: AttachmentInfo[];
 	createdAt: Date;
+	editedAt: Date | null;
 	author: UserResponse;
 };
 
 type PostResponse = {
 	id: number;
+	boardId: number | null;
+	tags: string[];
+	attachments: AttachmentInfo[];
 	title: string;
 	body: string;
+	bodyHtml: string;
 	createdAt: Date;
 };
 
 const t = initTRPC.meta<OpenApiMeta>().context<Context>().create({ transformer: superjson });
 
-
 const rateLimit = createRateLimitMiddleware();
 const audit = createAuditMiddleware();
 
@@ -79,9 +188,595 @@ const requireUser = t.middleware(({ ctx, next }) => {
 
 export const authed = base.use(requireUser);
 
+// User administration is restricted to admins (local role or OIDC role)
+const adminOnly = authed.use(requireRole(ROLES.ADMIN));
+
+// Trash management requires the moderation permission
+const moderator = authed.use(requirePermission("posts:moderate"));
+
+const boardManager = authed.use(requirePermission("boards:manage"));
+
 // Start cleanup interval for rate limiting
 startCleanupInterval();
 
+const reactionSummaryOutput = z.object({
+	emoji: z.string(),
+	count: z.number(),
+	reacted: z.boolean(),
+});
+
+const attachmentOutput = z.object({
+	id: z.number(),
+	filename: z.string(),
+	mimeType: z.string(),
+	size: z.number(),
+	width: z.number().nullable(),
+	height: z.number().nullable(),
+	url: z.string().describe("署名付きダウンロードURL（期限付き）"),
+	thumbnailUrl: z.string().nullable(),
+});
+
+const attachmentIdsInput = z
+	.array(z.number().int().positive())
+	.max(MAX_ATTACHMENTS_PER_POST)
+	.describe(`POST /uploads で取得した添付ファイルID（最大${MAX_ATTACHMENTS_PER_POST}個）`);
+
+/**
+ * Deduplicate attachment ids and throw unless the user may attach all of them
+ */
+async function assertAttachable(
+	prisma: PrismaClient,
+	user: ContextUser | null,
+	ids: number[],
+	current?: { postId: number } | { commentId: number }
+): Promise<number[]> {
+	const unique = [...new Set(ids)];
+	if (unique.length === 0) {
+		return unique;
+	}
+	if (!user) throw new TRPCError({ code: "UNAUTHORIZED" });
+	if (!(await canAttach(prisma, user.localUserId, unique, current))) {
+		throw new TRPCError({ code: "BAD_REQUEST", message: "Attachment not found or already in use" });
+	}
+	return unique;
+}
+
+/**
+ * Notify users mentioned in a new post or comment, and the author of the post or comment
+ * being replied to. The content is already saved, so a failure here is logged instead of
+ * failing the request.
+ */
+async function notifyNewContent(
+	prisma: PrismaClient,
+	content: {
+		actorId: number;
+		postId: number;
+		commentId?: number;
+		body: string;
+		repliedToAuthorId?: number;
+	}
+): Promise<void> {
+	try {
+		const mentioned = await findMentionedUserIds(prisma, content.body, content.actorId);
+		const target = {
+			actorId: content.actorId,
+			postId: content.postId,
+			commentId: content.commentId ?? null,
+		};
+		const inputs: NotificationInput[] = mentioned.map((userId) => ({
+			...target,
+			userId,
+			type: "mention",
+		}));
+		// A reply that also mentions its recipient only produces the mention
+		const replyTo = content.repliedToAuthorId;
+		if (replyTo !== undefined && replyTo !== content.actorId && !mentioned.includes(replyTo)) {
+			inputs.push({ ...target, userId: replyTo, type: "reply" });
+		}
+		await publishNotifications(prisma, inputs);
+	} catch (error) {
+		logger.error("Failed to create notifications", error as Error);
+	}
+}
+
+async function publishNotifications(
+	prisma: PrismaClient,
+	inputs: NotificationInput[]
+): Promise<number> {
+	const notifications = await deliverNotifications(prisma, inputs);
+	for (const notification of notifications) {
+		rooms.publish(userRoom(notification.userId), "notifications.created", notification);
+	}
+	return notifications.length;
+}
+
+/**
+ * Notify the author when someone reacts to their post or comment. Toggling the same
+ * emoji again does not notify twice while the earlier notification is unread.
+ */
+async function notifyReaction(
+	prisma: PrismaClient,
+	reaction: {
+		actorId: number;
+		authorId: number;
+		postId: number;
+		commentId: number | null;
+		emoji: string;
+	}
+): Promise<void> {
+	if (reaction.authorId === reaction.actorId) {
+		return;
+	}
+	try {
+		const notification = {
+			userId: reaction.authorId,
+			type: "reaction" as const,
+			actorId: reaction.actorId,
+			postId: reaction.postId,
+			commentId: reaction.commentId,
+			message: reaction.emoji,
+		};
+		const unread = await prisma.notification.findFirst({
+			where: { ...notification, readAt: null },
+			select: { id: true },
+		});
+		if (!unread) {
+			await publishNotifications(prisma, [notification]);
+		}
+	} catch (error) {
+		logger.error("Failed to create reaction notification", error as Error);
+	}
+}
+
+const postOutput = z.object({
+	id: z.number(),
+	title: z.string(),
+	body: z.string(),
+	bodyHtml: z.string(),
+	boardId: z.number().nullable(),
+	tags: z.array(z.string()),
+	attachments: z.array(attachmentOutput),
+	reactions: z.array(reactionSummaryOutput),
+	createdAt: z.date(),
+	editedAt: z.date().nullable(),
+	author: z.object({ id: z.number(), username: z.string() }),
+});
+
+const postSelect = {
+	id: true,
+	title: true,
+	body: true,
+	boardId: true,
+	tags: { select: { name: true }, orderBy: { name: "asc" } },
+	attachments: { select: attachmentSelect, orderBy: { id: "asc" } },
+	createdAt: true,
+	editedAt: true,
+	author: { select: { id: true, username: true } },
+} as const;
+
+/**
+ * Flatten the selected tag rows of a post into tag names, render its body and sign its
+ * attachment URLs
+ */
+function toPostWithAuthor({
+	tags,
+	attachments,
+	...post
+}: Omit<PostWithAuthor, "tags" | "bodyHtml" | "attachments"> & {
+	tags: { name: string }[];
+	attachments: AttachmentRow[];
+}): PostWithAuthor {
+	return {
+		...post,
+		bodyHtml: renderMarkdown(post.body),
+		tags: tags.map((tag) => tag.name),
+		attachments: attachments.map(toAttachmentInfo),
+	};
+}
+
+/**
+ * Attach the viewer's reaction summaries to posts
+ */
+async function withPostReactions(
+	prisma: PrismaClient,
+	posts: PostWithAuthor[],
+	viewerId: number | undefined
+): Promise<PostWithReactions[]> {
+	const summaries = await loadReactionSummaries(
+		prisma,
+		"post",
+		posts.map((post) => post.id),
+		viewerId
+	);
+	return posts.map((post) => ({ ...post, reactions: summaries.get(post.id) ?? [] }));
+}
+
+const tagsInput = z
+	.array(z.string().max(TAG_MAX_LENGTH * 2))
+	.max(MAX_TAGS_PER_POST)
+	.describe(`タグ（正規化後に重複を除去、最大${MAX_TAGS_PER_POST}個）`);
+
+const tagOutput = z.object({ name: z.string(), count: z.number() });
+
+/**
+ * Order tags by post count (then name) and flatten the count
+ */
+function rankTags(tags: { name: string; _count: { posts: number } }[]) {
+	return tags
+		.map((tag) => ({ name: tag.name, count: tag._count.posts }))
+		.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * connectOrCreate payload for a list of normalized tag names
+ */
+function connectTags(names: string[]) {
+	return names.map((name) => ({ where: { name }, create: { name } }));
+}
+
+const commentOutput = z.object({
+	id: z.number(),
+	body: z.string(),
+	bodyHtml: z.string(),
+	attachments: z.array(attachmentOutput),
+	createdAt: z.date(),
+	editedAt: z.date().nullable(),
+	author: z.object({ id: z.number(), username: z.string() }),
+});
+
+const boardOutput = z.object({
+	id: z.number(),
+	name: z.string(),
+	slug: z.string(),
+	description: z.string().nullable(),
+	position: z.number(),
+	parentId: z.number().nullable(),
+});
+
+const boardSelect = {
+	id: true,
+	name: true,
+	slug: true,
+	description: true,
+	position: true,
+	parentId: true,
+} as const;
+
+const boardSlug = z
+	.string()
+	.min(1)
+	.max(50)
+	.regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/)
+	.describe("URL 用の識別子（英小文字・数字・ハイフン）");
+
+/**
+ * Throw unless the board exists
+ */
+async function assertBoardExists(prisma: PrismaClient, boardId: number) {
+	const board = await prisma.board.findUnique({ where: { id: boardId }, select: { id: true } });
+	if (!board) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Board not found" });
+	}
+}
+
+const commentNodeOutput: z.ZodType<CommentNode<CommentListRow>> = z.lazy(() =>
+	z.object({
+		id: z.number(),
+		parentId: z.number().nullable(),
+		depth: z.number(),
+		body: z.string(),
+		bodyHtml: z.string(),
+		attachments: z.array(attachmentOutput),
+		createdAt: z.date(),
+		editedAt: z.date().nullable(),
+		author: z.object({ id: z.number(), username: z.string() }),
+		reactions: z.array(reactionSummaryOutput),
+		replyCount: z.number(),
+		nextRepliesCursor: z.number().optional(),
+		replies: z.array(commentNodeOutput),
+	})
+);
+
+const commentRowSelect = {
+	id: true,
+	parentId: true,
+	depth: true,
+	body: true,
+	attachments: { select: attachmentSelect, orderBy: { id: "asc" } },
+	createdAt: true,
+	editedAt: true,
+	author: { select: { id: true, username: true } },
+} as const;
+
+/**
+ * Render a selected comment's body and sign its attachment URLs
+ */
+function renderComment<T extends { body: string; attachments: AttachmentRow[] }>({
+	attachments,
+	...comment
+}: T): Omit<T, "attachments"> & { bodyHtml: string; attachments: AttachmentInfo[] } {
+	return {
+		...comment,
+		bodyHtml: renderMarkdown(comment.body),
+		attachments: attachments.map(toAttachmentInfo),
+	};
+}
+
+const snippetOutput = z.array(z.object({ text: z.string(), highlight: z.boolean() }));
+
+const searchResultOutput = z.object({
+	type: z.enum(["post", "comment"]),
+	id: z.number(),
+	postId: z.number(),
+	title: z.string(),
+	snippet: snippetOutput,
+	author: z.object({ id: z.number(), username: z.string() }),
+	createdAt: z.date(),
+});
+
+type SearchResult = z.infer<typeof searchResultOutput>;
+
+const trashTargetInput = z.object({
+	type: z.enum(["post", "comment"]),
+	id: z.number().int().positive(),
+});
+
+const trashItemOutput = z.object({
+	type: z.enum(["post", "comment"]),
+	id: z.number(),
+	postId: z.number().nullable(),
+	title: z.string().nullable(),
+	body: z.string(),
+	author: z.object({ id: z.number(), username: z.string() }),
+	deletedAt: z.date(),
+	deletedBy: z.object({ id: z.number(), username: z.string() }).nullable(),
+});
+
+type TrashItem = z.infer<typeof trashItemOutput>;
+
+const notificationOutput = z.object({
+	id: z.number(),
+	userId: z.number(),
+	type: z.enum(NOTIFICATION_TYPES),
+	title: z.string().nullable(),
+	message: z.string().nullable(),
+	postId: z.number().nullable(),
+	commentId: z.number().nullable(),
+	postTitle: z.string().nullable(),
+	actor: z.object({ id: z.number(), username: z.string() }).nullable(),
+	createdAt: z.date(),
+	readAt: z.date().nullable(),
+});
+
+const unreadCountOutput = z.object({ unreadCount: z.number() });
+
+const channelsInput = z.object({
+	toast: z.boolean().optional(),
+	center: z.boolean().optional(),
+	emailDigest: z.boolean().optional(),
+});
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+const quietHoursOutput = z.object({ start: z.string(), end: z.string(), timeZone: z.string() });
+
+const preferencesOutput = z.object({
+	types: z.array(
+		z.object({
+			type: z.enum(NOTIFICATION_TYPES),
+			toast: z.boolean(),
+			center: z.boolean(),
+			emailDigest: z.boolean(),
+		})
+	),
+	quietHours: quietHoursOutput.nullable(),
+});
+
+type PreferencesResponse = z.infer<typeof preferencesOutput>;
+
+const toTimeOfDay = (minutes: number) =>
+	`${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+const toMinutes = (time: string) => {
+	const [hours, minutes] = time.split(":").map(Number);
+	return hours * 60 + minutes;
+};
+
+async function loadPreferences(prisma: PrismaClient, userId: number): Promise<PreferencesResponse> {
+	const [channels, user] = await Promise.all([
+		loadNotificationChannels(prisma, userId),
+		prisma.user.findUnique({
+			where: { id: userId },
+			select: { quietHoursStart: true, quietHoursEnd: true, timeZone: true },
+		}),
+	]);
+	if (!user) throw new TRPCError({ code: "NOT_FOUND" });
+	const quietHours = toQuietHours(user);
+	return {
+		types: NOTIFICATION_TYPES.map((type) => ({ type, ...channels[type] })),
+		quietHours: quietHours && {
+			start: toTimeOfDay(quietHours.start),
+			end: toTimeOfDay(quietHours.end),
+			timeZone: quietHours.timeZone,
+		},
+	};
+}
+
+const presenceUserOutput = z.object({ id: z.number(), username: z.string() });
+
+const presenceOutput = z.object({
+	online: z.array(presenceUserOutput),
+	viewers: z.array(presenceUserOutput),
+});
+
+const messageOutput = z.object({
+	id: z.number(),
+	conversationId: z.number(),
+	body: z.string(),
+	createdAt: z.date(),
+	sender: z.object({ id: z.number(), username: z.string() }).nullable(),
+});
+
+const readReceiptOutput = z.object({
+	conversationId: z.number(),
+	userId: z.number(),
+	lastReadMessageId: z.number().nullable(),
+});
+
+const conversationOutput = z.object({
+	id: z.number(),
+	title: z.string().nullable(),
+	members: z.array(z.object({ id: z.number(), username: z.string() })),
+	lastMessage: messageOutput.nullable(),
+	lastMessageAt: z.date(),
+	unreadCount: z.number(),
+});
+
+/**
+ * Ids of the conversation's members; NOT_FOUND unless the user is one of them
+ */
+async function requireMemberIds(
+	prisma: PrismaClient,
+	conversationId: number,
+	userId: number
+): Promise<number[]> {
+	const memberIds = await findMemberIds(prisma, conversationId, userId);
+	if (!memberIds) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Conversation not found" });
+	}
+	return memberIds;
+}
+
+async function countUnreadInConversation(
+	prisma: PrismaClient,
+	conversationId: number,
+	userId: number
+): Promise<number> {
+	const member = await prisma.conversationMember.findUniqueOrThrow({
+		where: { conversationId_userId: { conversationId, userId } },
+		select: { conversationId: true, lastReadMessageId: true },
+	});
+	const counts = await countUnreadMessages(prisma, userId, [member]);
+	return counts.get(conversationId) ?? 0;
+}
+
+/**
+ * The WebSocket connection of the request and the user it is tracked as in presence
+ */
+function requireConnectionUser(ctx: Context): { connectionId: string; user: PresenceUser } {
+	const user = ctx.connectionId ? presence.userOf(ctx.connectionId) : null;
+	if (!ctx.connectionId || !user) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "An authenticated WebSocket connection is required",
+		});
+	}
+	return { connectionId: ctx.connectionId, user };
+}
+
+// A post's room is open while the post is visible; a user's room only to that user
+rooms.authorize("post", async ({ prisma }, room) => {
+	const post = await prisma.post.findFirst({
+		where: { id: room.id, deletedAt: null },
+		select: { id: true },
+	});
+	return post !== null;
+});
+rooms.authorize("user", ({ user }, room) => user?.localUserId === room.id);
+
+/**
+ * FORBIDDEN unless the post's room would let the connection in, for procedures that act on a
+ * post without joining its room
+ */
+async function requirePostRoomAccess(ctx: Context, postId: number): Promise<void> {
+	if (!(await rooms.canJoin(ctx, postRoom(postId)))) {
+		throw new TRPCError({ code: "FORBIDDEN", message: "Not allowed to join this room" });
+	}
+}
+
+/**
+ * Observable that joins a room for the lifetime of a subscription, FORBIDDEN when the room's
+ * authorization hook denies the connection. join wires the room's events to next.
+ */
+function roomObservable<T>(join: (next: (value: T) => void) => Promise<(() => void) | null>) {
+	return observable<T>((emit) => {
+		let leave: (() => void) | null = null;
+		let closed = false;
+		join((value) => emit.next(value))
+			.then((joined) => {
+				if (!joined) {
+					emit.error(
+						new TRPCError({ code: "FORBIDDEN", message: "Not allowed to join this room" })
+					);
+					return;
+				}
+				if (closed) {
+					joined();
+					return;
+				}
+				leave = joined;
+			})
+			.catch((error) => {
+				logger.error("Failed to join room", error as Error);
+				emit.error(new TRPCError({ code: "INTERNAL_SERVER_ERROR" }));
+			});
+		return () => {
+			closed = true;
+			leave?.();
+		};
+	});
+}
+
+/**
+ * Resumable subscription to a room: emits what select returns for each event (skipping
+ * undefined) with the event's id, after replaying the events since lastEventId
+ */
+function roomSubscription<K extends RoomKind, T>(
+	ctx: Context,
+	room: Room<K>,
+	lastEventId: string | undefined,
+	select: (event: AppRoomEvent<K>) => T | undefined
+) {
+	return roomObservable<RoomMessage<T>>((next) =>
+		rooms.join(
+			ctx,
+			room,
+			(event, id) => {
+				const data = select(event);
+				if (data !== undefined) next({ type: "event", id, data });
+			},
+			{ lastEventId, onReady: (id, resync) => next({ type: "ready", id, resync }) }
+		)
+	);
+}
+
+// Input of resumable subscriptions; lastEventId is the id of the last message received
+const resumeInput = z.object({ lastEventId: z.string().max(64).optional() });
+
+/**
+ * The connected user's own room
+ */
+function requireUserRoom(ctx: Context): Room<"user"> {
+	const userId = ctx.user?.localUserId;
+	if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+	return userRoom(userId);
+}
+
+function countUnread(prisma: PrismaClient, userId: number): Promise<number> {
+	return prisma.notification.count({ where: { userId, readAt: null } });
+}
+
+/**
+ * Throw unless the current user authored the content or may moderate it
+ */
+function assertCanModify(user: ContextUser | null, authorId: number) {
+	if (!canModifyContent(user, authorId)) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Only the author or an administrator can modify this content",
+		});
+	}
+}
 
 const authMeOutput = z.object({
 	id: z.number(),
@@ -113,6 +808,9 @@ export const appRouter = t.router({
 				timestamp: new Date().toISOString(),
 			};
 		}),
+	// Application-level ping over the WebSocket; the client calls it on a timer to detect
+	// half-open connections, so it is neither rate limited nor audited
+	ping: t.procedure.query(() => ({ timestamp: Date.now() })),
 	auth: t.router({
 		me: authed
 			.meta({
@@ -144,9 +842,55 @@ export const appRouter = t.router({
 					roles: ctx.user.roles,
 				};
 			}),
+		// First message of a WebSocket connection that did not authenticate in the upgrade request.
+		// The server reads the token from this message before it creates the context (see
+		// waitForHandshakeToken), so the procedure only reports the outcome.
+		handshake: base
+			.input(z.object({ token: z.string().max(8192) }))
+			.output(z.object({ authenticated: z.boolean() }))
+			.mutation(({ ctx }) => ({ authenticated: ctx.user !== null })),
+		// Replaces the access token of the current WebSocket connection after a refresh, so the
+		// connection and its subscriptions survive it. The connection is closed once the token
+		// it was last authenticated with expires.
+		reauthenticate: authed
+			.input(z.object({ token: z.string().min(1).max(8192) }))
+			.output(z.object({ expiresAt: z.date().nullable() }))
+			.mutation(async ({ input, ctx }) => {
+				const user = await ctx.reauthenticate(input.token);
+				if (!user) {
+					throw new TRPCError({
+						code: "UNAUTHORIZED",
+						message: "Access token was rejected for this connection",
+					});
+				}
+				return { expiresAt: user.claims.exp ? new Date(user.claims.exp * 1000) : null };
+			}),
 	}),
 	users: t.router({
-		get: authed
+		// Username prefix search for @mention autocomplete; declared before /users/{id}
+		// so the OpenAPI path is not taken as an id
+		search: authed
+			.meta({ openapi: { method: "GET", path: "/users/search", protect: true } })
+			.input(
+				z.object({
+					q: z
+						.string()
+						.min(1)
+						.max(USERNAME_MAX_LENGTH)
+						.regex(/^[a-zA-Z0-9_-]+$/),
+					limit: z.number().int().min(1).max(50).optional(),
+				})
+			)
+			.output(z.array(z.object({ id: z.number(), username: z.string() })))
+			.query(async ({ input, ctx }) => {
+				return ctx.prisma.user.findMany({
+					where: { username: { startsWith: input.q } },
+					select: { id: true, username: true },
+					orderBy: { username: "asc" },
+					take: input.limit ?? USER_SEARCH_LIMIT,
+				});
+			}),
+		get: adminOnly
 			.meta({ openapi: { method: "GET", path: "/users/{id}", protect: true } })
 			.input(z.object({ id: z.number().int().positive() }))
 			.output(z.object({ id: z.number(), username: z.string(), createdAt: z.date() }))
@@ -155,34 +899,53 @@ export const appRouter = t.router({
 				if (!user) throw new TRPCError({ code: "NOT_FOUND" });
 				return { id: user.id, username: user.username, createdAt: user.createdAt };
 			}),
-		list: authed
+		list: adminOnly
 			.meta({ openapi: { method: "GET", path: "/users", protect: true } })
-			.output(z.array(z.object({ id: z.number(), username: z.string(), role: z.string(), createdAt: z.date() })))
+			.output(
+				z.array(
+					z.object({ id: z.number(), username: z.string(), role: z.string(), createdAt: z.date() })
+				)
+			)
 			.query(async ({ ctx }) => {
 				const users = await ctx.prisma.user.findMany({ orderBy: { id: "asc" } });
-				return users.map((u) => ({ id: u.id, username: u.username, role: u.role, createdAt: u.createdAt }));
+				return users.map((u) => ({
+					id: u.id,
+					username: u.username,
+					role: u.role,
+					createdAt: u.createdAt,
+				}));
 			}),
-		create: authed
+		create: adminOnly
 			.meta({ openapi: { method: "POST", path: "/users", protect: true } })
-			.input(z.object({ 
-				username: z.string().min(1).max(50).regex(/^[a-zA-Z0-9_-]+$/),
-				password: z.string().min(1).max(200),
-				role: z.enum(["USER", "ADMIN"]).default("USER")
-			}))
-			.output(z.object({ id: z.number(), username: z.string(), role: z.string(), createdAt: z.date() }))
+			.input(
+				z.object({
+					username: z
+						.string()
+						.min(1)
+						.max(50)
+						.regex(/^[a-zA-Z0-9_-]+$/),
+					password: z.string().min(1).max(200),
+					role: z.enum(["USER", "ADMIN"]).default("USER"),
+				})
+			)
+			.output(
+				z.object({ id: z.number(), username: z.string(), role: z.string(), createdAt: z.date() })
+			)
 			.mutation(async ({ input, ctx }) => {
 				// Check if username already exists
-				const existingUser = await ctx.prisma.user.findUnique({ where: { username: input.username } });
+				const existingUser = await ctx.prisma.user.findUnique({
+					where: { username: input.username },
+				});
 				if (existingUser) {
-					throw new TRPCError({ 
-						code: "CONFLICT", 
-						message: "Username already exists" 
+					throw new TRPCError({
+						code: "CONFLICT",
+						message: "Username already exists",
 					});
 				}
-				
+
 				// Hash password
 				const passwordHash = await argon2.hash(input.password);
-				
+
 				const user = await ctx.prisma.user.create({
 					data: {
 						username: input.username,
@@ -190,39 +953,47 @@ export const appRouter = t.router({
 						role: input.role,
 					},
 				});
-				
+
 				return { id: user.id, username: user.username, role: user.role, createdAt: user.createdAt };
 			}),
-		update: authed
+		update: adminOnly
 			.meta({ openapi: { method: "PUT", path: "/users/{id}", protect: true } })
-			.input(z.object({ 
-				id: z.number().int().positive(),
-				username: z.string().min(1).max(50).regex(/^[a-zA-Z0-9_-]+$/),
-				password: z.string().min(1).max(200).optional(),
-				role: z.enum(["USER", "ADMIN"]).optional()
-			}))
-			.output(z.object({ id: z.number(), username: z.string(), role: z.string(), createdAt: z.date() }))
+			.input(
+				z.object({
+					id: z.number().int().positive(),
+					username: z
+						.string()
+						.min(1)
+						.max(50)
+						.regex(/^[a-zA-Z0-9_-]+$/),
+					password: z.string().min(1).max(200).optional(),
+					role: z.enum(["USER", "ADMIN"]).optional(),
+				})
+			)
+			.output(
+				z.object({ id: z.number(), username: z.string(), role: z.string(), createdAt: z.date() })
+			)
 			.mutation(async ({ input, ctx }) => {
 				// Check if user exists
 				const existingUser = await ctx.prisma.user.findUnique({ where: { id: input.id } });
 				if (!existingUser) {
 					throw new TRPCError({ code: "NOT_FOUND" });
 				}
-				
+
 				// Check if username is taken by another user
-				const usernameTaken = await ctx.prisma.user.findFirst({ 
-					where: { 
+				const usernameTaken = await ctx.prisma.user.findFirst({
+					where: {
 						username: input.username,
-						id: { not: input.id }
-					} 
+						id: { not: input.id },
+					},
 				});
 				if (usernameTaken) {
-					throw new TRPCError({ 
-						code: "CONFLICT", 
-						message: "Username already exists" 
+					throw new TRPCError({
+						code: "CONFLICT",
+						message: "Username already exists",
 					});
 				}
-				
+
 				const updateData: {
 					username: string;
 					passwordHash?: string;
@@ -234,15 +1005,15 @@ export const appRouter = t.router({
 				if (input.role !== undefined) {
 					updateData.role = input.role;
 				}
-				
+
 				const user = await ctx.prisma.user.update({
 					where: { id: input.id },
 					data: updateData,
 				});
-				
+
 				return { id: user.id, username: user.username, role: user.role, createdAt: user.createdAt };
 			}),
-		delete: authed
+		delete: adminOnly
 			.meta({ openapi: { method: "DELETE", path: "/users/{id}", protect: true } })
 			.input(z.object({ id: z.number().int().positive() }))
 			.output(z.object({ success: z.boolean() }))
@@ -252,15 +1023,166 @@ export const appRouter = t.router({
 				if (!existingUser) {
 					throw new TRPCError({ code: "NOT_FOUND" });
 				}
-				
+
 				// Delete user (this will also delete related posts and comments due to cascade)
 				await ctx.prisma.user.delete({
 					where: { id: input.id },
 				});
-				
+
+				return { success: true };
+			}),
+	}),
+	boards: t.router({
+		// Flat list in display order; clients build the hierarchy from parentId
+		list: authed
+			.meta({ openapi: { method: "GET", path: "/boards", protect: true } })
+			.output(z.array(boardOutput))
+			.query(async ({ ctx }) => {
+				return ctx.prisma.board.findMany({
+					orderBy: [{ position: "asc" }, { name: "asc" }],
+					select: boardSelect,
+				});
+			}),
+		create: boardManager
+			.meta({ openapi: { method: "POST", path: "/boards", protect: true } })
+			.input(
+				z.object({
+					name: z.string().min(1).max(100),
+					slug: boardSlug,
+					description: z.string().max(500).optional(),
+					position: z.number().int().min(0).default(0),
+					parentId: z.number().int().positive().nullable().optional(),
+				})
+			)
+			.output(boardOutput)
+			.mutation(async ({ input, ctx }) => {
+				const existing = await ctx.prisma.board.findUnique({ where: { slug: input.slug } });
+				if (existing) {
+					throw new TRPCError({ code: "CONFLICT", message: "Board slug already exists" });
+				}
+				if (input.parentId) {
+					await assertBoardExists(ctx.prisma, input.parentId);
+				}
+				return ctx.prisma.board.create({
+					data: {
+						name: sanitizeText(input.name),
+						slug: input.slug,
+						description: input.description ? sanitizeText(input.description) : null,
+						position: input.position,
+						parentId: input.parentId ?? null,
+					},
+					select: boardSelect,
+				});
+			}),
+		update: boardManager
+			.meta({ openapi: { method: "PUT", path: "/boards/{id}", protect: true } })
+			.input(
+				z.object({
+					id: z.number().int().positive(),
+					name: z.string().min(1).max(100).optional(),
+					slug: boardSlug.optional(),
+					description: z.string().max(500).nullable().optional(),
+					position: z.number().int().min(0).optional(),
+					parentId: z.number().int().positive().nullable().optional(),
+				})
+			)
+			.output(boardOutput)
+			.mutation(async ({ input, ctx }) => {
+				await assertBoardExists(ctx.prisma, input.id);
+				if (input.slug) {
+					const existing = await ctx.prisma.board.findUnique({ where: { slug: input.slug } });
+					if (existing && existing.id !== input.id) {
+						throw new TRPCError({ code: "CONFLICT", message: "Board slug already exists" });
+					}
+				}
+				if (input.parentId) {
+					await assertBoardExists(ctx.prisma, input.parentId);
+					const boards = await ctx.prisma.board.findMany({ select: { id: true, parentId: true } });
+					if (wouldCreateCycle(boards, input.id, input.parentId)) {
+						throw new TRPCError({
+							code: "BAD_REQUEST",
+							message: "A board cannot be moved below itself or its descendants",
+						});
+					}
+				}
+				return ctx.prisma.board.update({
+					where: { id: input.id },
+					data: {
+						name: input.name !== undefined ? sanitizeText(input.name) : undefined,
+						slug: input.slug,
+						description:
+							input.description !== undefined && input.description !== null
+								? sanitizeText(input.description)
+								: input.description,
+						position: input.position,
+						parentId: input.parentId,
+					},
+					select: boardSelect,
+				});
+			}),
+		delete: boardManager
+			.meta({ openapi: { method: "DELETE", path: "/boards/{id}", protect: true } })
+			.input(z.object({ id: z.number().int().positive() }))
+			.output(z.object({ success: z.boolean() }))
+			.mutation(async ({ input, ctx }) => {
+				await assertBoardExists(ctx.prisma, input.id);
+				// Posts in the trash still reference the board, so they block deletion too
+				const [children, posts] = await Promise.all([
+					ctx.prisma.board.count({ where: { parentId: input.id } }),
+					ctx.prisma.post.count({ where: { boardId: input.id } }),
+				]);
+				if (children > 0 || posts > 0) {
+					throw new TRPCError({
+						code: "CONFLICT",
+						message: "Only empty boards without sub-boards can be deleted",
+					});
+				}
+				await ctx.prisma.board.delete({ where: { id: input.id } });
 				return { success: true };
 			}),
 	}),
+	tags: t.router({
+		// Most used tags, counting only posts that are not in the trash
+		popular: authed
+			.meta({ openapi: { method: "GET", path: "/tags/popular", protect: true } })
+			.input(z.object({ limit: z.number().int().min(1).max(100).optional() }).optional())
+			.output(z.array(tagOutput))
+			.query(async ({ input, ctx }) => {
+				const tags = await ctx.prisma.tag.findMany({
+					where: { posts: { some: { deletedAt: null } } },
+					select: {
+						name: true,
+						_count: { select: { posts: { where: { deletedAt: null } } } },
+					},
+				});
+				return rankTags(tags).slice(0, input?.limit ?? POPULAR_TAGS_LIMIT);
+			}),
+		// Prefix search used by the tag input
+		autocomplete: authed
+			.meta({ openapi: { method: "GET", path: "/tags/autocomplete", protect: true } })
+			.input(
+				z.object({
+					q: z
+						.string()
+						.min(1)
+						.max(TAG_MAX_LENGTH * 2),
+					limit: z.number().int().min(1).max(50).optional(),
+				})
+			)
+			.output(z.array(tagOutput))
+			.query(async ({ input, ctx }) => {
+				const [prefix] = normalizeTags([input.q]);
+				if (!prefix) return [];
+				const tags = await ctx.prisma.tag.findMany({
+					where: { name: { startsWith: prefix }, posts: { some: { deletedAt: null } } },
+					select: {
+						name: true,
+						_count: { select: { posts: { where: { deletedAt: null } } } },
+					},
+				});
+				return rankTags(tags).slice(0, input.limit ?? 10);
+			}),
+	}),
 	posts: t.router({
 		list: authed
 			.meta({ openapi: { method: "GET", path: "/posts", protect: true } })
@@ -269,135 +1191,1337 @@ export const appRouter = t.router({
 					.object({
 						limit: z.number().int().min(1).max(100).optional(),
 						cursor: z.number().int().optional(),
+						// Includes posts in boards nested below this board
+						boardId: z.number().int().positive().optional(),
+						// Only posts carrying every listed tag
+						tags: z
+							.array(z.string().max(TAG_MAX_LENGTH * 2))
+							.max(MAX_TAGS_PER_POST)
+							.optional(),
 					})
 					.optional()
 			)
 			.output(
 				z.object({
-					items: z.array(
-						z.object({
-							id: z.number(),
-							title: z.string(),
-							body: z.string(),
-							createdAt: z.date(),
-							author: z.object({ id: z.number(), username: z.string() }),
-						})
-					),
+					items: z.array(postOutput),
 					nextCursor: z.number().optional(),
 				})
 			)
 			.query(async ({ input, ctx }) => {
 				logger.debug("posts.list query started", { input, sub: ctx.user?.sub });
 				const pageSize = input?.limit ?? 20;
+				let boardIds: number[] | undefined;
+				if (input?.boardId) {
+					const boards = await ctx.prisma.board.findMany({ select: { id: true, parentId: true } });
+					boardIds = collectBoardIds(boards, input.boardId);
+				}
+				const tags = normalizeTags(input?.tags ?? []);
 				const posts = await ctx.prisma.post.findMany({
+					where: {
+						deletedAt: null,
+						boardId: boardIds ? { in: boardIds } : undefined,
+						AND: tags.map((name) => ({ tags: { some: { name } } })),
+					},
 					orderBy: { id: "desc" },
 					take: pageSize,
 					cursor: input?.cursor ? { id: input.cursor } : undefined,
 					skip: input?.cursor ? 1 : 0,
-					select: {
-						id: true,
-						title: true,
-						body: true,
-						createdAt: true,
-						author: { select: { id: true, username: true } },
-					},
+					select: postSelect,
 				});
 				logger.debug("posts.list query completed", { count: posts.length });
 				const nextCursor = posts.length === pageSize ? posts[posts.length - 1]?.id : undefined;
-				return { items: posts, nextCursor };
+				const items = await withPostReactions(
+					ctx.prisma,
+					posts.map(toPostWithAuthor),
+					ctx.user?.localUserId
+				);
+				return { items, nextCursor };
 			}),
 		get: authed
 			.meta({ openapi: { method: "GET", path: "/posts/{id}", protect: true } })
 			.input(z.object({ id: z.number().int().positive() }))
+			.output(postOutput)
+			.query(async ({ input, ctx }): Promise<PostWithReactions> => {
+				const p = await ctx.prisma.post.findFirst({
+					where: { id: input.id, deletedAt: null },
+					select: postSelect,
+				});
+				if (!p) throw new TRPCError({ code: "NOT_FOUND" });
+				const [post] = await withPostReactions(
+					ctx.prisma,
+					[toPostWithAuthor(p)],
+					ctx.user?.localUserId
+				);
+				return post;
+			}),
+		create: authed
+			.meta({ openapi: { method: "POST", path: "/posts", protect: true } })
+			.input(
+				z.object({
+					boardId: z.number().int().positive().describe("投稿先の掲示板"),
+					title: z.string().min(1).max(200).describe("タイトル"),
+					body: z.string().min(1).max(5000).describe("本文"),
+					tags: tagsInput.optional(),
+					attachmentIds: attachmentIdsInput.optional(),
+				})
+			)
 			.output(
 				z.object({
 					id: z.number(),
+					boardId: z.number().nullable(),
+					tags: z.array(z.string()),
+					attachments: z.array(attachmentOutput),
 					title: z.string(),
 					body: z.string(),
+					bodyHtml: z.string(),
 					createdAt: z.date(),
-					author: z.object({ id: z.number(), username: z.string() }),
 				})
 			)
-			.query(async ({ input, ctx }): Promise<PostWithAuthor> => {
-				const p = await ctx.prisma.post.findUnique({
-					where: { id: input.id },
-					select: {
-						id: true,
-						title: true,
-						body: true,
-						createdAt: true,
-						author: { select: { id: true, username: true } },
-					},
+			.mutation(async ({ input, ctx }): Promise<PostResponse> => {
+				await assertBoardExists(ctx.prisma, input.boardId);
+				const attachmentIds = await assertAttachable(
+					ctx.prisma,
+					ctx.user,
+					input.attachmentIds ?? []
+				);
+				const post = toPostWithAuthor(
+					await ctx.prisma.post.create({
+						data: {
+							boardId: input.boardId,
+							title: sanitizeText(input.title),
+							body: normalizeMarkdown(input.body),
+							authorId: ctx.user!.localUserId,
+							tags: { connectOrCreate: connectTags(normalizeTags(input.tags ?? [])) },
+							attachments: { connect: attachmentIds.map((id) => ({ id })) },
+						},
+						select: postSelect,
+					})
+				);
+				eventBus.publish("posts.created", post);
+				await notifyNewContent(ctx.prisma, {
+					actorId: post.author.id,
+					postId: post.id,
+					body: post.body,
 				});
-				if (!p) throw new TRPCError({ code: "NOT_FOUND" });
-				return p;
+				return {
+					id: post.id,
+					boardId: post.boardId,
+					tags: post.tags,
+					attachments: post.attachments,
+					title: post.title,
+					body: post.body,
+					bodyHtml: post.bodyHtml,
+					createdAt: post.createdAt,
+				};
 			}),
-		create: authed
-			.meta({ openapi: { method: "POST", path: "/posts", protect: true } })
+		update: authed
+			.meta({ openapi: { method: "PUT", path: "/posts/{id}", protect: true } })
 			.input(
 				z.object({
+					id: z.number().int().positive(),
+					boardId: z.number().int().positive().optional().describe("移動先の掲示板"),
 					title: z.string().min(1).max(200).describe("タイトル"),
 					body: z.string().min(1).max(5000).describe("本文"),
+					// Replaces the post's tags when given; omitted keeps the current tags
+					tags: tagsInput.optional(),
+					// Replaces the attachments when given; removed ones are deleted later
+					attachmentIds: attachmentIdsInput.optional(),
 				})
 			)
-			.output(
-				z.object({ id: z.number(), title: z.string(), body: z.string(), createdAt: z.date() })
-			)
-			.mutation(async ({ input, ctx }): Promise<PostResponse> => {
-				const post = await ctx.prisma.post.create({
-					data: {
-						title: sanitizeText(input.title),
-						body: sanitizeText(input.body),
-						authorId: ctx.user!.localUserId,
-					},
-					select: { id: true, title: true, body: true, createdAt: true },
+			.output(postOutput)
+			.mutation(async ({ input, ctx }): Promise<PostWithReactions> => {
+				const existing = await ctx.prisma.post.findFirst({
+					where: { id: input.id, deletedAt: null },
+					select: { authorId: true },
 				});
-				return post;
+				if (!existing) throw new TRPCError({ code: "NOT_FOUND" });
+				assertCanModify(ctx.user, existing.authorId);
+				if (input.boardId) {
+					await assertBoardExists(ctx.prisma, input.boardId);
+				}
+				const attachmentIds = input.attachmentIds
+					? await assertAttachable(ctx.prisma, ctx.user, input.attachmentIds, {
+							postId: input.id,
+						})
+					: undefined;
+
+				const post = toPostWithAuthor(
+					await ctx.prisma.post.update({
+						where: { id: input.id },
+						data: {
+							boardId: input.boardId,
+							title: sanitizeText(input.title),
+							body: normalizeMarkdown(input.body),
+							editedAt: new Date(),
+							tags: input.tags
+								? { set: [], connectOrCreate: connectTags(normalizeTags(input.tags)) }
+								: undefined,
+							attachments: attachmentIds ? { set: attachmentIds.map((id) => ({ id })) } : undefined,
+						},
+						select: postSelect,
+					})
+				);
+				eventBus.publish("posts.updated", post);
+				const [updated] = await withPostReactions(ctx.prisma, [post], ctx.user?.localUserId);
+				return updated;
+			}),
+		delete: authed
+			.meta({ openapi: { method: "DELETE", path: "/posts/{id}", protect: true } })
+			.input(z.object({ id: z.number().int().positive() }))
+			.output(z.object({ success: z.boolean() }))
+			.mutation(async ({ input, ctx }) => {
+				const existing = await ctx.prisma.post.findFirst({
+					where: { id: input.id, deletedAt: null },
+					select: { authorId: true },
+				});
+				if (!existing) throw new TRPCError({ code: "NOT_FOUND" });
+				assertCanModify(ctx.user, existing.authorId);
+
+				// Soft delete: the post stays in the trash until restored or purged
+				await ctx.prisma.post.update({
+					where: { id: input.id },
+					data: { deletedAt: new Date(), deletedBy: ctx.user?.localUserId },
+				});
+				eventBus.publish("posts.deleted", { id: input.id });
+				return { success: true };
 			}),
+		// Pushes every newly created post to connected clients
+		onCreated: authed.subscription(() =>
+			observable<PostEvent>((emit) =>
+				eventBus.subscribe("posts.created", (post) => emit.next(post))
+			)
+		),
+		onUpdated: authed.subscription(() =>
+			observable<PostEvent>((emit) =>
+				eventBus.subscribe("posts.updated", (post) => emit.next(post))
+			)
+		),
+		onDeleted: authed.subscription(() =>
+			observable<PostDeletedEvent>((emit) =>
+				eventBus.subscribe("posts.deleted", (post) => emit.next(post))
+			)
+		),
 		comments: t.router({
+			// Returns one page of comments (top-level, or replies to `parentId`) as a reply tree
 			list: authed
 				.meta({ openapi: { method: "GET", path: "/posts/{postId}/comments", protect: true } })
-				.input(z.object({ postId: z.number().int().positive() }))
+				.input(
+					z.object({
+						postId: z.number().int().positive(),
+						parentId: z.number().int().positive().optional(),
+						limit: z.number().int().min(1).max(100).optional(),
+						cursor: z.number().int().optional(),
+						// Reply levels to nest below each returned comment
+						depth: z.number().int().min(0).max(MAX_COMMENT_DEPTH).optional(),
+					})
+				)
+				.output(
+					z.object({
+						items: z.array(commentNodeOutput),
+						nextCursor: z.number().optional(),
+					})
+				)
+				.query(async ({ input, ctx }) => {
+					const pageSize = input.limit ?? DEFAULT_PAGE_SIZE;
+					const depth = input.depth ?? MAX_COMMENT_DEPTH;
+
+					const roots = await ctx.prisma.comment.findMany({
+						where: {
+							postId: input.postId,
+							parentId: input.parentId ?? null,
+							deletedAt: null,
+							post: { deletedAt: null },
+						},
+						orderBy: { id: "asc" },
+						take: pageSize,
+						cursor: input.cursor ? { id: input.cursor } : undefined,
+						skip: input.cursor ? 1 : 0,
+						select: commentRowSelect,
+					});
+
+					// Load replies level by level; replies of trashed comments stay hidden with them
+					const descendants: typeof roots = [];
+					let frontier = roots.map((c) => c.id);
+					for (let level = 0; level < depth && frontier.length > 0; level++) {
+						const ids = await loadFirstReplyIds(ctx.prisma, frontier, COMMENT_REPLIES_PAGE_SIZE);
+						const children = await ctx.prisma.comment.findMany({
+							where: { id: { in: ids } },
+							orderBy: { id: "asc" },
+							select: commentRowSelect,
+						});
+						descendants.push(...children);
+						frontier = children.map((c) => c.id);
+					}
+
+					const counts = await ctx.prisma.comment.groupBy({
+						by: ["parentId"],
+						where: {
+							parentId: { in: [...roots, ...descendants].map((c) => c.id) },
+							deletedAt: null,
+						},
+						_count: { _all: true },
+					});
+					const replyCounts = new Map(
+						counts.map((c) => [c.parentId as number, c._count._all] as const)
+					);
+
+					const reactions = await loadReactionSummaries(
+						ctx.prisma,
+						"comment",
+						[...roots, ...descendants].map((c) => c.id),
+						ctx.user?.localUserId
+					);
+					const prepare = (c: (typeof roots)[number]): CommentListRow => ({
+						...renderComment(c),
+						reactions: reactions.get(c.id) ?? [],
+					});
+
+					const items = buildCommentTree(
+						roots.map(prepare),
+						descendants.map(prepare),
+						replyCounts,
+						COMMENT_REPLIES_PAGE_SIZE
+					);
+					const nextCursor = roots.length === pageSize ? roots[roots.length - 1]?.id : undefined;
+					return { items, nextCursor };
+				}),
+			add: authed
+				.meta({ openapi: { method: "POST", path: "/posts/{postId}/comments", protect: true } })
+				.input(
+					z.object({
+						postId: z.number().int().positive(),
+						// Reply to an existing comment on the same post
+						parentId: z.number().int().positive().optional(),
+						body: z.string().min(1).max(5000),
+						attachmentIds: attachmentIdsInput.optional(),
+					})
+				)
 				.output(
-					z.array(
-						z.object({
-							id: z.number(),
-							body: z.string(),
-							createdAt: z.date(),
-							author: z.object({ id: z.number(), username: z.string() }),
+					z.object({
+						id: z.number(),
+						parentId: z.number().nullable(),
+						body: z.string(),
+						bodyHtml: z.string(),
+						attachments: z.array(attachmentOutput),
+						createdAt: z.date(),
+					})
+				)
+				.mutation(
+					async ({
+						input,
+						ctx,
+					}): Promise<{
+						id: number;
+						parentId: number | null;
+						body: string;
+						bodyHtml: string;
+						attachments: AttachmentInfo[];
+						createdAt: Date;
+					}> => {
+						const post = await ctx.prisma.post.findFirst({
+							where: { id: input.postId, deletedAt: null },
+							select: { id: true, authorId: true },
+						});
+						if (!post) throw new TRPCError({ code: "NOT_FOUND" });
+
+						let depth = 0;
+						let repliedToAuthorId = post.authorId;
+						if (input.parentId) {
+							const parent = await ctx.prisma.comment.findFirst({
+								where: { id: input.parentId, postId: input.postId, deletedAt: null },
+								select: { depth: true, authorId: true },
+							});
+							if (!parent) {
+								throw new TRPCError({ code: "NOT_FOUND", message: "Parent comment not found" });
+							}
+							depth = parent.depth + 1;
+							repliedToAuthorId = parent.authorId;
+							if (depth >= MAX_COMMENT_DEPTH) {
+								throw new TRPCError({
+									code: "BAD_REQUEST",
+									message: `Replies cannot be nested more than ${MAX_COMMENT_DEPTH} levels deep`,
+								});
+							}
+						}
+
+						const attachmentIds = await assertAttachable(
+							ctx.prisma,
+							ctx.user,
+							input.attachmentIds ?? []
+						);
+						const c = renderComment(
+							await ctx.prisma.comment.create({
+								data: {
+									postId: input.postId,
+									parentId: input.parentId ?? null,
+									depth,
+									body: normalizeMarkdown(input.body),
+									authorId: ctx.user!.localUserId,
+									attachments: { connect: attachmentIds.map((id) => ({ id })) },
+								},
+								select: { ...commentRowSelect, postId: true },
+							})
+						);
+						rooms.publish(postRoom(c.postId), "comments.added", c);
+						await notifyNewContent(ctx.prisma, {
+							actorId: c.author.id,
+							postId: input.postId,
+							commentId: c.id,
+							body: c.body,
+							repliedToAuthorId,
+						});
+						return {
+							id: c.id,
+							parentId: c.parentId,
+							body: c.body,
+							bodyHtml: c.bodyHtml,
+							attachments: c.attachments,
+							createdAt: c.createdAt,
+						};
+					}
+				),
+			update: authed
+				.meta({ openapi: { method: "PUT", path: "/comments/{id}", protect: true } })
+				.input(
+					z.object({
+						id: z.number().int().positive(),
+						body: z.string().min(1).max(5000),
+						// Replaces the attachments when given; removed ones are deleted later
+						attachmentIds: attachmentIdsInput.optional(),
+					})
+				)
+				.output(commentOutput)
+				.mutation(async ({ input, ctx }): Promise<CommentWithAuthor> => {
+					const existing = await ctx.prisma.comment.findFirst({
+						where: { id: input.id, deletedAt: null, post: { deletedAt: null } },
+						select: { authorId: true },
+					});
+					if (!existing) throw new TRPCError({ code: "NOT_FOUND" });
+					assertCanModify(ctx.user, existing.authorId);
+					const attachmentIds = input.attachmentIds
+						? await assertAttachable(ctx.prisma, ctx.user, input.attachmentIds, {
+								commentId: input.id,
+							})
+						: undefined;
+
+					const updated = renderComment(
+						await ctx.prisma.comment.update({
+							where: { id: input.id },
+							data: {
+								body: normalizeMarkdown(input.body),
+								editedAt: new Date(),
+								attachments: attachmentIds
+									? { set: attachmentIds.map((id) => ({ id })) }
+									: undefined,
+							},
+							select: { ...commentRowSelect, postId: true },
 						})
+					);
+					rooms.publish(postRoom(updated.postId), "comments.updated", updated);
+					const { postId: _postId, parentId: _parentId, depth: _depth, ...comment } = updated;
+					return comment;
+				}),
+			delete: authed
+				.meta({ openapi: { method: "DELETE", path: "/comments/{id}", protect: true } })
+				.input(z.object({ id: z.number().int().positive() }))
+				.output(z.object({ success: z.boolean() }))
+				.mutation(async ({ input, ctx }) => {
+					const existing = await ctx.prisma.comment.findFirst({
+						where: { id: input.id, deletedAt: null, post: { deletedAt: null } },
+						select: { authorId: true, postId: true },
+					});
+					if (!existing) throw new TRPCError({ code: "NOT_FOUND" });
+					assertCanModify(ctx.user, existing.authorId);
+
+					await ctx.prisma.comment.update({
+						where: { id: input.id },
+						data: { deletedAt: new Date(), deletedBy: ctx.user?.localUserId },
+					});
+					rooms.publish(postRoom(existing.postId), "comments.deleted", {
+						id: input.id,
+						postId: existing.postId,
+					});
+					return { success: true };
+				}),
+			// Pushes comments added to a single post
+			onAdded: authed
+				.input(resumeInput.extend({ postId: z.number().int().positive() }))
+				.subscription(({ ctx, input }) =>
+					roomSubscription(
+						ctx,
+						postRoom(input.postId),
+						input.lastEventId,
+						(event): CommentEvent | undefined =>
+							event.type === "comments.added" ? event.payload : undefined
+					)
+				),
+			onUpdated: authed
+				.input(resumeInput.extend({ postId: z.number().int().positive() }))
+				.subscription(({ ctx, input }) =>
+					roomSubscription(
+						ctx,
+						postRoom(input.postId),
+						input.lastEventId,
+						(event): CommentEvent | undefined =>
+							event.type === "comments.updated" ? event.payload : undefined
+					)
+				),
+			onDeleted: authed
+				.input(resumeInput.extend({ postId: z.number().int().positive() }))
+				.subscription(({ ctx, input }) =>
+					roomSubscription(
+						ctx,
+						postRoom(input.postId),
+						input.lastEventId,
+						(event): CommentDeletedEvent | undefined =>
+							event.type === "comments.deleted" ? event.payload : undefined
 					)
+				),
+		}),
+	}),
+	reactions: t.router({
+		// Adds the reaction when the user has not reacted with the emoji yet, removes it otherwise
+		toggle: authed
+			.meta({ openapi: { method: "POST", path: "/reactions/toggle", protect: true } })
+			.input(
+				z.object({
+					targetType: z.enum(["post", "comment"]),
+					targetId: z.number().int().positive(),
+					emoji: z.enum(REACTION_EMOJIS),
+				})
+			)
+			.output(reactionSummaryOutput)
+			.mutation(async ({ input, ctx }): Promise<ReactionSummary> => {
+				const userId = ctx.user?.localUserId;
+				if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+
+				const target =
+					input.targetType === "post"
+						? await ctx.prisma.post.findFirst({
+								where: { id: input.targetId, deletedAt: null },
+								select: { id: true, authorId: true },
+							})
+						: await ctx.prisma.comment.findFirst({
+								where: { id: input.targetId, deletedAt: null, post: { deletedAt: null } },
+								select: { postId: true, authorId: true },
+							});
+				if (!target) throw new TRPCError({ code: "NOT_FOUND" });
+				const postId = "postId" in target ? target.postId : target.id;
+
+				const key = {
+					userId,
+					targetType: input.targetType,
+					targetId: input.targetId,
+					emoji: input.emoji,
+				};
+				const { reacted, changed } = await toggleReaction(ctx.prisma, key);
+
+				const count = await ctx.prisma.reaction.count({
+					where: { targetType: input.targetType, targetId: input.targetId, emoji: input.emoji },
+				});
+				if (!changed) {
+					return { emoji: input.emoji, count, reacted };
+				}
+				rooms.publish(postRoom(postId), "reactions.changed", {
+					postId,
+					targetType: input.targetType,
+					targetId: input.targetId,
+					emoji: input.emoji,
+					count,
+					userId,
+					added: reacted,
+				});
+				if (reacted) {
+					await notifyReaction(ctx.prisma, {
+						actorId: userId,
+						authorId: target.authorId,
+						postId,
+						commentId: input.targetType === "comment" ? input.targetId : null,
+						emoji: input.emoji,
+					});
+				}
+				return { emoji: input.emoji, count, reacted };
+			}),
+		// Pushes reaction count changes on a post and its comments
+		onChanged: authed
+			.input(resumeInput.extend({ postId: z.number().int().positive() }))
+			.subscription(({ ctx, input }) =>
+				roomSubscription(
+					ctx,
+					postRoom(input.postId),
+					input.lastEventId,
+					(event): ReactionEvent | undefined =>
+						event.type === "reactions.changed" ? event.payload : undefined
 				)
-				.query(async ({ input, ctx }): Promise<CommentWithAuthor[]> => {
-					const comments = await ctx.prisma.comment.findMany({
-						where: { postId: input.postId },
+			),
+	}),
+	notifications: t.router({
+		// Newest first; unreadCount covers all of the user's notifications
+		list: authed
+			.meta({ openapi: { method: "GET", path: "/notifications", protect: true } })
+			.input(
+				z
+					.object({
+						limit: z.number().int().min(1).max(NOTIFICATIONS.BATCH_SIZE).optional(),
+						cursor: z.number().int().optional(),
+						unreadOnly: z.boolean().optional(),
+					})
+					.optional()
+			)
+			.output(
+				z.object({
+					items: z.array(notificationOutput),
+					nextCursor: z.number().optional(),
+					unreadCount: z.number(),
+				})
+			)
+			.query(async ({ input, ctx }) => {
+				const userId = ctx.user?.localUserId;
+				if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+
+				const pageSize = input?.limit ?? NOTIFICATIONS.BATCH_SIZE;
+				const rows = await ctx.prisma.notification.findMany({
+					where: { userId, readAt: input?.unreadOnly ? null : undefined },
+					orderBy: { id: "desc" },
+					take: pageSize,
+					cursor: input?.cursor ? { id: input.cursor } : undefined,
+					skip: input?.cursor ? 1 : 0,
+					select: notificationSelect,
+				});
+				const nextCursor = rows.length === pageSize ? rows[rows.length - 1]?.id : undefined;
+				return {
+					items: rows.map(toNotificationItem),
+					nextCursor,
+					unreadCount: await countUnread(ctx.prisma, userId),
+				};
+			}),
+		markRead: authed
+			.meta({ openapi: { method: "POST", path: "/notifications/read", protect: true } })
+			.input(
+				z.object({
+					ids: z.array(z.number().int().positive()).min(1).max(NOTIFICATIONS.BATCH_SIZE),
+				})
+			)
+			.output(unreadCountOutput)
+			.mutation(async ({ input, ctx }) => {
+				const userId = ctx.user?.localUserId;
+				if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+
+				await ctx.prisma.notification.updateMany({
+					where: { id: { in: input.ids }, userId, readAt: null },
+					data: { readAt: new Date() },
+				});
+				return { unreadCount: await countUnread(ctx.prisma, userId) };
+			}),
+		markAllRead: authed
+			.meta({ openapi: { method: "POST", path: "/notifications/read-all", protect: true } })
+			.output(unreadCountOutput)
+			.mutation(async ({ ctx }) => {
+				const userId = ctx.user?.localUserId;
+				if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+
+				await ctx.prisma.notification.updateMany({
+					where: { userId, readAt: null },
+					data: { readAt: new Date() },
+				});
+				return { unreadCount: 0 };
+			}),
+		delete: authed
+			.meta({ openapi: { method: "DELETE", path: "/notifications/{id}", protect: true } })
+			.input(z.object({ id: z.number().int().positive() }))
+			.output(unreadCountOutput)
+			.mutation(async ({ input, ctx }) => {
+				const userId = ctx.user?.localUserId;
+				if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+
+				const { count } = await ctx.prisma.notification.deleteMany({
+					where: { id: input.id, userId },
+				});
+				if (count === 0) throw new TRPCError({ code: "NOT_FOUND" });
+				return { unreadCount: await countUnread(ctx.prisma, userId) };
+			}),
+		// Pushes notifications addressed to the connected user
+		onNotification: authed
+			.input(resumeInput.optional())
+			.subscription(({ ctx, input }) =>
+				roomSubscription(
+					ctx,
+					requireUserRoom(ctx),
+					input?.lastEventId,
+					(event): NotificationEvent | undefined =>
+						event.type === "notifications.created" ? event.payload : undefined
+				)
+			),
+	}),
+	preferences: t.router({
+		// Notification channels for every type (defaults filled in) and quiet hours
+		get: authed
+			.meta({ openapi: { method: "GET", path: "/preferences", protect: true } })
+			.output(preferencesOutput)
+			.query(async ({ ctx }) => {
+				const userId = ctx.user?.localUserId;
+				if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+				return loadPreferences(ctx.prisma, userId);
+			}),
+		// Only the listed types and channels change; quietHours: null turns quiet hours off
+		update: authed
+			.meta({ openapi: { method: "PUT", path: "/preferences", protect: true } })
+			.input(
+				z.object({
+					types: z
+						.array(channelsInput.extend({ type: z.enum(NOTIFICATION_TYPES) }))
+						.max(NOTIFICATION_TYPES.length)
+						.optional(),
+					quietHours: z
+						.object({
+							start: timeOfDay,
+							end: timeOfDay,
+							timeZone: z.string().max(64).refine(isValidTimeZone, "Unknown time zone"),
+						})
+						.nullable()
+						.optional(),
+				})
+			)
+			.output(preferencesOutput)
+			.mutation(async ({ input, ctx }) => {
+				const userId = ctx.user?.localUserId;
+				if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+
+				await ctx.prisma.$transaction([
+					...(input.types ?? []).map(({ type, ...channels }) =>
+						ctx.prisma.notificationPreference.upsert({
+							where: { userId_type: { userId, type } },
+							create: { userId, type, ...channels },
+							update: channels,
+						})
+					),
+					...(input.quietHours !== undefined
+						? [
+								ctx.prisma.user.update({
+									where: { id: userId },
+									data: input.quietHours
+										? {
+												quietHoursStart: toMinutes(input.quietHours.start),
+												quietHoursEnd: toMinutes(input.quietHours.end),
+												timeZone: input.quietHours.timeZone,
+											}
+										: { quietHoursStart: null, quietHoursEnd: null, timeZone: null },
+								}),
+							]
+						: []),
+				]);
+				return loadPreferences(ctx.prisma, userId);
+			}),
+	}),
+	presence: t.router({
+		// Users connected to any instance, and the viewers of a post when postId is given
+		// (FORBIDDEN when the post is trashed or does not exist)
+		list: authed
+			.meta({ openapi: { method: "GET", path: "/presence", protect: true } })
+			.input(z.object({ postId: z.number().int().positive().optional() }))
+			.output(presenceOutput)
+			.query(async ({ ctx, input }) => {
+				if (input.postId !== undefined) {
+					await requirePostRoomAccess(ctx, input.postId);
+				}
+				return presence.list(input.postId);
+			}),
+		// Pushes presence changes. With a postId the connection counts as viewing that post
+		// while the subscription is open, FORBIDDEN when the post is trashed or does not exist.
+		onChange: authed
+			.input(z.object({ postId: z.number().int().positive().optional() }))
+			.subscription(async ({ ctx, input }) => {
+				if (input.postId !== undefined) {
+					await requirePostRoomAccess(ctx, input.postId);
+				}
+				return observable<PresenceEvent>((emit) => {
+					const unsubscribe = presence.subscribe((event) => emit.next(event));
+					const { connectionId } = ctx;
+					const unwatch =
+						connectionId && input.postId !== undefined
+							? presence.watch(connectionId, input.postId)
+							: () => {};
+					return () => {
+						unwatch();
+						unsubscribe();
+					};
+				});
+			}),
+	}),
+	typing: t.router({
+		// Repeat while typing; the indicator expires after TYPING_INDICATOR_TTL_MS without a call
+		start: authed
+			.input(z.object({ postId: z.number().int().positive() }))
+			.mutation(async ({ ctx, input }) => {
+				const { connectionId, user } = requireConnectionUser(ctx);
+				await requirePostRoomAccess(ctx, input.postId);
+				typing.start(connectionId, user, input.postId);
+				return { success: true };
+			}),
+		stop: authed
+			.input(z.object({ postId: z.number().int().positive() }))
+			.mutation(async ({ ctx, input }) => {
+				const { connectionId } = requireConnectionUser(ctx);
+				await requirePostRoomAccess(ctx, input.postId);
+				typing.stop(connectionId, input.postId);
+				return { success: true };
+			}),
+		// Other users starting and stopping to type in a post, beginning with those already typing.
+		// Not resumable: resubscribing after a reconnect starts over from the current typers.
+		onChange: authed
+			.input(z.object({ postId: z.number().int().positive() }))
+			.subscription(({ ctx, input }) => {
+				const isOther = (user: PresenceUser) => user.id !== ctx.user?.localUserId;
+				return roomObservable<TypingEvent>((next) =>
+					rooms.join(
+						ctx,
+						postRoom(input.postId),
+						(event) => {
+							if (event.type === "typing.changed" && isOther(event.payload.user)) {
+								next(event.payload);
+							}
+						},
+						{
+							onReady: () => {
+								for (const user of typing.list(input.postId).filter(isOther)) {
+									next({ postId: input.postId, user, typing: true });
+								}
+							},
+						}
+					)
+				);
+			}),
+	}),
+	dm: t.router({
+		// The user's conversations, most recently active first
+		list: authed
+			.meta({ openapi: { method: "GET", path: "/dm/conversations", protect: true } })
+			.output(z.array(conversationOutput))
+			.query(async ({ ctx }) => {
+				const userId = ctx.user?.localUserId;
+				if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+
+				const memberships = await ctx.prisma.conversationMember.findMany({
+					where: { userId },
+					orderBy: { conversation: { lastMessageAt: "desc" } },
+					take: DEFAULT_PAGE_SIZE,
+					select: {
+						lastReadMessageId: true,
+						conversation: {
+							select: {
+								id: true,
+								title: true,
+								lastMessageAt: true,
+								members: {
+									orderBy: { id: "asc" },
+									select: { user: { select: { id: true, username: true } } },
+								},
+								messages: { orderBy: { id: "desc" }, take: 1, select: messageSelect },
+							},
+						},
+					},
+				});
+				const unread = await countUnreadMessages(
+					ctx.prisma,
+					userId,
+					memberships.map(({ conversation, lastReadMessageId }) => ({
+						conversationId: conversation.id,
+						lastReadMessageId,
+					}))
+				);
+				return memberships.map(({ conversation }) => ({
+					id: conversation.id,
+					title: conversation.title,
+					members: conversation.members.map((member) => member.user),
+					lastMessage: conversation.messages[0] ?? null,
+					lastMessageAt: conversation.lastMessageAt,
+					unreadCount: unread.get(conversation.id) ?? 0,
+				}));
+			}),
+		// Start a conversation with the given users. Without a title, asking for a 1:1
+		// conversation that already exists returns it instead of creating another.
+		create: authed
+			.meta({ openapi: { method: "POST", path: "/dm/conversations", protect: true } })
+			.input(
+				z.object({
+					userIds: z
+						.array(z.number().int().positive())
+						.min(1)
+						.max(MAX_CONVERSATION_MEMBERS - 1),
+					title: z.string().max(CONVERSATION_TITLE_MAX_LENGTH).optional(),
+				})
+			)
+			.output(z.object({ id: z.number() }))
+			.mutation(async ({ input, ctx }) => {
+				const userId = ctx.user?.localUserId;
+				if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+
+				const otherIds = [...new Set(input.userIds)].filter((id) => id !== userId);
+				if (otherIds.length === 0) {
+					throw new TRPCError({ code: "BAD_REQUEST", message: "Choose at least one other user" });
+				}
+				const found = await ctx.prisma.user.count({ where: { id: { in: otherIds } } });
+				if (found !== otherIds.length) {
+					throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+				}
+
+				const title = input.title ? sanitizeText(input.title) || null : null;
+				if (otherIds.length === 1 && !title) {
+					const existing = await findDirectConversation(ctx.prisma, userId, otherIds[0]);
+					if (existing) return existing;
+				}
+				return ctx.prisma.conversation.create({
+					data: {
+						title,
+						members: { create: [userId, ...otherIds].map((id) => ({ userId: id })) },
+					},
+					select: { id: true },
+				});
+			}),
+		// Newest first, with every member's read receipt
+		history: authed
+			.meta({
+				openapi: {
+					method: "GET",
+					path: "/dm/conversations/{conversationId}/messages",
+					protect: true,
+				},
+			})
+			.input(
+				z.object({
+					conversationId: z.number().int().positive(),
+					limit: z.number().int().min(1).max(MESSAGES_PAGE_SIZE).optional(),
+					cursor: z.number().int().optional(),
+				})
+			)
+			.output(
+				z.object({
+					items: z.array(messageOutput),
+					nextCursor: z.number().optional(),
+					receipts: z.array(readReceiptOutput),
+				})
+			)
+			.query(async ({ input, ctx }) => {
+				const userId = ctx.user?.localUserId;
+				if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+				await requireMemberIds(ctx.prisma, input.conversationId, userId);
+
+				const pageSize = input.limit ?? MESSAGES_PAGE_SIZE;
+				const [items, receipts] = await Promise.all([
+					ctx.prisma.message.findMany({
+						where: { conversationId: input.conversationId },
+						orderBy: { id: "desc" },
+						take: pageSize,
+						cursor: input.cursor ? { id: input.cursor } : undefined,
+						skip: input.cursor ? 1 : 0,
+						select: messageSelect,
+					}),
+					ctx.prisma.conversationMember.findMany({
+						where: { conversationId: input.conversationId },
 						orderBy: { id: "asc" },
+						select: { conversationId: true, userId: true, lastReadMessageId: true },
+					}),
+				]);
+				const nextCursor = items.length === pageSize ? items[items.length - 1]?.id : undefined;
+				return { items, nextCursor, receipts };
+			}),
+		// Sending also marks the conversation as read up to the new message
+		send: authed
+			.meta({
+				openapi: {
+					method: "POST",
+					path: "/dm/conversations/{conversationId}/messages",
+					protect: true,
+				},
+			})
+			.input(
+				z.object({
+					conversationId: z.number().int().positive(),
+					body: z.string().min(1).max(MESSAGE_MAX_LENGTH),
+				})
+			)
+			.output(messageOutput)
+			.mutation(async ({ input, ctx }) => {
+				const userId = ctx.user?.localUserId;
+				if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+				const { conversationId } = input;
+				const memberIds = await requireMemberIds(ctx.prisma, conversationId, userId);
+
+				const body = normalizeMarkdown(input.body);
+				if (!body.trim()) {
+					throw new TRPCError({ code: "BAD_REQUEST", message: "Message is empty" });
+				}
+				const message = await ctx.prisma.$transaction(async (tx) => {
+					const created = await tx.message.create({
+						data: { conversationId, senderId: userId, body },
+						select: messageSelect,
+					});
+					await tx.conversation.update({
+						where: { id: conversationId },
+						data: { lastMessageAt: created.createdAt },
+					});
+					await tx.conversationMember.update({
+						where: { conversationId_userId: { conversationId, userId } },
+						data: { lastReadMessageId: created.id },
+					});
+					return created;
+				});
+
+				const receipt = { conversationId, userId, lastReadMessageId: message.id };
+				for (const memberId of memberIds) {
+					rooms.publish(userRoom(memberId), "dm.message", message);
+					rooms.publish(userRoom(memberId), "dm.read", receipt);
+				}
+				return message;
+			}),
+		// Move the read receipt to messageId (default: the latest message). Receipts never move back.
+		markRead: authed
+			.meta({
+				openapi: { method: "POST", path: "/dm/conversations/{conversationId}/read", protect: true },
+			})
+			.input(
+				z.object({
+					conversationId: z.number().int().positive(),
+					messageId: z.number().int().positive().optional(),
+				})
+			)
+			.output(unreadCountOutput)
+			.mutation(async ({ input, ctx }) => {
+				const userId = ctx.user?.localUserId;
+				if (!userId) throw new TRPCError({ code: "UNAUTHORIZED" });
+				const { conversationId } = input;
+				const memberIds = await requireMemberIds(ctx.prisma, conversationId, userId);
+
+				const latest = await ctx.prisma.message.findFirst({
+					where: { conversationId, id: input.messageId ? { lte: input.messageId } : undefined },
+					orderBy: { id: "desc" },
+					select: { id: true },
+				});
+				if (latest) {
+					const { count } = await ctx.prisma.conversationMember.updateMany({
+						where: {
+							conversationId,
+							userId,
+							OR: [{ lastReadMessageId: null }, { lastReadMessageId: { lt: latest.id } }],
+						},
+						data: { lastReadMessageId: latest.id },
+					});
+					if (count > 0) {
+						const receipt = { conversationId, userId, lastReadMessageId: latest.id };
+						for (const memberId of memberIds) {
+							rooms.publish(userRoom(memberId), "dm.read", receipt);
+						}
+					}
+				}
+				return { unreadCount: await countUnreadInConversation(ctx.prisma, conversationId, userId) };
+			}),
+		// Pushes messages in any of the user's conversations, including their own
+		onMessage: authed
+			.input(resumeInput.optional())
+			.subscription(({ ctx, input }) =>
+				roomSubscription(
+					ctx,
+					requireUserRoom(ctx),
+					input?.lastEventId,
+					(event): MessageItem | undefined =>
+						event.type === "dm.message" ? event.payload : undefined
+				)
+			),
+		// Pushes read receipt changes in the user's conversations
+		onRead: authed
+			.input(resumeInput.optional())
+			.subscription(({ ctx, input }) =>
+				roomSubscription(
+					ctx,
+					requireUserRoom(ctx),
+					input?.lastEventId,
+					(event): ReadReceipt | undefined => (event.type === "dm.read" ? event.payload : undefined)
+				)
+			),
+	}),
+	markdown: t.router({
+		// Renders a draft with the same sanitizer used for stored bodies, for the editor preview
+		preview: authed
+			.meta({ openapi: { method: "GET", path: "/markdown/preview", protect: true } })
+			.input(z.object({ source: z.string().max(5000) }))
+			.output(z.object({ html: z.string() }))
+			.query(({ input }) => ({ html: renderMarkdown(normalizeMarkdown(input.source)) })),
+	}),
+	search: t.router({
+		// Full-text search over post titles, post bodies and comments, best matches first
+		query: authed
+			.meta({ openapi: { method: "GET", path: "/search", protect: true } })
+			.input(
+				z.object({
+					q: z.string().trim().min(1).max(200),
+					authorId: z.number().int().positive().optional(),
+					from: z.date().optional(),
+					to: z.date().optional(),
+					limit: z.number().int().min(1).max(100).optional(),
+					cursor: z.number().int().min(0).optional(),
+				})
+			)
+			.output(
+				z.object({
+					items: z.array(searchResultOutput),
+					nextCursor: z.number().optional(),
+				})
+			)
+			.query(async ({ input, ctx }) => {
+				const terms = extractSearchTerms(input.q);
+				if (terms.length === 0) return { items: [] };
+
+				const pageSize = input.limit ?? 20;
+				const offset = input.cursor ?? 0;
+				const hits = await createSearchBackend(ctx.prisma).search({
+					terms,
+					raw: input.q,
+					authorId: input.authorId,
+					from: input.from,
+					to: input.to,
+					limit: pageSize,
+					offset,
+				});
+
+				const commentIds = hits.filter((hit) => hit.kind === "comment").map((hit) => hit.id);
+				const [posts, comments] = await Promise.all([
+					ctx.prisma.post.findMany({
+						where: { id: { in: Array.from(new Set(hits.map((hit) => hit.postId))) } },
 						select: {
 							id: true,
+							title: true,
 							body: true,
 							createdAt: true,
 							author: { select: { id: true, username: true } },
 						},
+					}),
+					ctx.prisma.comment.findMany({
+						where: { id: { in: commentIds } },
+						select: {
+							id: true,
+							body: true,
+							createdAt: true,
+							author: { select: { id: true, username: true } },
+						},
+					}),
+				]);
+				const postById = new Map(posts.map((p) => [p.id, p]));
+				const commentById = new Map(comments.map((c) => [c.id, c]));
+
+				const items = hits.flatMap((hit): SearchResult[] => {
+					const post = postById.get(hit.postId);
+					const source = hit.kind === "comment" ? commentById.get(hit.id) : post;
+					if (!post || !source) return [];
+					return [
+						{
+							type: hit.kind,
+							id: hit.id,
+							postId: hit.postId,
+							title: sanitizeText(post.title),
+							snippet: buildSnippet(sanitizeText(source.body), terms),
+							author: source.author,
+							createdAt: source.createdAt,
+						},
+					];
+				});
+				// The cursor is the offset of the next page in relevance order
+				const nextCursor = hits.length === pageSize ? offset + pageSize : undefined;
+				return { items, nextCursor };
+			}),
+	}),
+	admin: t.router({
+		// Sends an announcement to every user except the sender
+		broadcast: adminOnly
+			.meta({ openapi: { method: "POST", path: "/admin/broadcast", protect: true } })
+			.input(
+				z.object({
+					title: z.string().min(1).max(BROADCAST_TITLE_MAX_LENGTH),
+					message: z.string().min(1).max(BROADCAST_MESSAGE_MAX_LENGTH),
+				})
+			)
+			.output(z.object({ recipients: z.number() }))
+			.mutation(async ({ input, ctx }) => {
+				const actorId = ctx.user?.localUserId;
+				if (!actorId) throw new TRPCError({ code: "UNAUTHORIZED" });
+
+				const title = sanitizeText(input.title);
+				const message = sanitizeText(input.message);
+				const users = await ctx.prisma.user.findMany({
+					where: { id: { not: actorId } },
+					select: { id: true },
+				});
+				const recipients = await publishNotifications(
+					ctx.prisma,
+					users.map((user) => ({ userId: user.id, type: "broadcast", actorId, title, message }))
+				);
+				return { recipients };
+			}),
+		// Ends every session of a user at once (offboarding, compromised account): the refresh
+		// sessions are revoked, earlier access tokens stop working and live connections close
+		forceLogout: adminOnly
+			.meta({ openapi: { method: "POST", path: "/admin/users/{userId}/logout", protect: true } })
+			.input(z.object({ userId: z.number().int().positive() }))
+			.output(z.object({ revokedSessions: z.number() }))
+			.mutation(async ({ input, ctx }) => {
+				const user = await ctx.prisma.user.findUnique({
+					where: { id: input.userId },
+					select: { id: true },
+				});
+				if (!user) throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+
+				const revokedSessions = await ctx.terminateSessions(user.id);
+				logger.info("Sessions of user terminated by administrator", {
+					userId: user.id,
+					actorId: ctx.user?.localUserId,
+					revokedSessions,
+				});
+				return { revokedSessions };
+			}),
+		trash: t.router({
+			list: moderator
+				.meta({ openapi: { method: "GET", path: "/admin/trash", protect: true } })
+				.input(
+					z
+						.object({
+							type: z.enum(["post", "comment"]).optional(),
+							limit: z.number().int().min(1).max(100).optional(),
+						})
+						.optional()
+				)
+				.output(z.array(trashItemOutput))
+				.query(async ({ input, ctx }) => {
+					const take = input?.limit ?? 50;
+					const [posts, comments] = await Promise.all([
+						input?.type === "comment"
+							? []
+							: ctx.prisma.post.findMany({
+									where: { deletedAt: { not: null } },
+									orderBy: { deletedAt: "desc" },
+									take,
+									select: {
+										id: true,
+										title: true,
+										body: true,
+										deletedAt: true,
+										deletedBy: true,
+										author: { select: { id: true, username: true } },
+									},
+								}),
+						input?.type === "post"
+							? []
+							: ctx.prisma.comment.findMany({
+									where: { deletedAt: { not: null } },
+									orderBy: { deletedAt: "desc" },
+									take,
+									select: {
+										id: true,
+										postId: true,
+										body: true,
+										deletedAt: true,
+										deletedBy: true,
+										author: { select: { id: true, username: true } },
+									},
+								}),
+					]);
+
+					const deleterIds = [...posts, ...comments]
+						.map((item) => item.deletedBy)
+						.filter((id): id is number => id !== null);
+					const deleters = await ctx.prisma.user.findMany({
+						where: { id: { in: Array.from(new Set(deleterIds)) } },
+						select: { id: true, username: true },
 					});
-					return comments.map((c) => ({ ...c, body: sanitizeText(c.body) }));
+					const deleterById = new Map(deleters.map((u) => [u.id, u]));
+
+					const items: TrashItem[] = [
+						...posts.map((p) => ({
+							type: "post" as const,
+							id: p.id,
+							postId: null,
+							title: p.title,
+							body: p.body,
+							author: p.author,
+							deletedAt: p.deletedAt as Date,
+							deletedBy: p.deletedBy !== null ? (deleterById.get(p.deletedBy) ?? null) : null,
+						})),
+						...comments.map((c) => ({
+							type: "comment" as const,
+							id: c.id,
+							postId: c.postId,
+							title: null,
+							body: c.body,
+							author: c.author,
+							deletedAt: c.deletedAt as Date,
+							deletedBy: c.deletedBy !== null ? (deleterById.get(c.deletedBy) ?? null) : null,
+						})),
+					];
+					return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()).slice(0, take);
 				}),
-			add: authed
-				.meta({ openapi: { method: "POST", path: "/posts/{postId}/comments", protect: true } })
-				.input(z.object({ postId: z.number().int().positive(), body: z.string().min(1).max(5000) }))
-				.output(z.object({ id: z.number(), body: z.string(), createdAt: z.date() }))
-				.mutation(
-					async ({ input, ctx }): Promise<{ id: number; body: string; createdAt: Date }> => {
-						const c = await ctx.prisma.comment.create({
-							data: {
-								postId: input.postId,
-								body: sanitizeText(input.body),
-								authorId: ctx.user!.localUserId,
-							},
-							select: { id: true, body: true, createdAt: true },
+			restore: moderator
+				.meta({ openapi: { method: "POST", path: "/admin/trash/restore", protect: true } })
+				.input(trashTargetInput)
+				.output(z.object({ success: z.boolean() }))
+				.mutation(async ({ input, ctx }) => {
+					if (input.type === "post") {
+						const trashed = await ctx.prisma.post.findFirst({
+							where: { id: input.id, deletedAt: { not: null } },
+							select: { id: true },
 						});
-						return c;
+						if (!trashed) throw new TRPCError({ code: "NOT_FOUND" });
+						const post = await ctx.prisma.post.update({
+							where: { id: input.id },
+							data: { deletedAt: null, deletedBy: null },
+							select: postSelect,
+						});
+						eventBus.publish("posts.created", toPostWithAuthor(post));
+						return { success: true };
 					}
-				),
+
+					const trashed = await ctx.prisma.comment.findFirst({
+						where: { id: input.id, deletedAt: { not: null } },
+						select: {
+							id: true,
+							post: { select: { deletedAt: true } },
+							parent: { select: { deletedAt: true } },
+						},
+					});
+					if (!trashed) throw new TRPCError({ code: "NOT_FOUND" });
+					if (trashed.post.deletedAt) {
+						throw new TRPCError({
+							code: "PRECONDITION_FAILED",
+							message: "Restore the post before restoring its comments",
+						});
+					}
+					if (trashed.parent?.deletedAt) {
+						throw new TRPCError({
+							code: "PRECONDITION_FAILED",
+							message: "Restore the parent comment before restoring its replies",
+						});
+					}
+					const comment = await ctx.prisma.comment.update({
+						where: { id: input.id },
+						data: { deletedAt: null, deletedBy: null },
+						select: { ...commentRowSelect, postId: true },
+					});
+					rooms.publish(postRoom(comment.postId), "comments.added", renderComment(comment));
+					return { success: true };
+				}),
+			purge: moderator
+				.meta({ openapi: { method: "POST", path: "/admin/trash/purge", protect: true } })
+				.input(trashTargetInput)
+				.output(z.object({ success: z.boolean() }))
+				.mutation(async ({ input, ctx }) => {
+					// Only content that is already in the trash can be permanently deleted
+					const where = { id: input.id, deletedAt: { not: null } };
+					const result =
+						input.type === "post"
+							? await ctx.prisma.post.deleteMany({ where })
+							: await ctx.prisma.comment.deleteMany({ where });
+					if (result.count === 0) throw new TRPCError({ code: "NOT_FOUND" });
+					// Reactions are not linked by foreign key, so clear those left behind
+					await pruneOrphanedReactions(ctx.prisma);
+					return { success: true };
+				}),
 		}),
 	}),
 });
@@ -0,0 +1,249 @@
+/**
+ * Helpers for post and comment attachments
+ *
+ * Files are downloaded from `/uploads/:id` with an HMAC signature and an expiry in the
+ * query string, so <img> tags can load them without the access token. Signed URLs are
+ * only included in responses for content the viewer may see, and the download handler
+ * refuses files whose post or comment is in the trash.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { PrismaClient } from "@prisma/client";
+import sharp from "sharp";
+import { ATTACHMENT_FILENAME_MAX_LENGTH, THUMBNAIL_MAX_DIMENSION } from "../constants/limits.js";
+import { ATTACHMENT_URL_TTL_SECONDS } from "../constants/timeouts.js";
+import type { StorageBackend } from "../core/storage/index.js";
+import type { UploadMimeType } from "./mime.js";
+
+export type AttachmentVariant = "original" | "thumbnail";
+
+export type AttachmentInfo = {
+	id: number;
+	filename: string;
+	mimeType: string;
+	size: number;
+	width: number | null;
+	height: number | null;
+	url: string;
+	thumbnailUrl: string | null;
+};
+
+export const attachmentSelect = {
+	id: true,
+	filename: true,
+	mimeType: true,
+	size: true,
+	width: true,
+	height: true,
+	thumbnailKey: true,
+} as const;
+
+export type AttachmentRow = Omit<AttachmentInfo, "url" | "thumbnailUrl"> & {
+	thumbnailKey: string | null;
+};
+
+type SigningOptions = {
+	secret?: string;
+	now?: number;
+	ttlSeconds?: number;
+};
+
+function resolveSecret(secret?: string): string {
+	const value = secret ?? process.env.ATTACHMENT_URL_SECRET ?? process.env.JWT_SECRET;
+	if (!value) {
+		throw new Error("ATTACHMENT_URL_SECRET or JWT_SECRET must be set to sign attachment URLs");
+	}
+	return value;
+}
+
+function sign(id: number, variant: AttachmentVariant, expires: number, secret: string): string {
+	return createHmac("sha256", secret).update(`${id}:${variant}:${expires}`).digest("base64url");
+}
+
+export function attachmentPath(id: number, variant: AttachmentVariant = "original"): string {
+	return variant === "thumbnail" ? `/uploads/${id}/thumbnail` : `/uploads/${id}`;
+}
+
+/**
+ * Signed download URL (path and query). The expiry is rounded up to the end of the next
+ * TTL window, so repeated calls return the same URL for a while and browsers can cache it.
+ */
+export function signAttachmentUrl(
+	id: number,
+	variant: AttachmentVariant = "original",
+	options: SigningOptions = {}
+): string {
+	const ttl = options.ttlSeconds ?? ATTACHMENT_URL_TTL_SECONDS;
+	const nowSeconds = Math.floor((options.now ?? Date.now()) / 1000);
+	const expires = (Math.floor(nowSeconds / ttl) + 2) * ttl;
+	const sig = sign(id, variant, expires, resolveSecret(options.secret));
+	return `${attachmentPath(id, variant)}?expires=${expires}&sig=${sig}`;
+}
+
+/**
+ * Check the `expires` and `sig` query parameters of a download request
+ */
+export function verifyAttachmentSignature(
+	id: number,
+	variant: AttachmentVariant,
+	expires: string | null,
+	sig: string | null,
+	options: Omit<SigningOptions, "ttlSeconds"> = {}
+): boolean {
+	if (!expires || !sig || !/^\d+$/.test(expires)) {
+		return false;
+	}
+	const expiresAt = Number(expires);
+	if (expiresAt * 1000 <= (options.now ?? Date.now())) {
+		return false;
+	}
+	const expected = Buffer.from(sign(id, variant, expiresAt, resolveSecret(options.secret)));
+	const actual = Buffer.from(sig);
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Replace the storage details of an attachment row with signed download URLs
+ */
+export function toAttachmentInfo({ thumbnailKey, ...attachment }: AttachmentRow): AttachmentInfo {
+	return {
+		...attachment,
+		url: signAttachmentUrl(attachment.id),
+		thumbnailUrl: thumbnailKey ? signAttachmentUrl(attachment.id, "thumbnail") : null,
+	};
+}
+
+/**
+ * Reduce a client supplied file name to its last path segment without control characters
+ */
+export function sanitizeFilename(raw: string): string {
+	const name = (raw.split(/[\\/]/).pop() ?? "").normalize("NFC");
+	const cleaned = Array.from(name)
+		.filter((ch) => {
+			const code = ch.codePointAt(0) ?? 0;
+			return code >= 0x20 && code !== 0x7f && ch !== '"';
+		})
+		.join("")
+		.trim()
+		.slice(0, ATTACHMENT_FILENAME_MAX_LENGTH);
+	return cleaned && cleaned !== "." && cleaned !== ".." ? cleaned : "file";
+}
+
+/**
+ * Read the dimensions of an image and render a WebP thumbnail that fits in a
+ * THUMBNAIL_MAX_DIMENSION square. Throws when the data cannot be decoded.
+ */
+export async function createThumbnail(
+	data: Buffer
+): Promise<{ thumbnail: Buffer; width: number; height: number }> {
+	const metadata = await sharp(data).metadata();
+	const thumbnail = await sharp(data)
+		.rotate()
+		.resize({
+			width: THUMBNAIL_MAX_DIMENSION,
+			height: THUMBNAIL_MAX_DIMENSION,
+			fit: "inside",
+			withoutEnlargement: true,
+		})
+		.webp()
+		.toBuffer();
+	return {
+		thumbnail,
+		width: metadata.autoOrient.width,
+		height: metadata.autoOrient.height,
+	};
+}
+
+/**
+ * Write an upload (and the thumbnail of an image) to storage and record it as an
+ * unlinked attachment of the uploader
+ */
+export async function storeAttachment(
+	prisma: PrismaClient,
+	storage: StorageBackend,
+	upload: {
+		uploaderId: number;
+		filename: string;
+		mimeType: UploadMimeType;
+		data: Buffer;
+		image?: Awaited<ReturnType<typeof createThumbnail>>;
+	}
+): Promise<AttachmentInfo> {
+	const storageKey = randomUUID();
+	const thumbnailKey = upload.image ? `${storageKey}-thumb` : null;
+
+	if (upload.image && thumbnailKey) {
+		await storage.put(thumbnailKey, upload.image.thumbnail, "image/webp");
+	}
+	await storage.put(storageKey, upload.data, upload.mimeType);
+
+	try {
+		const attachment = await prisma.attachment.create({
+			data: {
+				uploaderId: upload.uploaderId,
+				storageKey,
+				thumbnailKey,
+				filename: upload.filename,
+				mimeType: upload.mimeType,
+				size: upload.data.length,
+				width: upload.image?.width ?? null,
+				height: upload.image?.height ?? null,
+			},
+			select: attachmentSelect,
+		});
+		return toAttachmentInfo(attachment);
+	} catch (error) {
+		await storage.delete(storageKey);
+		if (thumbnailKey) {
+			await storage.delete(thumbnailKey);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Whether every id is an attachment the user may attach: one of their own unlinked
+ * uploads, or one already attached to the post or comment being edited
+ */
+export async function canAttach(
+	prisma: PrismaClient,
+	uploaderId: number,
+	ids: number[],
+	current?: { postId: number } | { commentId: number }
+): Promise<boolean> {
+	if (ids.length === 0) {
+		return true;
+	}
+	const count = await prisma.attachment.count({
+		where: {
+			id: { in: ids },
+			OR: [{ uploaderId, postId: null, commentId: null }, ...(current ? [current] : [])],
+		},
+	});
+	return count === ids.length;
+}
+
+/**
+ * Delete attachments created before `olderThan` that are not linked to a post or comment
+ * (never used, or left behind when their post or comment was purged) with their files
+ */
+export async function pruneUnlinkedAttachments(
+	prisma: PrismaClient,
+	storage: StorageBackend,
+	olderThan: Date
+): Promise<number> {
+	const rows = await prisma.attachment.findMany({
+		where: { postId: null, commentId: null, createdAt: { lt: olderThan } },
+		select: { id: true, storageKey: true, thumbnailKey: true },
+	});
+	for (const row of rows) {
+		await storage.delete(row.storageKey);
+		if (row.thumbnailKey) {
+			await storage.delete(row.thumbnailKey);
+		}
+	}
+	if (rows.length > 0) {
+		await prisma.attachment.deleteMany({ where: { id: { in: rows.map((row) => row.id) } } });
+	}
+	return rows.length;
+}
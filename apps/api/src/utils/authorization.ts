@@ -0,0 +1,107 @@
+/**
+ * Role and permission based authorization utilities
+ */
+
+import { TRPCError } from "@trpc/server";
+
+export const ROLES = {
+	USER: "USER",
+	ADMIN: "ADMIN",
+} as const;
+
+export type Permission =
+	| "users:read"
+	| "users:manage"
+	| "posts:write"
+	| "posts:moderate"
+	| "boards:manage";
+
+// Permissions granted to each role. Roles not listed here grant no permissions.
+const ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+	[ROLES.USER]: ["posts:write"],
+	[ROLES.ADMIN]: ["users:read", "users:manage", "posts:write", "posts:moderate", "boards:manage"],
+};
+
+type RoleHolder = { roles: string[] } | null | undefined;
+
+// The part of tRPC's middleware options the authorization middlewares read
+type AuthorizationMiddlewareOptions<TResult> = {
+	ctx: { user: RoleHolder };
+	next: () => TResult;
+};
+
+function normalizeRole(role: string): string {
+	return role.trim().toUpperCase();
+}
+
+/**
+ * Merge OIDC roles with the local user role into a single de-duplicated list
+ */
+export function mergeRoles(oidcRoles: string[], localRole: string | null | undefined): string[] {
+	const merged = new Set<string>(oidcRoles);
+	if (localRole) {
+		merged.add(localRole);
+	}
+	return Array.from(merged);
+}
+
+export function hasRole(user: RoleHolder, ...roles: string[]): boolean {
+	if (!user) return false;
+	const wanted = new Set(roles.map(normalizeRole));
+	return user.roles.some((role) => wanted.has(normalizeRole(role)));
+}
+
+export function hasPermission(user: RoleHolder, permission: Permission): boolean {
+	if (!user) return false;
+	return user.roles.some((role) =>
+		(ROLE_PERMISSIONS[normalizeRole(role)] ?? []).includes(permission)
+	);
+}
+
+/**
+ * Authors may change their own content; moderators may change anything
+ */
+export function canModifyContent(
+	user: { localUserId: number; roles: string[] } | null | undefined,
+	authorId: number
+): boolean {
+	if (!user) return false;
+	return user.localUserId === authorId || hasPermission(user, "posts:moderate");
+}
+
+/**
+ * Middleware that allows the call when the user holds any of the given roles
+ */
+export function requireRole(...roles: string[]) {
+	return <TResult>({ ctx, next }: AuthorizationMiddlewareOptions<TResult>): TResult => {
+		if (!ctx.user) {
+			throw new TRPCError({ code: "UNAUTHORIZED" });
+		}
+		if (!hasRole(ctx.user, ...roles)) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: `Requires role: ${roles.join(" or ")}`,
+			});
+		}
+		return next();
+	};
+}
+
+/**
+ * Middleware that allows the call when the user holds every given permission
+ */
+export function requirePermission(...permissions: Permission[]) {
+	return <TResult>({ ctx, next }: AuthorizationMiddlewareOptions<TResult>): TResult => {
+		if (!ctx.user) {
+			throw new TRPCError({ code: "UNAUTHORIZED" });
+		}
+		const missing = permissions.filter((permission) => !hasPermission(ctx.user, permission));
+		if (missing.length > 0) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: `Missing permission: ${missing.join(", ")}`,
+			});
+		}
+		return next();
+	};
+}
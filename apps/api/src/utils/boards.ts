@@ -0,0 +1,27 @@
+/**
+ * Helpers for the board hierarchy
+ */
+
+type BoardLink = { id: number; parentId: number | null };
+
+/**
+ * Return the board id followed by the ids of every board nested below it
+ */
+export function collectBoardIds(boards: BoardLink[], rootId: number): number[] {
+	const ids = [rootId];
+	for (let i = 0; i < ids.length; i++) {
+		for (const board of boards) {
+			if (board.parentId === ids[i] && !ids.includes(board.id)) {
+				ids.push(board.id);
+			}
+		}
+	}
+	return ids;
+}
+
+/**
+ * True when moving `boardId` under `parentId` would make a board its own ancestor
+ */
+export function wouldCreateCycle(boards: BoardLink[], boardId: number, parentId: number): boolean {
+	return collectBoardIds(boards, boardId).includes(parentId);
+}
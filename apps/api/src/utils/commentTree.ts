@@ -0,0 +1,78 @@
+/**
+ * Helpers for assembling threaded comments into a reply tree
+ */
+
+import { Prisma, type PrismaClient } from "@prisma/client";
+
+export type CommentRow = {
+	id: number;
+	parentId: number | null;
+	depth: number;
+	body: string;
+	createdAt: Date;
+	editedAt: Date | null;
+	author: { id: number; username: string };
+};
+
+export type CommentNode<T extends CommentRow = CommentRow> = T & {
+	replyCount: number;
+	nextRepliesCursor?: number;
+	replies: CommentNode<T>[];
+};
+
+/**
+ * Nest loaded replies under their parents.
+ *
+ * Each node keeps at most `repliesPageSize` replies (oldest first). When a node has more
+ * replies than were attached, `nextRepliesCursor` points at the last attached reply so the
+ * client can request the rest; nodes whose replies were not loaded at all start from the
+ * beginning (no cursor).
+ */
+export function buildCommentTree<T extends CommentRow>(
+	roots: T[],
+	descendants: T[],
+	replyCounts: Map<number, number>,
+	repliesPageSize: number
+): CommentNode<T>[] {
+	const childrenByParent = new Map<number, T[]>();
+	for (const row of [...descendants].sort((a, b) => a.id - b.id)) {
+		if (row.parentId === null) continue;
+		const siblings = childrenByParent.get(row.parentId) ?? [];
+		siblings.push(row);
+		childrenByParent.set(row.parentId, siblings);
+	}
+
+	const toNode = (row: T): CommentNode<T> => {
+		const children = (childrenByParent.get(row.id) ?? []).slice(0, repliesPageSize);
+		const replyCount = replyCounts.get(row.id) ?? 0;
+		const lastChild = children[children.length - 1];
+		return {
+			...row,
+			replyCount,
+			nextRepliesCursor: lastChild && children.length < replyCount ? lastChild.id : undefined,
+			replies: children.map(toNode),
+		};
+	};
+
+	return roots.map(toNode);
+}
+
+/**
+ * Ids of the first `perParent` replies (oldest first) of each given comment, skipping trashed
+ * replies. The limit is applied by the database, so long threads are not loaded whole.
+ */
+export async function loadFirstReplyIds(
+	prisma: PrismaClient,
+	parentIds: number[],
+	perParent: number
+): Promise<number[]> {
+	if (parentIds.length === 0) return [];
+	const rows = await prisma.$queryRaw<{ id: number }[]>`
+		SELECT "id" FROM (
+			SELECT "id", ROW_NUMBER() OVER (PARTITION BY "parentId" ORDER BY "id") AS "position"
+			FROM "Comment"
+			WHERE "parentId" IN (${Prisma.join(parentIds)}) AND "deletedAt" IS NULL
+		) AS "ranked"
+		WHERE "position" <= ${perParent}`;
+	return rows.map((row) => Number(row.id));
+}
@@ -0,0 +1,87 @@
+/**
+ * Direct messages: conversation membership, unread counts and the shapes returned to clients
+ */
+
+import type { PrismaClient } from "@prisma/client";
+
+export const messageSelect = {
+	id: true,
+	conversationId: true,
+	body: true,
+	createdAt: true,
+	sender: { select: { id: true, username: true } },
+} as const;
+
+export type MessageItem = {
+	id: number;
+	conversationId: number;
+	body: string;
+	createdAt: Date;
+	sender: { id: number; username: string } | null; // null when the sender's account was deleted
+};
+
+/**
+ * A member's read receipt: the newest message they have read, null before reading any
+ */
+export type ReadReceipt = {
+	conversationId: number;
+	userId: number;
+	lastReadMessageId: number | null;
+};
+
+/**
+ * Ids of the conversation's members, or null when userId is not one of them.
+ * Callers answer NOT_FOUND for null so non-members cannot probe for conversations.
+ */
+export async function findMemberIds(
+	prisma: PrismaClient,
+	conversationId: number,
+	userId: number
+): Promise<number[] | null> {
+	const members = await prisma.conversationMember.findMany({
+		where: { conversationId },
+		select: { userId: true },
+	});
+	const memberIds = members.map((member) => member.userId);
+	return memberIds.includes(userId) ? memberIds : null;
+}
+
+/**
+ * The untitled conversation whose members are exactly these two users
+ */
+export async function findDirectConversation(
+	prisma: PrismaClient,
+	userId: number,
+	otherUserId: number
+): Promise<{ id: number } | null> {
+	return prisma.conversation.findFirst({
+		where: {
+			title: null,
+			members: { every: { userId: { in: [userId, otherUserId] } } },
+			AND: [{ members: { some: { userId } } }, { members: { some: { userId: otherUserId } } }],
+		},
+		select: { id: true },
+	});
+}
+
+/**
+ * Messages from other members after the user's read receipt, per conversation
+ */
+export async function countUnreadMessages(
+	prisma: PrismaClient,
+	userId: number,
+	receipts: { conversationId: number; lastReadMessageId: number | null }[]
+): Promise<Map<number, number>> {
+	const counts = await Promise.all(
+		receipts.map(({ conversationId, lastReadMessageId }) =>
+			prisma.message.count({
+				where: {
+					conversationId,
+					OR: [{ senderId: null }, { senderId: { not: userId } }],
+					id: { gt: lastReadMessageId ?? 0 },
+				},
+			})
+		)
+	);
+	return new Map(receipts.map((receipt, index) => [receipt.conversationId, counts[index]]));
+}
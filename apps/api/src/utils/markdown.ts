@@ -0,0 +1,120 @@
+/**
+ * Markdown rendering for post and comment bodies
+ *
+ * Bodies are stored as Markdown source and rendered to HTML on read. Raw HTML in the
+ * source is parsed into the same syntax tree as the Markdown, and the whole tree is then
+ * filtered against an allowlist of elements, attributes and URL protocols, so anything
+ * not listed below never reaches the browser.
+ */
+
+import rehypeRaw from "rehype-raw";
+import rehypeSanitize, { type Options as SanitizeSchema } from "rehype-sanitize";
+import rehypeStringify from "rehype-stringify";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import remarkRehype from "remark-rehype";
+import { unified } from "unified";
+
+/**
+ * Allowlist applied to the rendered HTML tree
+ */
+export const MARKDOWN_SANITIZE_SCHEMA: SanitizeSchema = {
+	tagNames: [
+		"p",
+		"br",
+		"hr",
+		"h1",
+		"h2",
+		"h3",
+		"h4",
+		"h5",
+		"h6",
+		"strong",
+		"em",
+		"del",
+		"code",
+		"pre",
+		"blockquote",
+		"ul",
+		"ol",
+		"li",
+		"input",
+		"a",
+		"img",
+		"table",
+		"thead",
+		"tbody",
+		"tr",
+		"th",
+		"td",
+	],
+	attributes: {
+		a: ["href", "title"],
+		img: ["src", "alt", "title"],
+		code: [["className", /^language-[\w-]+$/]],
+		ol: ["start"],
+		th: [["align", "left", "center", "right"]],
+		td: [["align", "left", "center", "right"]],
+		// GFM task list checkboxes only
+		input: [["type", "checkbox"], ["disabled", true], "checked"],
+	},
+	required: {
+		input: { type: "checkbox", disabled: true },
+	},
+	protocols: {
+		href: ["http", "https", "mailto"],
+		src: ["http", "https"],
+	},
+	// Drop these elements together with their content instead of unwrapping them
+	strip: [
+		"script",
+		"style",
+		"iframe",
+		"object",
+		"embed",
+		"template",
+		"noscript",
+		"textarea",
+		"title",
+	],
+};
+
+type HastNode = {
+	type: string;
+	tagName?: string;
+	properties?: Record<string, unknown>;
+	children?: HastNode[];
+};
+
+/**
+ * Make links open without handing the opener or referrer to the target site
+ */
+function rehypeSafeLinks() {
+	const visit = (node: HastNode) => {
+		if (node.type === "element" && node.tagName === "a" && node.properties?.href) {
+			node.properties.rel = ["nofollow", "noopener", "noreferrer"];
+			node.properties.target = "_blank";
+		}
+		for (const child of node.children ?? []) {
+			visit(child);
+		}
+	};
+	return (tree: HastNode) => visit(tree);
+}
+
+const processor = unified()
+	.use(remarkParse)
+	.use(remarkGfm)
+	.use(remarkRehype, { allowDangerousHtml: true })
+	.use(rehypeRaw)
+	.use(rehypeSanitize, MARKDOWN_SANITIZE_SCHEMA)
+	.use(rehypeSafeLinks)
+	.use(rehypeStringify)
+	.freeze();
+
+/**
+ * Render Markdown source to sanitized HTML
+ */
+export function renderMarkdown(source: string): string {
+	return String(processor.processSync(source));
+}
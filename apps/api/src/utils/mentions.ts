@@ -0,0 +1,47 @@
+/**
+ * @username mentions in post and comment bodies
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import { MAX_MENTIONS_PER_POST, USERNAME_MAX_LENGTH } from "../constants/limits.js";
+
+// Code is shown verbatim, so @names inside it are not mentions
+const FENCED_CODE = /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^\1[^\S\n]*$|(?![\s\S]))/gm;
+const INLINE_CODE = /(`+)[\s\S]*?\1/g;
+
+// Not preceded by a word character, "@", "/" or "." so e-mail addresses and URLs are skipped
+const MENTION = /(?<![\w@./\\])@([A-Za-z0-9_-]+)/g;
+
+/**
+ * Usernames mentioned in a Markdown body, in order of first appearance and without duplicates
+ */
+export function extractMentions(markdown: string, limit = MAX_MENTIONS_PER_POST): string[] {
+	const text = markdown.replace(FENCED_CODE, "").replace(INLINE_CODE, "");
+	const usernames = new Set<string>();
+	for (const [, username] of text.matchAll(MENTION)) {
+		if (username.length > USERNAME_MAX_LENGTH) continue;
+		usernames.add(username);
+		if (usernames.size >= limit) break;
+	}
+	return [...usernames];
+}
+
+/**
+ * Ids of existing users mentioned in the body. The author is never included,
+ * so nobody is notified about mentioning themselves.
+ */
+export async function findMentionedUserIds(
+	prisma: PrismaClient,
+	body: string,
+	authorId: number
+): Promise<number[]> {
+	const usernames = extractMentions(body);
+	if (usernames.length === 0) {
+		return [];
+	}
+	const users = await prisma.user.findMany({
+		where: { username: { in: usernames }, id: { not: authorId } },
+		select: { id: true },
+	});
+	return users.map((user) => user.id);
+}
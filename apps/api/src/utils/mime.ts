@@ -0,0 +1,85 @@
+/**
+ * Content type detection for uploads
+ *
+ * The type is decided from the leading bytes of the file. The Content-Type header and
+ * file extension sent by the client are never trusted, so a script renamed to `.png`
+ * is rejected instead of being served back as an image.
+ */
+
+export const ALLOWED_UPLOAD_TYPES = [
+	"image/png",
+	"image/jpeg",
+	"image/gif",
+	"image/webp",
+	"application/pdf",
+	"text/plain",
+] as const;
+
+export type UploadMimeType = (typeof ALLOWED_UPLOAD_TYPES)[number];
+
+const IMAGE_TYPES: readonly UploadMimeType[] = [
+	"image/png",
+	"image/jpeg",
+	"image/gif",
+	"image/webp",
+];
+
+const SIGNATURES: { type: UploadMimeType; offset: number; bytes: number[] }[] = [
+	{ type: "image/png", offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+	{ type: "image/jpeg", offset: 0, bytes: [0xff, 0xd8, 0xff] },
+	{ type: "image/gif", offset: 0, bytes: [0x47, 0x49, 0x46, 0x38, 0x37, 0x61] }, // GIF87a
+	{ type: "image/gif", offset: 0, bytes: [0x47, 0x49, 0x46, 0x38, 0x39, 0x61] }, // GIF89a
+	{ type: "application/pdf", offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+];
+
+function matchesAt(data: Uint8Array, offset: number, bytes: number[]): boolean {
+	if (data.length < offset + bytes.length) {
+		return false;
+	}
+	return bytes.every((byte, i) => data[offset + i] === byte);
+}
+
+// "RIFF" <size> "WEBP"
+function isWebp(data: Uint8Array): boolean {
+	return (
+		matchesAt(data, 0, [0x52, 0x49, 0x46, 0x46]) && matchesAt(data, 8, [0x57, 0x45, 0x42, 0x50])
+	);
+}
+
+// Valid UTF-8 without NUL or other binary control characters
+function isPlainText(data: Uint8Array): boolean {
+	if (data.length === 0) {
+		return false;
+	}
+	for (const byte of data) {
+		if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d) {
+			return false;
+		}
+	}
+	try {
+		new TextDecoder("utf-8", { fatal: true }).decode(data);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Detect an allowed content type from file contents, or null when the file is not allowed.
+ * Markup that browsers would execute (HTML, SVG) is only ever reported as text/plain.
+ */
+export function sniffMimeType(data: Uint8Array): UploadMimeType | null {
+	for (const signature of SIGNATURES) {
+		if (matchesAt(data, signature.offset, signature.bytes)) {
+			return signature.type;
+		}
+	}
+	if (isWebp(data)) {
+		return "image/webp";
+	}
+	return isPlainText(data) ? "text/plain" : null;
+}
+
+export function isImageType(type: string): boolean {
+	return (IMAGE_TYPES as readonly string[]).includes(type);
+}
@@ -0,0 +1,274 @@
+/**
+ * Per-user notifications: delivery according to the recipient's preferences,
+ * the shape returned to clients, and retention
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import { NOTIFICATIONS } from "../constants/index.js";
+import type { NotificationEvent } from "../core/events/index.js";
+
+export const NOTIFICATION_TYPES = ["mention", "reply", "reaction", "broadcast"] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export type NotificationInput = {
+	userId: number; // Recipient
+	type: NotificationType;
+	actorId?: number | null;
+	postId?: number | null;
+	commentId?: number | null;
+	title?: string | null;
+	message?: string | null;
+};
+
+/**
+ * Where a notification is delivered: as a live toast, kept in the notification center,
+ * and included in the e-mail digest
+ */
+export type NotificationChannels = {
+	toast: boolean;
+	center: boolean;
+	emailDigest: boolean;
+};
+
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationChannels = {
+	toast: true,
+	center: true,
+	emailDigest: false,
+};
+
+/**
+ * Daily period without toasts, in minutes after midnight in the user's time zone.
+ * The period wraps past midnight when end is before start.
+ */
+export type QuietHours = {
+	start: number;
+	end: number;
+	timeZone: string;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Minutes after midnight of the given instant in a time zone
+ */
+export function minutesInTimeZone(date: Date, timeZone: string): number {
+	const parts = new Intl.DateTimeFormat("en-US", {
+		timeZone,
+		hourCycle: "h23",
+		hour: "2-digit",
+		minute: "2-digit",
+	}).formatToParts(date);
+	const value = (type: string) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+	return value("hour") * 60 + value("minute");
+}
+
+export function isQuietTime(quietHours: QuietHours | null, now: Date): boolean {
+	if (!quietHours || quietHours.start === quietHours.end) {
+		return false;
+	}
+	const minutes = minutesInTimeZone(now, quietHours.timeZone);
+	return quietHours.start < quietHours.end
+		? minutes >= quietHours.start && minutes < quietHours.end
+		: minutes >= quietHours.start || minutes < quietHours.end;
+}
+
+export function toQuietHours(user: {
+	quietHoursStart: number | null;
+	quietHoursEnd: number | null;
+	timeZone: string | null;
+}): QuietHours | null {
+	if (user.quietHoursStart === null || user.quietHoursEnd === null) {
+		return null;
+	}
+	return { start: user.quietHoursStart, end: user.quietHoursEnd, timeZone: user.timeZone ?? "UTC" };
+}
+
+/**
+ * Channels for every notification type, filling in defaults for types the user never changed
+ */
+export async function loadNotificationChannels(
+	prisma: PrismaClient,
+	userId: number
+): Promise<Record<NotificationType, NotificationChannels>> {
+	const rows = await prisma.notificationPreference.findMany({ where: { userId } });
+	return Object.fromEntries(
+		NOTIFICATION_TYPES.map((type) => {
+			const row = rows.find((r) => r.type === type);
+			const channels = row
+				? { toast: row.toast, center: row.center, emailDigest: row.emailDigest }
+				: DEFAULT_NOTIFICATION_CHANNELS;
+			return [type, channels];
+		})
+	) as Record<NotificationType, NotificationChannels>;
+}
+
+export const notificationSelect = {
+	id: true,
+	userId: true,
+	type: true,
+	title: true,
+	message: true,
+	postId: true,
+	commentId: true,
+	createdAt: true,
+	readAt: true,
+	actor: { select: { id: true, username: true } },
+	post: { select: { title: true } },
+} as const;
+
+type NotificationRow = {
+	id: number;
+	userId: number;
+	type: string;
+	title: string | null;
+	message: string | null;
+	postId: number | null;
+	commentId: number | null;
+	createdAt: Date;
+	readAt: Date | null;
+	actor: { id: number; username: string } | null;
+	post: { title: string } | null;
+};
+
+/**
+ * A notification kept in the notification center
+ */
+export type NotificationItem = Omit<NotificationEvent, "id" | "toast"> & { id: number };
+
+export function toNotificationItem({ post, ...row }: NotificationRow): NotificationItem {
+	return {
+		...row,
+		type: row.type as NotificationType,
+		postTitle: post?.title ?? null,
+	};
+}
+
+/**
+ * Deliver notifications according to each recipient's preferences, in batches of
+ * NOTIFICATIONS.BATCH_SIZE. Notifications are stored only when the notification center
+ * is on, and dropped when both the center and toasts are off. Returns the events to push;
+ * `toast` is false during the recipient's quiet hours.
+ */
+export async function deliverNotifications(
+	prisma: PrismaClient,
+	inputs: NotificationInput[],
+	now = new Date()
+): Promise<NotificationEvent[]> {
+	const delivered: NotificationEvent[] = [];
+	for (let i = 0; i < inputs.length; i += NOTIFICATIONS.BATCH_SIZE) {
+		const batch = inputs.slice(i, i + NOTIFICATIONS.BATCH_SIZE);
+		const userIds = [...new Set(batch.map((input) => input.userId))];
+		const [preferences, recipients] = await Promise.all([
+			prisma.notificationPreference.findMany({
+				where: { userId: { in: userIds }, type: { in: batch.map((input) => input.type) } },
+			}),
+			prisma.user.findMany({
+				where: { id: { in: userIds } },
+				select: { id: true, quietHoursStart: true, quietHoursEnd: true, timeZone: true },
+			}),
+		]);
+		const quiet = new Set(
+			recipients.filter((user) => isQuietTime(toQuietHours(user), now)).map((user) => user.id)
+		);
+
+		const stored: { input: NotificationInput; toast: boolean }[] = [];
+		const toastOnly: NotificationInput[] = [];
+		for (const input of batch) {
+			const channels =
+				preferences.find((p) => p.userId === input.userId && p.type === input.type) ??
+				DEFAULT_NOTIFICATION_CHANNELS;
+			const toast = channels.toast && !quiet.has(input.userId);
+			if (channels.center) {
+				stored.push({ input, toast });
+			} else if (toast) {
+				toastOnly.push(input);
+			}
+		}
+
+		const rows = await prisma.$transaction(
+			stored.map(({ input }) =>
+				prisma.notification.create({ data: input, select: notificationSelect })
+			)
+		);
+		rows.forEach((row, index) => {
+			delivered.push({ ...toNotificationItem(row), toast: stored[index].toast });
+		});
+		delivered.push(...(await buildToastOnlyEvents(prisma, toastOnly, now)));
+	}
+	return delivered;
+}
+
+// Events for recipients who turned off the notification center: nothing is stored,
+// so the actor and post title are looked up directly
+async function buildToastOnlyEvents(
+	prisma: PrismaClient,
+	inputs: NotificationInput[],
+	now: Date
+): Promise<NotificationEvent[]> {
+	if (inputs.length === 0) {
+		return [];
+	}
+	const ids = (key: "actorId" | "postId") =>
+		inputs.map((input) => input[key]).filter((id): id is number => typeof id === "number");
+	const [actors, posts] = await Promise.all([
+		prisma.user.findMany({
+			where: { id: { in: ids("actorId") } },
+			select: { id: true, username: true },
+		}),
+		prisma.post.findMany({
+			where: { id: { in: ids("postId") } },
+			select: { id: true, title: true },
+		}),
+	]);
+	return inputs.map((input) => ({
+		id: null,
+		userId: input.userId,
+		type: input.type,
+		title: input.title ?? null,
+		message: input.message ?? null,
+		postId: input.postId ?? null,
+		commentId: input.commentId ?? null,
+		postTitle: posts.find((post) => post.id === input.postId)?.title ?? null,
+		actor: actors.find((actor) => actor.id === input.actorId) ?? null,
+		createdAt: now,
+		readAt: null,
+		toast: true,
+	}));
+}
+
+/**
+ * Delete notifications older than NOTIFICATION_RETENTION_DAYS, then the oldest ones of
+ * users holding more than MAX_NOTIFICATIONS_PER_USER. Returns the number deleted.
+ */
+export async function pruneNotifications(prisma: PrismaClient, now = new Date()): Promise<number> {
+	const cutoff = new Date(now.getTime() - NOTIFICATIONS.NOTIFICATION_RETENTION_DAYS * 86_400_000);
+	const expired = await prisma.notification.deleteMany({ where: { createdAt: { lt: cutoff } } });
+	let deleted = expired.count;
+
+	const overLimit = await prisma.notification.groupBy({
+		by: ["userId"],
+		_count: { id: true },
+		having: { id: { _count: { gt: NOTIFICATIONS.MAX_NOTIFICATIONS_PER_USER } } },
+	});
+	for (const { userId } of overLimit) {
+		const keep = await prisma.notification.findMany({
+			where: { userId },
+			orderBy: { id: "desc" },
+			take: NOTIFICATIONS.MAX_NOTIFICATIONS_PER_USER,
+			select: { id: true },
+		});
+		const overflow = await prisma.notification.deleteMany({
+			where: { userId, id: { lt: keep[keep.length - 1].id } },
+		});
+		deleted += overflow.count;
+	}
+	return deleted;
+}
@@ -0,0 +1,119 @@
+/**
+ * Helpers for emoji reactions on posts and comments
+ */
+
+import { Prisma, type PrismaClient } from "@prisma/client";
+
+/**
+ * Emoji that can be used as reactions, in display order
+ */
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "🎉", "😮", "😢"] as const;
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+
+export type ReactionTargetType = "post" | "comment";
+
+export type ReactionSummary = {
+	emoji: string;
+	count: number;
+	reacted: boolean; // Whether the requesting user is one of the reactors
+};
+
+/**
+ * Group per-emoji counts by target, marking the emoji the viewer reacted with.
+ * Summaries follow the order of REACTION_EMOJIS; targets without reactions are absent.
+ */
+export function summarizeReactions(
+	counts: { targetId: number; emoji: string; count: number }[],
+	own: { targetId: number; emoji: string }[]
+): Map<number, ReactionSummary[]> {
+	const reacted = new Set(own.map((r) => `${r.targetId}:${r.emoji}`));
+	const order = (emoji: string) => {
+		const index = REACTION_EMOJIS.indexOf(emoji as ReactionEmoji);
+		return index === -1 ? REACTION_EMOJIS.length : index;
+	};
+
+	const summaries = new Map<number, ReactionSummary[]>();
+	for (const { targetId, emoji, count } of counts) {
+		if (count === 0) continue;
+		const list = summaries.get(targetId) ?? [];
+		list.push({ emoji, count, reacted: reacted.has(`${targetId}:${emoji}`) });
+		summaries.set(targetId, list);
+	}
+	for (const list of summaries.values()) {
+		list.sort((a, b) => order(a.emoji) - order(b.emoji));
+	}
+	return summaries;
+}
+
+/**
+ * Load reaction summaries for the given targets as seen by `viewerId`
+ */
+export async function loadReactionSummaries(
+	prisma: PrismaClient,
+	targetType: ReactionTargetType,
+	targetIds: number[],
+	viewerId: number | undefined
+): Promise<Map<number, ReactionSummary[]>> {
+	if (targetIds.length === 0) return new Map();
+	const where = { targetType, targetId: { in: targetIds } };
+	const [groups, own] = await Promise.all([
+		prisma.reaction.groupBy({
+			by: ["targetId", "emoji"],
+			where,
+			_count: { _all: true },
+		}),
+		viewerId
+			? prisma.reaction.findMany({
+					where: { ...where, userId: viewerId },
+					select: { targetId: true, emoji: true },
+				})
+			: Promise.resolve([]),
+	]);
+	return summarizeReactions(
+		groups.map((g) => ({ targetId: g.targetId, emoji: g.emoji, count: g._count._all })),
+		own
+	);
+}
+
+export type ReactionKey = {
+	userId: number;
+	targetType: ReactionTargetType;
+	targetId: number;
+	emoji: string;
+};
+
+/**
+ * Remove the user's reaction, or add it when there was none. Concurrent toggles (a double
+ * click, two tabs) can both find no reaction; the one losing the race to the unique
+ * constraint counts as already reacted and reports no change, so nothing is announced twice.
+ */
+export async function toggleReaction(
+	prisma: PrismaClient,
+	key: ReactionKey
+): Promise<{ reacted: boolean; changed: boolean }> {
+	const { count } = await prisma.reaction.deleteMany({ where: key });
+	if (count > 0) {
+		return { reacted: false, changed: true };
+	}
+	try {
+		await prisma.reaction.create({ data: key });
+		return { reacted: true, changed: true };
+	} catch (error) {
+		if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+			return { reacted: true, changed: false };
+		}
+		throw error;
+	}
+}
+
+/**
+ * Delete reactions whose post or comment no longer exists (after a purge)
+ */
+export async function pruneOrphanedReactions(prisma: PrismaClient): Promise<number> {
+	return prisma.$executeRaw`
+		DELETE FROM "Reaction"
+		WHERE ("targetType" = 'post' AND "targetId" NOT IN (SELECT "id" FROM "Post"))
+		   OR ("targetType" = 'comment' AND "targetId" NOT IN (SELECT "id" FROM "Comment"))
+	`;
+}
@@ -1,16 +1,26 @@
 /**
  * Text sanitization utilities
+ *
+ * These only normalize input. Plain text is escaped when rendered, and Markdown bodies
+ * are made safe by the allowlist in `markdown.ts` when they are rendered to HTML.
  */
 
+const CONTROL_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g;
+
 // Remove control chars except tab/newline; trim and collapse whitespace
-// Also remove potential XSS vectors
 export function sanitizeText(input: string): string {
 	return input
-		.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, " ")
+		.replace(CONTROL_CHARS, " ")
 		.replace(/\s{2,}/g, " ")
-		.replace(/<script[^>]*>.*?<\/script>/gi, "") // Remove script tags
-		.replace(/<iframe[^>]*>.*?<\/iframe>/gi, "") // Remove iframes
-		.replace(/on\w+\s*=/gi, "") // Remove event handlers
-		.replace(/javascript:/gi, "") // Remove javascript: protocol
 		.trim();
 }
+
+// Normalize Markdown source: unify line endings and remove control chars, keeping
+// line breaks and indentation; leading blank lines and trailing whitespace are dropped
+export function normalizeMarkdown(input: string): string {
+	return input
+		.replace(/\r\n?/g, "\n")
+		.replace(CONTROL_CHARS, " ")
+		.replace(/^(?:[ \t]*\n)+/, "")
+		.trimEnd();
+}
@@ -0,0 +1,37 @@
+/**
+ * Helpers for post tags
+ */
+
+import { TAG_MAX_LENGTH } from "../constants/limits.js";
+
+/**
+ * Normalize a single tag: NFKC, lowercase, leading "#" removed, whitespace
+ * collapsed to "-" and anything but letters, digits, "-" and "_" dropped.
+ * Returns an empty string when nothing usable is left.
+ */
+export function normalizeTag(raw: string): string {
+	return raw
+		.normalize("NFKC")
+		.toLowerCase()
+		.trim()
+		.replace(/^#+/, "")
+		.replace(/\s+/g, "-")
+		.replace(/[^\p{L}\p{N}_-]/gu, "")
+		.replace(/-{2,}/g, "-")
+		.replace(/^-|-$/g, "")
+		.slice(0, TAG_MAX_LENGTH);
+}
+
+/**
+ * Normalize a list of tags, dropping empty entries and duplicates while keeping input order
+ */
+export function normalizeTags(raw: string[]): string[] {
+	const tags: string[] = [];
+	for (const value of raw) {
+		const tag = normalizeTag(value);
+		if (tag && !tags.includes(tag)) {
+			tags.push(tag);
+		}
+	}
+	return tags;
+}
@@ -1,8 +1,12 @@
 import { BBSPage } from "@pages/BBSPage"
+import { BoardManagementPage } from "@pages/BoardManagementPage"
 import { ComponentsDemoPage } from "@pages/ComponentsDemoPage"
+import { MessagesPage } from "@pages/MessagesPage"
 import { NotificationDemoPage } from "@pages/NotificationDemoPage"
+import { NotificationSettingsPage } from "@pages/NotificationSettingsPage"
 import { TetrisPage } from "@pages/TetrisPage"
 import { TopPage } from "@pages/TopPage"
+import { TrashPage } from "@pages/TrashPage"
 import { UserManagementPage } from "@pages/UserManagementPage"
 import { Route, Routes } from "react-router-dom"
 import Layout from "./components/layout/Layout"
@@ -17,9 +21,14 @@ export function App({ trpcClient }: AppProps) {
 			<Route element={<Layout />}>
 				<Route path="/" element={<TopPage />} />
 				<Route path="/bbs" element={<BBSPage />} />
+				<Route path="/bbs/:boardSlug" element={<BBSPage />} />
+				<Route path="/messages" element={<MessagesPage />} />
 				<Route path="/user-management" element={<UserManagementPage />} />
+				<Route path="/admin/boards" element={<BoardManagementPage />} />
+				<Route path="/admin/trash" element={<TrashPage />} />
 				<Route path="/components-demo" element={<ComponentsDemoPage />} />
 				<Route path="/notification-demo" element={<NotificationDemoPage />} />
+				<Route path="/settings/notifications" element={<NotificationSettingsPage />} />
 				<Route path="/tetris" element={<TetrisPage />} />
 			</Route>
 		</Routes>
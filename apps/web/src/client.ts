@@ -1,6 +1,7 @@
 import { createTRPCProxyClient, createWSClient, wsLink } from "@trpc/client"
 import { loggerLink } from "@trpc/client/links/loggerLink"
 import superjson from "superjson"
+import { TIMEOUTS, WEBSOCKET_CLOSE_CODES } from "./constants"
 import { api } from "./trpc"
 import type { AppRouter } from "../../api/src/routers/index"
 import type { CreateTRPCProxyClient } from "@trpc/client"
@@ -10,6 +11,84 @@ export type TrpcClientConnection = {
 	proxyClient: CreateTRPCProxyClient<AppRouter>
 	close: () => void
 	getWsClient: () => ReturnType<typeof createWSClient>
+	// 更新したアクセストークンを接続を張り直さずにサーバーへ渡す（再接続時もこのトークンを使う）
+	reauthenticate: (token: string) => Promise<void>
+}
+
+type JsonRpcMessage = {
+	id?: number | string | null
+	method?: string
+	params?: { input?: { json?: unknown } }
+	result?: { type?: string; data?: { json?: unknown } }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value)
+
+/**
+ * 認証ハンドシェイク（サーバーの auth.handshake の呼び出し）。サーバーはこのメッセージの
+ * トークンで接続のコンテキストを作る。応答は待たない（ID が購読や問い合わせと重ならないので無視される）
+ */
+const createHandshakeMessage = (token: string) =>
+	JSON.stringify({
+		id: "auth",
+		jsonrpc: "2.0",
+		method: "mutation",
+		params: { path: "auth.handshake", input: { json: { token } } },
+	})
+
+/**
+ * 再開可能な購読（サーバーの RoomMessage を送る購読）の再開位置を購読ごとに覚えておく。
+ * wsClient は再接続後に購読を最初の入力のまま再送するので、送信時に入力へ lastEventId を
+ * 差し込み、サーバーに取りこぼした分を再送させる。
+ */
+function createResumeTracker() {
+	// 購読のリクエストID → 最後に受け取ったメッセージのID
+	const lastEventIds = new Map<JsonRpcMessage["id"], string | undefined>()
+
+	const resume = (message: JsonRpcMessage): JsonRpcMessage => {
+		if (message.method === "subscription.stop") {
+			lastEventIds.delete(message.id)
+			return message
+		}
+		if (message.method !== "subscription") {
+			return message
+		}
+		const lastEventId = lastEventIds.get(message.id)
+		if (lastEventId === undefined) {
+			lastEventIds.set(message.id, undefined)
+			return message
+		}
+		const input = message.params?.input
+		// 入力なし（undefined）の購読は lastEventId だけのオブジェクトを送る
+		const json = isRecord(input?.json) ? { ...input.json, lastEventId } : { lastEventId }
+		return {
+			...message,
+			params: { ...message.params, input: isRecord(input?.json) ? { ...input, json } : { json } },
+		}
+	}
+
+	return {
+		sending(data: string): string {
+			const parsed = JSON.parse(data) as JsonRpcMessage | JsonRpcMessage[]
+			return JSON.stringify(Array.isArray(parsed) ? parsed.map(resume) : resume(parsed))
+		},
+		received(data: unknown) {
+			if (typeof data !== "string") {
+				return
+			}
+			const message = JSON.parse(data) as JsonRpcMessage
+			const json = message.result?.type === "data" ? message.result.data?.json : undefined
+			if (
+				lastEventIds.has(message.id) &&
+				isRecord(json) &&
+				(json.type === "event" || json.type === "ready") &&
+				typeof json.id === "string"
+			) {
+				lastEventIds.set(message.id, json.id)
+			}
+		},
+	}
 }
 
 export function createTrpcClientWithToken(
@@ -17,34 +96,31 @@ export function createTrpcClientWithToken(
 	callbacks?: {
 		onOpen?: () => void
 		onClose?: (cause?: { code?: number }) => void
+		// ping に応答がなく接続を諦めたとき。呼び出し側で接続を作り直す
+		onPingTimeout?: () => void
 	}
 ): TrpcClientConnection {
 	const protocol = location.protocol === "https:" ? "wss:" : "ws:"
 	const url = `${protocol}//${location.hostname}:3001`
-	
-	// WebSocketにカスタムヘッダーを追加するためのラッパー
-	class AuthenticatedWebSocket extends WebSocket {
-		constructor(url: string | URL) {
-			// WebSocketはコンストラクタでヘッダーを受け取れないため
-			// アップグレードリクエストにAuthorizationヘッダーを追加する必要がある
-			super(url)
-			
-			// 接続前にヘッダーを追加（ブラウザAPIでは直接設定不可）
-			// 代わりにサーバー側でクエリパラメータまたはサブプロトコルから認証する
-		}
-	}
-	
+
+	const resumeTracker = createResumeTracker()
+	let currentToken = token
+
 	const wsClient = createWSClient({
 		url,
 		retryDelayMs: attempt => Math.min(1000 * 2 ** attempt, 10_000),
 		WebSocket: class extends WebSocket {
 			constructor(url: string | URL) {
-				// 接続時にカスタムヘッダーを設定できないため
-				// upgrade requestのpathに一時的にトークンを含める
-				// ただし、これはログに残らないようにする
-				const urlObj = new URL(url.toString())
-				urlObj.searchParams.set('authorization', `Bearer ${token}`)
-				super(urlObj.toString())
+				// ブラウザの WebSocket はアップグレードリクエストにヘッダーを付けられず、
+				// URL に含めるとプロキシのアクセスログに残るため、トークンは最初のメッセージで送る。
+				// wsClient より先に open を受け取るので、キューに溜まった要求より前に送られる
+				super(url)
+				this.addEventListener("open", () => this.send(createHandshakeMessage(currentToken)))
+				this.addEventListener("message", ({ data }) => resumeTracker.received(data))
+			}
+
+			send(data: string | ArrayBufferLike | Blob | ArrayBufferView) {
+				super.send(typeof data === "string" ? resumeTracker.sending(data) : data)
 			}
 		},
 		onOpen: () => {
@@ -57,7 +133,7 @@ export function createTrpcClientWithToken(
 		},
 	})
 	const loggingLink = loggerLink({
-		enabled: ({ path }) => !!path,
+		enabled: ({ path }) => !!path && path !== "ping",
 		log: ({ direction, path, durationMs, input, result }) => {
 			const logMethod = direction === "down" ? "info" : "debug"
 			console[logMethod]("tRPC", {
@@ -77,10 +153,49 @@ export function createTrpcClientWithToken(
 		links: [loggingLink, wsLink({ client: wsClient })],
 		transformer: superjson,
 	})
+
+	// アプリケーションレベルの ping。ブラウザは WebSocket の ping/pong を扱えないため、
+	// 片側だけが切れた接続（half-open）は close イベントが届かないまま残る。
+	// 一定時間応答がなければ接続を閉じ、呼び出し側に接続を作り直させる
+	let pinging = false
+	const ping = async () => {
+		const connection = wsClient.getConnection()
+		if (pinging || connection.readyState !== WebSocket.OPEN) {
+			return
+		}
+		pinging = true
+		let timer: ReturnType<typeof setTimeout> | undefined
+		const timedOut = new Promise<"timeout">(resolve => {
+			timer = setTimeout(() => resolve("timeout"), TIMEOUTS.WEBSOCKET_PING_TIMEOUT)
+		})
+		try {
+			const result = await Promise.race([proxyClient.ping.query(), timedOut])
+			if (result === "timeout" && wsClient.getConnection() === connection) {
+				console.warn("WebSocket ping timed out, reconnecting", {
+					timeoutMs: TIMEOUTS.WEBSOCKET_PING_TIMEOUT,
+				})
+				connection.close(WEBSOCKET_CLOSE_CODES.PING_TIMEOUT, "Ping timeout")
+				// 応答のない接続ではクローズハンドシェイクが終わらず close イベントがいつ届くか分からないため、
+				// wsClient の再接続は待たずに新しいクライアントへ切り替えてもらう
+				callbacks?.onPingTimeout?.()
+			}
+		} catch (error) {
+			// 接続が閉じられた場合は wsClient が再接続する
+			console.debug("WebSocket ping failed", {
+				error: error instanceof Error ? error.message : String(error),
+			})
+		} finally {
+			clearTimeout(timer)
+			pinging = false
+		}
+	}
+	const pingInterval = setInterval(() => void ping(), TIMEOUTS.WEBSOCKET_PING_INTERVAL)
+
 	return {
 		client,
 		proxyClient,
 		close: () => {
+			clearInterval(pingInterval)
 			try {
 				wsClient.close()
 			} catch (error) {
@@ -90,5 +205,12 @@ export function createTrpcClientWithToken(
 			}
 		},
 		getWsClient: () => wsClient,
+		reauthenticate: async next => {
+			if (next === currentToken) {
+				return
+			}
+			currentToken = next
+			await proxyClient.auth.reauthenticate.mutate({ token: next })
+		},
 	}
 }
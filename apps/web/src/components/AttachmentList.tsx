@@ -0,0 +1,73 @@
+import React from "react"
+import { useTranslation } from "react-i18next"
+import { FiPaperclip, FiX } from "react-icons/fi"
+import type { UploadedAttachment } from "../lib/uploadClient"
+
+interface AttachmentListProps {
+	attachments: UploadedAttachment[]
+	// Shows a remove button on each attachment (used while composing)
+	onRemove?: (id: number) => void
+	className?: string
+}
+
+export const formatFileSize = (bytes: number) => {
+	if (bytes < 1024) return `${bytes} B`
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Image thumbnails and file links for a post or comment. URLs are signed by the API
+ * and expire, so they are always taken from the latest query data.
+ */
+export const AttachmentList = ({ attachments, onRemove, className = "" }: AttachmentListProps) => {
+	const { t } = useTranslation()
+
+	if (attachments.length === 0) return null
+
+	return (
+		<ul className={`flex flex-wrap gap-2 ${className}`} data-testid="attachment-list">
+			{attachments.map(attachment => (
+				<li
+					key={attachment.id}
+					className="relative flex items-center gap-2 rounded border border-gray-200 bg-gray-50 p-1"
+				>
+					<a
+						href={attachment.url}
+						target="_blank"
+						rel="noopener noreferrer"
+						className="flex items-center gap-2 font-mono text-xs text-blue-700 hover:underline"
+						title={attachment.filename}
+					>
+						{attachment.thumbnailUrl ? (
+							<img
+								src={attachment.thumbnailUrl}
+								alt={attachment.filename}
+								width={attachment.width ?? undefined}
+								height={attachment.height ?? undefined}
+								loading="lazy"
+								className="h-20 w-auto max-w-[160px] rounded object-cover"
+							/>
+						) : (
+							<>
+								<FiPaperclip aria-hidden="true" />
+								<span className="max-w-[200px] truncate">{attachment.filename}</span>
+								<span className="text-gray-500">({formatFileSize(attachment.size)})</span>
+							</>
+						)}
+					</a>
+					{onRemove && (
+						<button
+							type="button"
+							onClick={() => onRemove(attachment.id)}
+							className="p-1 text-gray-500 hover:text-red-600"
+							aria-label={t("attachment_remove", { name: attachment.filename })}
+						>
+							<FiX />
+						</button>
+					)}
+				</li>
+			))}
+		</ul>
+	)
+}
@@ -0,0 +1,105 @@
+import { createContextLogger } from "@logger"
+import React, { useRef, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { FiPaperclip } from "react-icons/fi"
+import { ATTACHMENTS } from "../constants"
+import { useNotificationContext } from "../contexts/NotificationContext"
+import { UploadError, type UploadedAttachment, uploadAttachment } from "../lib/uploadClient"
+import { AttachmentList } from "./AttachmentList"
+
+const log = createContextLogger("AttachmentPicker")
+
+interface AttachmentPickerProps {
+	attachments: UploadedAttachment[]
+	onChange: (attachments: UploadedAttachment[]) => void
+	disabled?: boolean
+	"data-testid"?: string
+}
+
+const uploadErrorKey = (error: unknown) => {
+	if (!(error instanceof UploadError)) return "attachment_upload_failed"
+	switch (error.status) {
+		case 413:
+			return "attachment_too_large"
+		case 415:
+			return "attachment_unsupported"
+		case 429:
+			return "attachment_rate_limited"
+		default:
+			return "attachment_upload_failed"
+	}
+}
+
+/**
+ * Uploads selected files right away and lists them for removal before posting.
+ * Files removed here stay unlinked on the server and are cleaned up later.
+ */
+export const AttachmentPicker = ({
+	attachments,
+	onChange,
+	disabled = false,
+	"data-testid": testId,
+}: AttachmentPickerProps) => {
+	const { t } = useTranslation()
+	const { showError } = useNotificationContext()
+	const inputRef = useRef<HTMLInputElement>(null)
+	const [uploading, setUploading] = useState(false)
+
+	const handleFiles = async (files: FileList | null) => {
+		if (!files || files.length === 0) return
+		const remaining = ATTACHMENTS.MAX_PER_POST - attachments.length
+		const selected = Array.from(files)
+		if (selected.length > remaining) {
+			showError(t("attachment_failed"), t("attachment_limit", { max: ATTACHMENTS.MAX_PER_POST }))
+		}
+
+		setUploading(true)
+		const uploaded: UploadedAttachment[] = []
+		for (const file of selected.slice(0, Math.max(remaining, 0))) {
+			if (file.size > ATTACHMENTS.MAX_SIZE_BYTES) {
+				showError(t("attachment_failed"), `${file.name}: ${t("attachment_too_large")}`)
+				continue
+			}
+			try {
+				uploaded.push(await uploadAttachment(file))
+			} catch (error) {
+				log.error("Failed to upload attachment", error)
+				showError(t("attachment_failed"), `${file.name}: ${t(uploadErrorKey(error))}`)
+			}
+		}
+		setUploading(false)
+		if (uploaded.length > 0) {
+			onChange([...attachments, ...uploaded])
+		}
+		if (inputRef.current) {
+			inputRef.current.value = ""
+		}
+	}
+
+	return (
+		<div className="space-y-2">
+			<input
+				ref={inputRef}
+				type="file"
+				multiple
+				accept={ATTACHMENTS.ACCEPT}
+				className="hidden"
+				onChange={e => handleFiles(e.target.files)}
+				data-testid={testId}
+			/>
+			<button
+				type="button"
+				onClick={() => inputRef.current?.click()}
+				disabled={disabled || uploading || attachments.length >= ATTACHMENTS.MAX_PER_POST}
+				className="flex items-center gap-1 font-mono text-xs text-gray-600 hover:text-blue-600 disabled:opacity-50"
+			>
+				<FiPaperclip aria-hidden="true" />
+				{uploading ? t("attachment_uploading") : t("attachment_add")}
+			</button>
+			<AttachmentList
+				attachments={attachments}
+				onRemove={id => onChange(attachments.filter(attachment => attachment.id !== id))}
+			/>
+		</div>
+	)
+}
@@ -0,0 +1,19 @@
+import React from "react"
+import { cn } from "../lib/utils"
+
+interface MarkdownContentProps {
+	html: string
+	className?: string
+}
+
+/**
+ * Renders Markdown bodies. `html` must come from the API, which renders the Markdown
+ * source and filters it through its allowlist sanitizer before sending it.
+ */
+export const MarkdownContent = ({ html, className }: MarkdownContentProps) => (
+	<div
+		className={cn("markdown-body", className)}
+		// biome-ignore lint/security/noDangerouslySetInnerHtml: sanitized by the API allowlist
+		dangerouslySetInnerHTML={{ __html: html }}
+	/>
+)
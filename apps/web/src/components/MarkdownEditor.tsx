@@ -0,0 +1,187 @@
+import React, { type KeyboardEvent, useRef, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { api } from "../trpc"
+import { MarkdownContent } from "./MarkdownContent"
+import { Textarea } from "./ui/Textarea"
+
+interface MarkdownEditorProps {
+	value: string
+	onChange: (value: string) => void
+	id?: string
+	name?: string
+	placeholder?: string
+	rows?: number
+	className?: string
+	"data-testid"?: string
+}
+
+// "@partial" directly before the caret, not part of an e-mail address or URL
+const MENTION_QUERY = /(?:^|[^\w@./\\])@([A-Za-z0-9_-]{1,50})$/
+
+const mentionQueryAt = (text: string, caret: number) =>
+	MENTION_QUERY.exec(text.slice(0, caret))?.[1] ?? ""
+
+/**
+ * Textarea with a Write / Preview toggle. The preview is rendered by the API so it
+ * matches what is shown after posting. Typing @name suggests matching usernames.
+ */
+export const MarkdownEditor = ({
+	value,
+	onChange,
+	rows = 4,
+	className = "",
+	"data-testid": testId,
+	...props
+}: MarkdownEditorProps) => {
+	const { t } = useTranslation()
+	const [mode, setMode] = useState<"write" | "preview">("write")
+	const textareaRef = useRef<HTMLTextAreaElement>(null)
+	const [mentionQuery, setMentionQuery] = useState("")
+	const [highlighted, setHighlighted] = useState(0)
+	const preview = api.markdown.preview.useQuery(
+		{ source: value },
+		{ enabled: mode === "preview" && value.trim().length > 0, staleTime: 60_000 }
+	)
+
+	const userSuggestions = api.users.search.useQuery(
+		{ q: mentionQuery },
+		{ enabled: mode === "write" && mentionQuery.length > 0, staleTime: 30_000 }
+	)
+	const suggestions = mentionQuery ? (userSuggestions.data ?? []) : []
+
+	const updateMentionQuery = (text: string, caret: number) => {
+		const query = mentionQueryAt(text, caret)
+		if (query !== mentionQuery) {
+			setMentionQuery(query)
+			setHighlighted(0)
+		}
+	}
+
+	const applyMention = (username: string) => {
+		const caret = textareaRef.current?.selectionStart ?? value.length
+		const before = value.slice(0, caret - mentionQuery.length)
+		const after = value.slice(caret)
+		const inserted = `${username} `
+		onChange(before + inserted + after)
+		setMentionQuery("")
+		const position = before.length + inserted.length
+		requestAnimationFrame(() => {
+			textareaRef.current?.focus()
+			textareaRef.current?.setSelectionRange(position, position)
+		})
+	}
+
+	const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+		if (suggestions.length === 0) return
+		switch (e.key) {
+			case "ArrowDown":
+				e.preventDefault()
+				setHighlighted(index => (index + 1) % suggestions.length)
+				break
+			case "ArrowUp":
+				e.preventDefault()
+				setHighlighted(index => (index - 1 + suggestions.length) % suggestions.length)
+				break
+			case "Enter":
+			case "Tab":
+				e.preventDefault()
+				applyMention(suggestions[Math.min(highlighted, suggestions.length - 1)].username)
+				break
+			case "Escape":
+				e.preventDefault()
+				setMentionQuery("")
+				break
+		}
+	}
+
+	const tabClass = (active: boolean) =>
+		`font-mono text-xs px-3 py-1 rounded-t border border-b-0 ${
+			active ? "bg-white border-gray-300 font-bold" : "bg-gray-100 border-transparent text-gray-600"
+		}`
+
+	return (
+		<div className={className}>
+			<div className="flex gap-1">
+				<button
+					type="button"
+					onClick={() => setMode("write")}
+					className={tabClass(mode === "write")}
+					aria-pressed={mode === "write"}
+				>
+					{t("markdown_write")}
+				</button>
+				<button
+					type="button"
+					onClick={() => setMode("preview")}
+					className={tabClass(mode === "preview")}
+					aria-pressed={mode === "preview"}
+					data-testid={testId ? `${testId}-preview-tab` : undefined}
+				>
+					{t("markdown_preview")}
+				</button>
+			</div>
+			{mode === "write" ? (
+				<div className="relative">
+					<Textarea
+						{...props}
+						ref={textareaRef}
+						value={value}
+						onChange={e => {
+							onChange(e.target.value)
+							updateMentionQuery(e.target.value, e.target.selectionStart)
+						}}
+						onSelect={e =>
+							updateMentionQuery(e.currentTarget.value, e.currentTarget.selectionStart)
+						}
+						onKeyDown={handleKeyDown}
+						onBlur={() => setMentionQuery("")}
+						className="font-mono rounded-tl-none"
+						rows={rows}
+						aria-autocomplete="list"
+						data-testid={testId}
+					/>
+					{suggestions.length > 0 && (
+						<ul
+							aria-label={t("mention_suggestions")}
+							className="absolute left-0 z-20 mt-1 max-h-48 w-56 overflow-auto rounded border border-gray-200 bg-white shadow"
+							data-testid={testId ? `${testId}-mentions` : undefined}
+						>
+							{suggestions.map((user, index) => (
+								<li key={user.id}>
+									<button
+										type="button"
+										aria-current={index === highlighted}
+										// Keep focus in the textarea so the caret position is preserved
+										onMouseDown={e => {
+											e.preventDefault()
+											applyMention(user.username)
+										}}
+										className={`w-full px-3 py-1 text-left font-mono text-sm ${
+											index === highlighted ? "bg-blue-100" : "hover:bg-gray-100"
+										}`}
+									>
+										@{user.username}
+									</button>
+								</li>
+							))}
+						</ul>
+					)}
+				</div>
+			) : (
+				<div
+					className="min-h-[80px] rounded-md rounded-tl-none border border-input bg-white px-3 py-2 text-sm"
+					data-testid={testId ? `${testId}-preview` : undefined}
+				>
+					{!value.trim() ? (
+						<p className="font-mono text-gray-500">{t("markdown_nothing_to_preview")}</p>
+					) : preview.data ? (
+						<MarkdownContent html={preview.data.html} />
+					) : (
+						<p className="font-mono text-gray-500">{t("loading")}</p>
+					)}
+				</div>
+			)}
+			<p className="font-mono text-xs text-gray-500 mt-1">{t("markdown_hint")}</p>
+		</div>
+	)
+}
@@ -0,0 +1,51 @@
+import React from "react"
+import { useTranslation } from "react-i18next"
+import type { PresenceUser } from "../hooks/usePresence"
+
+const AVATAR_COLORS = [
+	"bg-blue-500",
+	"bg-green-500",
+	"bg-purple-500",
+	"bg-pink-500",
+	"bg-yellow-500",
+	"bg-indigo-500",
+]
+
+interface PresenceAvatarsProps {
+	users: PresenceUser[]
+	max?: number
+	className?: string
+}
+
+/**
+ * Overlapping initials of the users viewing something, with the rest summarized as "+N"
+ */
+export const PresenceAvatars = ({ users, max = 5, className = "" }: PresenceAvatarsProps) => {
+	const { t } = useTranslation()
+	if (users.length === 0) return null
+
+	const shown = users.slice(0, max)
+	const hidden = users.length - shown.length
+
+	return (
+		<div
+			className={`flex items-center ${className}`}
+			aria-label={t("viewing_now", { count: users.length })}
+			title={users.map(user => user.username).join(", ")}
+			data-testid="presence-avatars"
+		>
+			{shown.map(user => (
+				<span
+					key={user.id}
+					className={`-ml-1 first:ml-0 w-6 h-6 rounded-full border-2 border-white text-white text-xs font-bold flex items-center justify-center ${
+						AVATAR_COLORS[user.id % AVATAR_COLORS.length]
+					}`}
+					title={user.username}
+				>
+					{user.username.charAt(0).toUpperCase()}
+				</span>
+			))}
+			{hidden > 0 && <span className="ml-1 font-mono text-xs text-gray-600">+{hidden}</span>}
+		</div>
+	)
+}
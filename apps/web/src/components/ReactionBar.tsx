@@ -0,0 +1,82 @@
+import React, { useState } from "react"
+import { useTranslation } from "react-i18next"
+import { FiSmile } from "react-icons/fi"
+import { REACTIONS } from "../constants"
+
+export interface ReactionSummary {
+	emoji: string
+	count: number
+	reacted: boolean
+}
+
+interface ReactionBarProps {
+	reactions: ReactionSummary[]
+	onToggle: (emoji: (typeof REACTIONS.EMOJIS)[number]) => void
+	disabled?: boolean
+	className?: string
+}
+
+export const ReactionBar = ({
+	reactions,
+	onToggle,
+	disabled = false,
+	className = "",
+}: ReactionBarProps) => {
+	const { t } = useTranslation()
+	const [pickerOpen, setPickerOpen] = useState(false)
+
+	const handleToggle = (emoji: (typeof REACTIONS.EMOJIS)[number]) => {
+		setPickerOpen(false)
+		onToggle(emoji)
+	}
+
+	return (
+		<div className={`flex flex-wrap items-center gap-1 ${className}`} data-testid="reaction-bar">
+			{reactions.map(reaction => (
+				<button
+					type="button"
+					key={reaction.emoji}
+					onClick={() => handleToggle(reaction.emoji as (typeof REACTIONS.EMOJIS)[number])}
+					disabled={disabled}
+					aria-pressed={reaction.reacted}
+					className={`font-mono text-xs px-2 py-0.5 rounded-full border ${
+						reaction.reacted
+							? "bg-blue-50 border-blue-400 text-blue-700"
+							: "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+					}`}
+					data-testid="reaction-button"
+				>
+					{reaction.emoji} {reaction.count}
+				</button>
+			))}
+			<div className="relative">
+				<button
+					type="button"
+					onClick={() => setPickerOpen(open => !open)}
+					disabled={disabled}
+					className="p-1 text-gray-500 hover:text-blue-600"
+					aria-label={t("add_reaction")}
+					aria-expanded={pickerOpen}
+					data-testid="reaction-picker-button"
+				>
+					<FiSmile />
+				</button>
+				{pickerOpen && (
+					<div className="absolute z-10 mt-1 flex gap-1 bg-white border border-gray-300 rounded shadow p-1">
+						{REACTIONS.EMOJIS.map(emoji => (
+							<button
+								type="button"
+								key={emoji}
+								onClick={() => handleToggle(emoji)}
+								className="px-1 text-lg hover:bg-gray-100 rounded"
+								data-testid="reaction-picker-option"
+							>
+								{emoji}
+							</button>
+						))}
+					</div>
+				)}
+			</div>
+		</div>
+	)
+}
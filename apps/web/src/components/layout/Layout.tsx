@@ -1,6 +1,10 @@
 import { getMenuData } from "@/constants/menu"
 import { useAuth } from "@/contexts/AuthContext"
+import { useNotificationContext } from "@/contexts/NotificationContext"
 import { useIsMobile } from "@/hooks/useIsMobile"
+import { useOnlineUsers } from "@/hooks/usePresence"
+import { useServerNotifications } from "@/hooks/useServerNotifications"
+import { api } from "@/trpc"
 import React, { useState, useEffect, useMemo } from "react"
 import { useTranslation } from "react-i18next"
 import { FaBars, FaChevronRight } from "react-icons/fa"
@@ -15,7 +19,14 @@ import Tooltip from "../ui/Tooltip"
 const Layout = () => {
 	const { t } = useTranslation()
 	const { logout, isAdmin } = useAuth()
-	const menuData = useMemo(() => getMenuData(isAdmin), [isAdmin])
+	const boards = api.boards.list.useQuery(undefined, {
+		staleTime: 60_000,
+		refetchOnWindowFocus: false,
+	})
+	const menuData = useMemo(() => getMenuData(isAdmin, boards.data), [isAdmin, boards.data])
+	useServerNotifications()
+	const { unreadCount } = useNotificationContext()
+	const onlineUsers = useOnlineUsers()
 	const [dropdownOpen, setDropdownOpen] = useState(false)
 	const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
 	const isMobile = useIsMobile()
@@ -49,6 +60,17 @@ const Layout = () => {
 							</Link>
 						</div>
 						<div className="flex items-center space-x-4">
+							{onlineUsers.length > 0 && (
+								<Tooltip text={onlineUsers.map(user => user.username).join(", ")}>
+									<span
+										className="flex items-center gap-1 text-sm text-gray-600"
+										data-testid="online-indicator"
+									>
+										<span className="w-2 h-2 rounded-full bg-green-500" aria-hidden="true" />
+										{t("online_now", { count: onlineUsers.length })}
+									</span>
+								</Tooltip>
+							)}
 							<LanguageSelector className="mr-4" id="language-selector" />
 							<div className="relative">
 								<Tooltip text={t("click_for_details", "クリックで詳細表示")}>
@@ -59,6 +81,15 @@ const Layout = () => {
 										type="button"
 									>
 										<FiUser className="text-xl text-gray-700" />
+										{unreadCount > 0 && (
+											<span
+												className="absolute -top-1 -right-1 min-w-[20px] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center"
+												aria-label={t("unread_notifications", { count: unreadCount })}
+												data-testid="notification-badge"
+											>
+												{unreadCount > 99 ? "99+" : unreadCount}
+											</span>
+										)}
 									</button>
 								</Tooltip>
 								<Drawer isOpen={dropdownOpen} onClose={() => setDropdownOpen(false)} width="w-96">
@@ -73,7 +104,10 @@ const Layout = () => {
 										</div>
 
 										<div className="flex-1 min-h-0 flex flex-col">
-											<NotificationPanel isVisible={dropdownOpen} />
+											<NotificationPanel
+												isVisible={dropdownOpen}
+												onNavigate={() => setDropdownOpen(false)}
+											/>
 										</div>
 
 										<div className="pt-4 border-t border-gray-200">
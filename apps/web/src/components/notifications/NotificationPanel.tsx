@@ -1,34 +1,82 @@
-import { useNotificationContext } from "@/contexts/NotificationContext"
+import { api } from "@/trpc"
+import { createContextLogger } from "@logger"
 import React from "react"
 import { useTranslation } from "react-i18next"
 import {
+	FaAt,
 	FaBell,
-	FaCheckCircle,
-	FaExclamationCircle,
-	FaExclamationTriangle,
-	FaInfoCircle,
+	FaBullhorn,
+	FaCheckDouble,
+	FaCog,
+	FaReply,
+	FaSmile,
 	FaTimes,
-	FaTrash,
 } from "react-icons/fa"
+import { useNavigate } from "react-router-dom"
 import Tooltip from "../ui/Tooltip"
+import {
+	type ServerNotification,
+	describeNotification,
+	notificationLink,
+} from "./serverNotification"
+const log = createContextLogger("NotificationPanel")
 const typeIcons = {
-	info: FaInfoCircle,
-	success: FaCheckCircle,
-	warning: FaExclamationTriangle,
-	error: FaExclamationCircle,
+	mention: FaAt,
+	reply: FaReply,
+	reaction: FaSmile,
+	broadcast: FaBullhorn,
 }
 const typeColors = {
-	info: "text-blue-600 bg-blue-50 border-blue-200",
-	success: "text-green-600 bg-green-50 border-green-200",
-	warning: "text-yellow-600 bg-yellow-50 border-yellow-200",
-	error: "text-red-600 bg-red-50 border-red-200",
+	mention: "text-blue-600",
+	reply: "text-green-600",
+	reaction: "text-pink-600",
+	broadcast: "text-yellow-600",
 }
-export const NotificationPanel = ({ isVisible = true }) => {
+/**
+ * Notification center backed by notifications.list. New notifications are added to the
+ * same query cache by useServerNotifications.
+ */
+export const NotificationPanel = ({ isVisible = true, onNavigate = () => {} }) => {
 	const { t, i18n } = useTranslation()
-	const { toasts, removeNotification, clearAllToasts } = useNotificationContext()
+	const navigate = useNavigate()
+	const utils = api.useUtils()
+	const notifications = api.notifications.list.useQuery(undefined, {
+		enabled: isVisible,
+		staleTime: 60_000,
+	})
+	const updateCache = (
+		unreadCount: number,
+		update: (items: ServerNotification[]) => ServerNotification[]
+	) => {
+		utils.notifications.list.setData(undefined, old =>
+			old ? { ...old, items: update(old.items), unreadCount } : old
+		)
+	}
+	const markRead = api.notifications.markRead.useMutation({
+		onSuccess: ({ unreadCount }, { ids }) =>
+			updateCache(unreadCount, items =>
+				items.map(item =>
+					ids.includes(item.id) && !item.readAt ? { ...item, readAt: new Date() } : item
+				)
+			),
+		onError: error => log.error("Failed to mark notification as read", error),
+	})
+	const markAllRead = api.notifications.markAllRead.useMutation({
+		onSuccess: ({ unreadCount }) =>
+			updateCache(unreadCount, items =>
+				items.map(item => (item.readAt ? item : { ...item, readAt: new Date() }))
+			),
+		onError: error => log.error("Failed to mark notifications as read", error),
+	})
+	const deleteNotification = api.notifications.delete.useMutation({
+		onSuccess: ({ unreadCount }, { id }) =>
+			updateCache(unreadCount, items => items.filter(item => item.id !== id)),
+		onError: error => log.error("Failed to delete notification", error),
+	})
 	if (!isVisible) return null
-	const formatTime = dateString => {
-		const date = new Date(dateString)
+	const items = notifications.data?.items ?? []
+	const unreadCount = notifications.data?.unreadCount ?? 0
+	const formatTime = (date: Date) => {
 		const now = new Date()
 		const diffMs = now.getTime() - date.getTime()
 		const diffMins = Math.floor(diffMs / (1000 * 60))
@@ -38,78 +86,119 @@ export const NotificationPanel = ({ isVisible = true }) => {
 		const locale = i18n.language === "ja" ? "ja-JP" : "en-US"
 		return date.toLocaleDateString(locale, { month: "short", day: "numeric" })
 	}
+	const handleOpen = (notification: ServerNotification) => {
+		if (!notification.readAt) {
+			markRead.mutate({ ids: [notification.id] })
+		}
+		const link = notificationLink(notification)
+		if (link) {
+			navigate(link)
+			onNavigate()
+		}
+	}
 	return (
 		<div className="w-full h-full bg-gray-100 overflow-hidden flex flex-col">
-			{/* ヘッダー - 一括削除ボタン */}
-			{toasts.length > 0 && (
-				<div className="w-full bg-white border-b border-gray-200 px-4 py-2 flex justify-between items-center">
-					<h3 className="text-sm font-medium text-gray-700">{t("notifications", "通知")}</h3>
-					<Tooltip text={t("clear_all", "全て削除")}>
+			{/* ヘッダー - 一括既読ボタン */}
+			<div className="w-full bg-white border-b border-gray-200 px-4 py-2 flex justify-between items-center">
+				<h3 className="text-sm font-medium text-gray-700">
+					{t("notifications", "通知")}
+					{unreadCount > 0 && (
+						<span className="ml-2 text-xs text-red-600">
+							{t("unread_notifications", { count: unreadCount })}
+						</span>
+					)}
+				</h3>
+				<div className="flex items-center">
+					<Tooltip text={t("notification_settings")}>
+						<button
+							type="button"
+							onClick={() => {
+								navigate("/settings/notifications")
+								onNavigate()
+							}}
+							className="p-2 text-gray-600 hover:bg-gray-100 rounded transition-colors"
+							aria-label={t("notification_settings")}
+						>
+							<FaCog className="w-3 h-3" />
+						</button>
+					</Tooltip>
+					<Tooltip text={t("mark_all_read")}>
 						<button
-							onClick={clearAllToasts}
-							className="flex items-center space-x-1 px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded transition-colors"
-							aria-label="Clear all notifications"
+							type="button"
+							onClick={() => markAllRead.mutate()}
+							disabled={unreadCount === 0 || markAllRead.isPending}
+							className="flex items-center space-x-1 px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded transition-colors disabled:opacity-50"
+							data-testid="notifications-mark-all-read"
 						>
-							<FaTrash className="w-3 h-3" />
-							<span>{t("clear_all", "全て削除")}</span>
+							<FaCheckDouble className="w-3 h-3" />
+							<span>{t("mark_all_read")}</span>
 						</button>
 					</Tooltip>
 				</div>
-			)}
+			</div>
 			{/* 通知一覧 */}
 			<div className="w-full flex-1 overflow-y-auto">
-				{toasts.length === 0 ? (
+				{items.length === 0 ? (
 					<div className="w-full h-full flex items-center justify-center">
 						<div className="text-center">
 							<FaBell className="w-12 h-12 mx-auto text-gray-300" />
-							<p className="text-sm text-gray-500 mt-2">{t("no_notifications")}</p>
+							<p className="text-sm text-gray-500 mt-2">
+								{notifications.isLoading ? t("loading") : t("no_notifications")}
+							</p>
 						</div>
 					</div>
 				) : (
-					<div className="w-full space-y-2 p-2">
-						{toasts.map(notification => {
+					<ul className="w-full space-y-2 p-2" data-testid="notification-list">
+						{items.map(notification => {
 							const Icon = typeIcons[notification.type]
-							const colors = typeColors[notification.type]
+							const { title, message } = describeNotification(t, notification)
 							return (
-								<div
+								<li
 									key={notification.id}
-									className={`w-full p-3 rounded-lg border ${colors} shadow-sm relative group`}
+									className={`w-full p-3 rounded-lg border shadow-sm relative group ${
+										notification.readAt ? "bg-white border-gray-200" : "bg-blue-50 border-blue-200"
+									}`}
 								>
 									<div className="flex items-start space-x-3">
-										<Icon className={`w-4 h-4 mt-0.5 ${colors.split(" ")[0]}`} />
-										<div className="flex-1 min-w-0">
-											<div className="flex items-center justify-between">
-												<h4 className="text-sm font-medium truncate">{notification.title}</h4>
-												<div className="flex items-center space-x-2 flex-shrink-0 ml-2">
-													<span className="text-xs text-gray-500">
-														{formatTime(notification.createdAt || new Date().toISOString())}
-													</span>
-													<Tooltip text={t("delete", "削除")}>
-														<button
-															onClick={() => removeNotification(notification.id)}
-															className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-white/50 rounded"
-															aria-label="Delete notification"
-														>
-															<FaTimes className="w-3 h-3 text-gray-500 hover:text-red-600" />
-														</button>
-													</Tooltip>
-												</div>
-											</div>
-											<p className="text-sm text-gray-700 mt-1">{notification.message}</p>
+										<Icon className={`w-4 h-4 mt-0.5 ${typeColors[notification.type]}`} />
+										<button
+											type="button"
+											onClick={() => handleOpen(notification)}
+											className="flex-1 min-w-0 text-left"
+										>
+											<h4 className={`text-sm truncate ${notification.readAt ? "" : "font-bold"}`}>
+												{title}
+											</h4>
+											<p className="text-sm text-gray-700 mt-1">{message}</p>
+										</button>
+										<div className="flex items-center space-x-2 flex-shrink-0 ml-2">
+											<span className="text-xs text-gray-500">
+												{formatTime(notification.createdAt)}
+											</span>
+											<Tooltip text={t("delete", "削除")}>
+												<button
+													type="button"
+													onClick={() => deleteNotification.mutate({ id: notification.id })}
+													className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-white/50 rounded"
+													aria-label={t("delete", "削除")}
+												>
+													<FaTimes className="w-3 h-3 text-gray-500 hover:text-red-600" />
+												</button>
+											</Tooltip>
 										</div>
 									</div>
-								</div>
+								</li>
 							)
 						})}
-					</div>
+					</ul>
 				)}
 			</div>
 
 			{/* フッター */}
-			{toasts.length > 0 && (
+			{items.length > 0 && (
 				<div className="w-full bg-gray-50 border-t border-gray-200 text-center py-2">
 					<p className="text-xs text-gray-500">
-						{t("notification_count", { count: toasts.length })}
+						{t("notification_count", { count: items.length })}
 					</p>
 				</div>
 			)}
@@ -0,0 +1,62 @@
+import type { TFunction } from "i18next"
+
+/**
+ * Notification as returned by notifications.list / onNotification
+ */
+export type ServerNotification = {
+	id: number
+	userId: number
+	type: "mention" | "reply" | "reaction" | "broadcast"
+	title: string | null
+	message: string | null
+	postId: number | null
+	commentId: number | null
+	postTitle: string | null
+	actor: { id: number; username: string } | null
+	createdAt: Date
+	readAt: Date | null
+}
+
+/**
+ * Title and message shown in the toast and the notification center
+ */
+export const describeNotification = (
+	t: TFunction,
+	notification: Pick<ServerNotification, "type" | "title" | "message" | "postTitle" | "actor">
+) => {
+	const params = {
+		user: notification.actor?.username ?? "",
+		title: notification.postTitle ?? "",
+	}
+	switch (notification.type) {
+		case "broadcast":
+			return {
+				title: notification.title ?? t("broadcast_notification_title"),
+				message: notification.message ?? "",
+			}
+		case "reaction":
+			return {
+				title: t("reaction_notification_title"),
+				message: t("reaction_notification_message", {
+					...params,
+					emoji: notification.message ?? "",
+				}),
+			}
+		case "reply":
+			return {
+				title: t("reply_notification_title"),
+				message: t("reply_notification_message", params),
+			}
+		default:
+			return {
+				title: t("mention_notification_title"),
+				message: t("mention_notification_message", params),
+			}
+	}
+}
+
+/**
+ * Page the notification refers to, if any
+ */
+export const notificationLink = (notification: ServerNotification) =>
+	notification.postId ? `/bbs?post=${notification.postId}` : null
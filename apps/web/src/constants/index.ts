@@ -19,10 +19,19 @@ export const TIMEOUTS = {
 	DEBOUNCE_DELAY: 300,
 	API_REQUEST_TIMEOUT: 10000,
 	WEBSOCKET_RECONNECT_DELAY: 2000,
+	WEBSOCKET_PING_INTERVAL: 25000, // 25 seconds
+	WEBSOCKET_PING_TIMEOUT: 10000, // 応答がなければ接続を張り直す
 	AUTO_SAVE_INTERVAL: 30000, // 30 seconds
 	SESSION_WARNING: 300000, // 5 minutes before expiry
 } as const
 
+// WebSocket の close コード。4000 番台はサーバー（apps/api の WEBSOCKET_CLOSE_CODES）と同じ値
+export const WEBSOCKET_CLOSE_CODES = {
+	PING_TIMEOUT: 3008, // クライアントが ping に応答のない接続を閉じた
+	TOKEN_EXPIRED: 4003, // 更新されないままアクセストークンの期限が切れた
+	SESSION_TERMINATED: 4004, // 管理者がユーザーの全セッションを終了した
+} as const
+
 export const SPACING = {
 	XS: 4, // 0.25rem
 	SM: 8, // 0.5rem
@@ -46,6 +55,34 @@ export const VALIDATION = {
 	MAX_COMMENT_LENGTH: 1000,
 } as const
 
+export const COMMENT_THREADS = {
+	MAX_DEPTH: 5, // Must match MAX_COMMENT_DEPTH in the API
+} as const
+
+export const REACTIONS = {
+	EMOJIS: ["👍", "❤️", "😂", "🎉", "😮", "😢"], // Must match REACTION_EMOJIS in the API
+} as const
+
+export const TYPING = {
+	THROTTLE_MS: 4000, // Resend typing.start at most this often; the API expires it after 8 s
+} as const
+
+export const DIRECT_MESSAGES = {
+	MAX_MEMBERS: 10, // Including yourself; must match MAX_CONVERSATION_MEMBERS in the API
+	MESSAGE_MAX_LENGTH: 2000, // Must match MESSAGE_MAX_LENGTH in the API
+} as const
+
+export const TAGS = {
+	MAX_PER_POST: 5, // Must match MAX_TAGS_PER_POST in the API
+	POPULAR_LIMIT: 15,
+} as const
+
+export const ATTACHMENTS = {
+	MAX_PER_POST: 10, // Must match MAX_ATTACHMENTS_PER_POST in the API
+	MAX_SIZE_BYTES: 10 * 1024 * 1024, // Must match BUSINESS_RULES.MAX_UPLOAD_SIZE in the API
+	ACCEPT: "image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain",
+} as const
+
 export const UI = {
 	SIDEBAR_WIDTH: 280,
 	HEADER_HEIGHT: 64,
@@ -1,5 +1,35 @@
-export const getMenuData = (isAdmin: boolean) => {
-	const baseMenuData = [
+export type MenuBoard = {
+	id: number
+	name: string
+	slug: string
+	parentId: number | null
+}
+
+type MenuNode = {
+	id: string
+	label: string
+	labelKey?: string
+	path: string
+	children?: MenuNode[]
+}
+
+// Nest boards under their parents; boards arrive already sorted by position
+const buildBoardNodes = (boards: MenuBoard[], parentId: number | null = null): MenuNode[] =>
+	boards
+		.filter(board => board.parentId === parentId)
+		.map(board => {
+			const children = buildBoardNodes(boards, board.id)
+			return {
+				id: `board-${board.id}`,
+				label: board.name,
+				path: `/bbs/${board.slug}`,
+				children: children.length > 0 ? children : undefined,
+			}
+		})
+
+export const getMenuData = (isAdmin: boolean, boards: MenuBoard[] = []) => {
+	const boardNodes = buildBoardNodes(boards)
+	const baseMenuData: MenuNode[] = [
 		{
 			id: "top",
 			label: "Top",
@@ -11,6 +41,19 @@ export const getMenuData = (isAdmin: boolean) => {
 			label: "BBS",
 			labelKey: "bbs",
 			path: "/bbs",
+			children: boardNodes.length > 0 ? boardNodes : undefined,
+		},
+		{
+			id: "messages",
+			label: "Messages",
+			labelKey: "messages",
+			path: "/messages",
+		},
+		{
+			id: "notification-settings",
+			label: "Notification Settings",
+			labelKey: "notification_settings",
+			path: "/settings/notifications",
 		},
 		{
 			id: "components-demo",
@@ -32,17 +75,29 @@ export const getMenuData = (isAdmin: boolean) => {
 		},
 	]
 
-	// Add user management only for admin users
+	// Add user management, boards and trash only for admin users
 	if (isAdmin) {
 		return [
-			...baseMenuData.slice(0, 2), // top, bbs
+			...baseMenuData.slice(0, 3), // top, bbs, messages
 			{
 				id: "user-management",
 				label: "User Management",
 				labelKey: "user_management",
 				path: "/user-management",
 			},
-			...baseMenuData.slice(2), // remaining items
+			{
+				id: "board-management",
+				label: "Boards",
+				labelKey: "board_management",
+				path: "/admin/boards",
+			},
+			{
+				id: "trash",
+				label: "Trash",
+				labelKey: "trash",
+				path: "/admin/trash",
+			},
+			...baseMenuData.slice(3), // remaining items
 		]
 	}
 
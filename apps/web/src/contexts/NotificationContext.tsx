@@ -1,7 +1,8 @@
 import { createContextLogger } from "@logger"
 import React, { createContext, useContext, useReducer, useCallback } from "react"
 const log = createContextLogger("NotificationContext")
-// Initial state
+// Initial state. unreadCount mirrors the server-side notification center
+// (set by useServerNotifications); toasts are local and not persisted.
 const initialState = {
 	toasts: [],
 	isNotificationCenterOpen: false,
@@ -28,7 +29,6 @@ function notificationReducer(state, action) {
 			return {
 				...state,
 				toasts: updatedToasts,
-				unreadCount: state.unreadCount + 1,
 			}
 		}
 		case "HIDE_TOAST": {
@@ -0,0 +1,61 @@
+import { api } from "@/trpc"
+
+export interface PresenceUser {
+	id: number
+	username: string
+}
+
+const byName = (a: PresenceUser, b: PresenceUser) => a.username.localeCompare(b.username)
+
+// Add or remove a user, keeping the list ordered by username like the server does
+const setMember = (users: PresenceUser[], user: PresenceUser, member: boolean) => {
+	const others = users.filter(u => u.id !== user.id)
+	return member ? [...others, user].sort(byName) : others
+}
+
+/**
+ * Users currently connected, kept up to date from presence.onChange
+ */
+export const useOnlineUsers = (): PresenceUser[] => {
+	const utils = api.useUtils()
+	const presence = api.presence.list.useQuery({}, { refetchOnWindowFocus: false })
+
+	api.presence.onChange.useSubscription(
+		{},
+		{
+			onData: ({ user, online }) => {
+				utils.presence.list.setData({}, old =>
+					old ? { ...old, online: setMember(old.online, user, online) } : old
+				)
+			},
+		}
+	)
+
+	return presence.data?.online ?? []
+}
+
+/**
+ * Users viewing a post. While mounted with a postId the current user counts as a viewer too;
+ * the subscription is re-established after reconnecting, so viewing state survives it.
+ */
+export const usePostViewers = (postId: number | null): PresenceUser[] => {
+	const utils = api.useUtils()
+	const input = { postId: postId ?? 0 }
+	const viewers = api.presence.list.useQuery(input, {
+		enabled: !!postId,
+		refetchOnWindowFocus: false,
+	})
+
+	api.presence.onChange.useSubscription(input, {
+		enabled: !!postId,
+		onData: ({ user, postIds }) => {
+			utils.presence.list.setData(input, old =>
+				old
+					? { ...old, viewers: setMember(old.viewers, user, postIds.includes(input.postId)) }
+					: old
+			)
+		},
+	})
+
+	return postId ? (viewers.data?.viewers ?? []) : []
+}
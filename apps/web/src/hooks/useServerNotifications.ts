@@ -0,0 +1,57 @@
+import { useNotificationContext } from "@/contexts/NotificationContext"
+import { onRoomMessage } from "@/lib/roomMessages"
+import { api } from "@/trpc"
+import { createContextLogger } from "@logger"
+import { useEffect } from "react"
+import { useTranslation } from "react-i18next"
+import { describeNotification } from "../components/notifications/serverNotification"
+
+const log = createContextLogger("useServerNotifications")
+
+/**
+ * Keeps the notification center in sync with the API: loads stored notifications,
+ * mirrors the unread count into NotificationContext and shows pushed notifications
+ * as toasts when the user's preferences allow it. Mount once inside the authenticated layout.
+ */
+export const useServerNotifications = () => {
+	const { t } = useTranslation()
+	const utils = api.useUtils()
+	const { addNotification, setUnreadCount } = useNotificationContext()
+	const notifications = api.notifications.list.useQuery(undefined, {
+		staleTime: 60_000,
+		refetchOnWindowFocus: false,
+	})
+
+	const unreadCount = notifications.data?.unreadCount
+	useEffect(() => {
+		if (unreadCount !== undefined) {
+			setUnreadCount(unreadCount)
+		}
+	}, [unreadCount, setUnreadCount])
+
+	// Notifications missed while disconnected are replayed (toasts included); reload the list
+	// when they no longer can be
+	const reload = () => void utils.notifications.list.invalidate()
+	api.notifications.onNotification.useSubscription(undefined, {
+		onData: onRoomMessage(reload, ({ toast, ...notification }) => {
+			log.debug("Notification received", { id: notification.id, type: notification.type })
+			// Notifications without an id were not kept because the notification center is off
+			const { id } = notification
+			if (id !== null) {
+				utils.notifications.list.setData(undefined, old =>
+					old && !old.items.some(item => item.id === id)
+						? {
+								...old,
+								items: [{ ...notification, id }, ...old.items],
+								unreadCount: old.unreadCount + 1,
+							}
+						: old
+				)
+			}
+			// The server turns toasts off per the user's preferences and quiet hours
+			if (toast) {
+				addNotification({ type: "info", ...describeNotification(t, notification) })
+			}
+		}),
+	})
+}
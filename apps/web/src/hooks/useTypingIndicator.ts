@@ -0,0 +1,57 @@
+import { TYPING } from "@/constants"
+import { api } from "@/trpc"
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { PresenceUser } from "./usePresence"
+
+/**
+ * Typing indicators for a post: the other users typing in it, and callbacks that report
+ * the current user's typing. notifyTyping can be called on every keystroke; it is throttled
+ * to one typing.start per TYPING.THROTTLE_MS, which keeps the server-side indicator alive.
+ */
+export const useTypingIndicator = (postId: number | null) => {
+	const [typingUsers, setTypingUsers] = useState<PresenceUser[]>([])
+	const lastStartedAt = useRef(0)
+	const { mutate: sendStart } = api.typing.start.useMutation()
+	const { mutate: sendStop } = api.typing.stop.useMutation()
+
+	api.typing.onChange.useSubscription(
+		{ postId: postId ?? 0 },
+		{
+			enabled: !!postId,
+			onData: ({ user, typing }) => {
+				setTypingUsers(users => {
+					const others = users.filter(u => u.id !== user.id)
+					return typing ? [...others, user] : others
+				})
+			},
+		}
+	)
+
+	const notifyTyping = useCallback(() => {
+		if (!postId) return
+		const now = Date.now()
+		if (now - lastStartedAt.current < TYPING.THROTTLE_MS) return
+		lastStartedAt.current = now
+		sendStart({ postId })
+	}, [postId, sendStart])
+
+	const notifyStopped = useCallback(() => {
+		if (!postId || lastStartedAt.current === 0) return
+		lastStartedAt.current = 0
+		sendStop({ postId })
+	}, [postId, sendStop])
+
+	// Start over for another thread, and stop typing in the one being left
+	useEffect(() => {
+		setTypingUsers([])
+		if (!postId) return
+		return () => {
+			if (lastStartedAt.current !== 0) {
+				lastStartedAt.current = 0
+				sendStop({ postId })
+			}
+		}
+	}, [postId, sendStop])
+
+	return { typingUsers, notifyTyping, notifyStopped }
+}
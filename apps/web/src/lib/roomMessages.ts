@@ -0,0 +1,17 @@
+import type { RoomMessage } from "../../../api/src/core/rooms/index"
+
+/**
+ * onData handler for resumable room subscriptions (comments, reactions, notifications, DMs).
+ * Events are passed to onEvent. After a reconnect the server replays what was missed, or
+ * says it cannot; onResync then reloads what the subscription keeps up to date.
+ * The ids to resume from are tracked by the WebSocket client (client.ts).
+ */
+export function onRoomMessage<T>(onResync: () => void, onEvent: (data: T) => void) {
+	return (message: RoomMessage<T>) => {
+		if (message.type === "event") {
+			onEvent(message.data)
+		} else if (message.resync) {
+			onResync()
+		}
+	}
+}
@@ -0,0 +1,57 @@
+import { createContextLogger } from "@logger"
+import { getStoredToken } from "./tokenStorage"
+
+const log = createContextLogger("uploadClient")
+
+export type UploadedAttachment = {
+	id: number
+	filename: string
+	mimeType: string
+	size: number
+	width: number | null
+	height: number | null
+	url: string
+	thumbnailUrl: string | null
+}
+
+/**
+ * Upload failure with the HTTP status, so callers can show a specific message
+ * (413 too large, 415 unsupported type, 429 too many uploads)
+ */
+export class UploadError extends Error {
+	constructor(
+		message: string,
+		readonly status: number
+	) {
+		super(message)
+		this.name = "UploadError"
+	}
+}
+
+/**
+ * Upload a file as an unlinked attachment; pass the returned id to posts.create / comments.add
+ */
+export async function uploadAttachment(file: File): Promise<UploadedAttachment> {
+	const token = getStoredToken()?.token
+	if (!token) {
+		throw new UploadError("Not authenticated", 401)
+	}
+
+	const response = await fetch(`/uploads?filename=${encodeURIComponent(file.name)}`, {
+		method: "POST",
+		credentials: "include",
+		headers: {
+			Authorization: `Bearer ${token}`,
+			"Content-Type": file.type || "application/octet-stream",
+		},
+		body: file,
+	})
+
+	if (!response.ok) {
+		const details = await response.text().catch(() => "")
+		log.warn("Upload failed", { status: response.status, body: details })
+		throw new UploadError("Failed to upload file", response.status)
+	}
+
+	return (await response.json()) as UploadedAttachment
+}
@@ -9,6 +9,7 @@ import { createTrpcClientWithToken, type TrpcClientConnection } from "./client"
 import { NotificationContainer } from "./components/notifications/NotificationContainer"
 import { AuthProvider } from "./contexts/AuthContext"
 import { NotificationProvider } from "./contexts/NotificationContext"
+import { WEBSOCKET_CLOSE_CODES } from "./constants"
 import { oidcConfig } from "./config/oidc"
 import { logoutFromServer, refreshAccessToken, loginWithPassword, exchangeAuthorizationCode } from "./lib/authClient"
 import { generatePkcePair, generateState } from "./lib/pkce"
@@ -30,6 +31,9 @@ const PKCE_VERIFIER_KEY = "oidc:code_verifier"
 const PKCE_STATE_KEY = "oidc:state"
 const REFRESH_GRACE_PERIOD_MS = 60_000
 const MIN_REFRESH_DELAY_MS = 15_000
+// Kept complete across reconnects by resumable subscriptions: comments and reactions of
+// the open thread, and the messages and read receipts of conversations
+const RESUMED_QUERY_PATHS = ["posts.comments.list", "dm.history"]
 
 // Check if OIDC configuration is available
 const hasSsoConfig = !!(
@@ -62,6 +66,8 @@ function AppRoot() {
 	})
 	const [user, setUser] = useState<AuthenticatedUser | null>(null)
 	const [authError, setAuthError] = useState<string | null>(null)
+	// ログイン画面に出す説明（管理者によるセッション終了など）。次にログインするまで残す
+	const [loginNotice, setLoginNotice] = useState<string | null>(null)
 	const [isAuthorizing, setIsAuthorizing] = useState(false)
 
 	const refreshTimeoutRef = useRef<number | null>(null)
@@ -139,12 +145,44 @@ function AppRoot() {
 	)
 
 	const isInitialConnectionRef = React.useRef(true)
+	// トークンの更新は接続を張り直さずに auth.reauthenticate で渡す。
+	// 接続を作り直すのは、ログイン時、トークンを渡せないまま期限が切れたとき、ping に応答がないときだけ
+	const hasToken = tokenState !== null
+	const [connectionGeneration, setConnectionGeneration] = useState(0)
+	const latestTokenRef = useRef<string | null>(null)
+	latestTokenRef.current = tokenState?.token ?? null
+
+	const handleConnectionClose = useCallback(
+		(cause?: { code?: number }) => {
+			if (cause?.code === WEBSOCKET_CLOSE_CODES.SESSION_TERMINATED) {
+				// リフレッシュトークンも失効済みなので、更新せずにログイン画面へ戻す
+				log.warn("WebSocket closed because an administrator ended all sessions")
+				clearSession()
+				setLoginNotice(
+					"An administrator signed you out of all sessions. Sign in again to continue."
+				)
+				return
+			}
+			if (cause?.code !== WEBSOCKET_CLOSE_CODES.TOKEN_EXPIRED) {
+				return
+			}
+			// 再接続も期限切れのトークンで張られるため、更新してから接続を作り直す
+			log.warn("WebSocket closed because the access token expired; refreshing")
+			void performRefresh().then(() => setConnectionGeneration(generation => generation + 1))
+		},
+		[clearSession, performRefresh]
+	)
+	// 接続はコールバックが変わっても作り直さず、常に最新のものを呼ぶ
+	const handleConnectionCloseRef = useRef(handleConnectionClose)
+	handleConnectionCloseRef.current = handleConnectionClose
 
 	const connection = useMemo<TrpcClientConnection | null>(() => {
-		if (!tokenState) {
+		const token = latestTokenRef.current
+		if (!hasToken || !token) {
 			return null
 		}
-		return createTrpcClientWithToken(tokenState.token, {
+		log.debug("Creating WebSocket connection", { generation: connectionGeneration })
+		return createTrpcClientWithToken(token, {
 			onOpen: () => {
 				// 初回接続時はスキップ（まだクエリが実行されていない）
 				if (isInitialConnectionRef.current) {
@@ -152,12 +190,38 @@ function AppRoot() {
 					isInitialConnectionRef.current = false
 					return
 				}
-				// WebSocket再接続時に全てのクエリを無効化して再取得を促す
+				// WebSocket再接続時にクエリを無効化して再取得を促す
+				// 購読が取りこぼしを再送するクエリは除く（再送できなければ購読側で再取得する）
 				log.info("WebSocket reconnected, invalidating queries")
-				queryClient.invalidateQueries()
+				queryClient.invalidateQueries({
+					predicate: query => {
+						const [path] = query.queryKey
+						return !(Array.isArray(path) && RESUMED_QUERY_PATHS.includes(path.join(".")))
+					},
+				})
 			},
+			onClose: cause => handleConnectionCloseRef.current(cause),
+			onPingTimeout: () => setConnectionGeneration(generation => generation + 1),
 		})
-	}, [tokenState?.token])
+	}, [hasToken, connectionGeneration])
+
+	const currentToken = tokenState?.token
+	useEffect(() => {
+		if (!connection || !currentToken) {
+			return
+		}
+		connection.reauthenticate(currentToken).catch(error => {
+			const message = error instanceof Error ? error.message : String(error)
+			log.warn("Failed to reauthenticate WebSocket connection; reconnecting", { message })
+			setConnectionGeneration(generation => generation + 1)
+		})
+	}, [connection, currentToken])
+
+	useEffect(() => {
+		if (hasToken) {
+			setLoginNotice(null)
+		}
+	}, [hasToken])
 
 	useEffect(() => {
 		if (!connection) {
@@ -409,6 +473,7 @@ function AppRoot() {
 						onSsoLogin={startOidcLogin}
 						isProcessing={isAuthorizing} 
 						errorMessage={authError}
+						noticeMessage={loginNotice}
 						hasSsoConfig={hasSsoConfig}
 					/>
 					<NotificationContainer />
@@ -1,21 +1,120 @@
 import { createContextLogger } from "@logger"
 import type { ColumnDef, SortingState, ColumnFiltersState } from "@tanstack/react-table"
-import React, { useMemo, useState } from "react"
+import React, { useCallback, useEffect, useMemo, useState } from "react"
 import { useTranslation } from "react-i18next"
+import { useParams, useSearchParams } from "react-router-dom"
+import { FiCornerDownRight, FiEdit, FiTrash2 } from "react-icons/fi"
+import { AttachmentList } from "../components/AttachmentList"
+import { AttachmentPicker } from "../components/AttachmentPicker"
+import { MarkdownContent } from "../components/MarkdownContent"
+import { MarkdownEditor } from "../components/MarkdownEditor"
+import { PresenceAvatars } from "../components/PresenceAvatars"
+import { ReactionBar, type ReactionSummary } from "../components/ReactionBar"
 import { Button } from "../components/ui/Button"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../components/ui/Dialog"
 import { Input } from "../components/ui/Input"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "../components/ui/Select"
 import { Table } from "../components/ui/Table"
-import { Textarea } from "../components/ui/Textarea"
+import { COMMENT_THREADS, REACTIONS, TAGS, TIMEOUTS } from "../constants"
+import { useAuth } from "../contexts/AuthContext"
 import { useNotificationContext } from "../contexts/NotificationContext"
+import { usePostViewers } from "../hooks/usePresence"
+import { useTypingIndicator } from "../hooks/useTypingIndicator"
 import i18n from "../i18n"
+import { onRoomMessage } from "../lib/roomMessages"
+import type { UploadedAttachment } from "../lib/uploadClient"
 import { api } from "../trpc"
 
 const log = createContextLogger("BBSPage")
 
+const POSTS_PAGE_SIZE = 50
+
+type CommentNode = {
+	id: number
+	parentId: number | null
+	depth: number
+	body: string
+	bodyHtml: string
+	attachments: UploadedAttachment[]
+	createdAt: Date
+	editedAt: Date | null
+	author: { id: number; username: string }
+	reactions: ReactionSummary[]
+	replyCount: number
+	nextRepliesCursor?: number
+	replies: CommentNode[]
+}
+
+// Apply an update to the comment with the given id anywhere in the reply tree
+const mapComment = (
+	nodes: CommentNode[],
+	id: number,
+	update: (node: CommentNode) => CommentNode
+): CommentNode[] =>
+	nodes.map(node =>
+		node.id === id ? update(node) : { ...node, replies: mapComment(node.replies, id, update) }
+	)
+
+// Remove a comment (and its replies) from the tree, adjusting the parent's reply count
+const removeComment = (nodes: CommentNode[], id: number): CommentNode[] =>
+	nodes
+		.filter(node => node.id !== id)
+		.map(node => {
+			const replies = removeComment(node.replies, id)
+			return {
+				...node,
+				replies,
+				replyCount: node.replyCount - (node.replies.length - replies.length),
+			}
+		})
+
+// Apply a live reaction count change; `reacted` only changes when the event is the viewer's own
+const applyReactionChange = (
+	reactions: ReactionSummary[],
+	change: { emoji: string; count: number; added: boolean },
+	isOwn: boolean
+): ReactionSummary[] => {
+	const current = reactions.find(r => r.emoji === change.emoji)
+	const reacted = isOwn ? change.added : (current?.reacted ?? false)
+	const others = reactions.filter(r => r.emoji !== change.emoji)
+	const next =
+		change.count > 0 ? [...others, { emoji: change.emoji, count: change.count, reacted }] : others
+	const order = (emoji: string) => REACTIONS.EMOJIS.indexOf(emoji as (typeof REACTIONS.EMOJIS)[number])
+	return next.sort((a, b) => order(a.emoji) - order(b.emoji))
+}
+
+// Split the comma separated tag input; the API normalizes each entry
+const parseTags = (value: string) =>
+	value
+		.split(",")
+		.map(tag => tag.trim())
+		.filter(Boolean)
+
+const appendComments = (existing: CommentNode[], incoming: CommentNode[]) => [
+	...existing,
+	...incoming.filter(c => !existing.some(e => e.id === c.id)),
+]
+
+// Pair each search snippet segment with its character offset, which keys it in the list
+const withOffsets = <T extends { text: string }>(segments: T[]) => {
+	let offset = 0
+	return segments.map(segment => {
+		const start = offset
+		offset += segment.text.length
+		return { ...segment, offset: start }
+	})
+}
+
 export function BBSPage() {
 	const { t } = useTranslation()
 	const { showSuccess, showError } = useNotificationContext()
+	const { user, isAdmin } = useAuth()
 	
 	// Debug: tRPC context確認
 	React.useEffect(() => {
@@ -26,10 +125,57 @@ export function BBSPage() {
 	const [sorting, setSorting] = useState<SortingState>([{ id: "createdAt", desc: true }])
 	const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
 	
+	const utils = api.useUtils()
+
+	// Boards: /bbs shows every board, /bbs/:boardSlug a board and its sub-boards
+	const { boardSlug } = useParams<{ boardSlug?: string }>()
+	const boards = api.boards.list.useQuery(undefined, {
+		staleTime: 60_000,
+		refetchOnWindowFocus: false,
+	})
+	const currentBoard = boards.data?.find(b => b.slug === boardSlug)
+	const currentBoardIds = useMemo(() => {
+		if (!currentBoard) return null
+		const ids = new Set([currentBoard.id])
+		for (const id of ids) {
+			for (const board of boards.data ?? []) {
+				if (board.parentId === id) ids.add(board.id)
+			}
+		}
+		return ids
+	}, [boards.data, currentBoard])
+
+	// Tags: clicking a tag narrows the list to posts carrying every selected tag
+	const [tagFilter, setTagFilter] = useState<string[]>([])
+	const popularTags = api.tags.popular.useQuery(
+		{ limit: TAGS.POPULAR_LIMIT },
+		{ staleTime: 60_000, refetchOnWindowFocus: false }
+	)
+	const toggleTagFilter = useCallback(
+		(tag: string) =>
+			setTagFilter(current =>
+				current.includes(tag) ? current.filter(name => name !== tag) : [...current, tag]
+			),
+		[]
+	)
+
+	const postsQueryInput = useMemo(
+		() => ({
+			limit: POSTS_PAGE_SIZE,
+			boardId: currentBoard?.id,
+			tags: tagFilter.length > 0 ? tagFilter : undefined,
+		}),
+		[currentBoard?.id, tagFilter]
+	)
+	const isInListing = (post: { boardId: number | null; tags: string[] }) =>
+		(!currentBoardIds || (post.boardId !== null && currentBoardIds.has(post.boardId))) &&
+		tagFilter.every(tag => post.tags.includes(tag))
+
 	// Posts data
 	const posts = api.posts.list.useQuery(
-		{ limit: 50 },
+		postsQueryInput,
 		{ 
+			enabled: !boardSlug || !!currentBoard,
 			staleTime: 60_000, 
 			refetchOnWindowFocus: false,
 		}
@@ -50,10 +196,48 @@ export function BBSPage() {
 	
 	// UI state
 	const [selectedPostId, setSelectedPostId] = useState<number | null>(null)
+	// Notifications link to /bbs?post=<id>
+	const [searchParams] = useSearchParams()
+	useEffect(() => {
+		const linkedPostId = Number(searchParams.get("post"))
+		if (Number.isInteger(linkedPostId) && linkedPostId > 0) {
+			setSelectedPostId(linkedPostId)
+		}
+	}, [searchParams])
 	const [open, setOpen] = useState(false)
 	const [title, setTitle] = useState("")
 	const [body, setBody] = useState("")
+	const [postBoardId, setPostBoardId] = useState("")
+	const [postTags, setPostTags] = useState("")
+	const [postAttachments, setPostAttachments] = useState<UploadedAttachment[]>([])
+	const [editingPostId, setEditingPostId] = useState<number | null>(null)
+	const [editingCommentId, setEditingCommentId] = useState<number | null>(null)
+	const [editingCommentBody, setEditingCommentBody] = useState("")
+	const [replyingToId, setReplyingToId] = useState<number | null>(null)
+	const [replyBody, setReplyBody] = useState("")
+	const [pendingDelete, setPendingDelete] = useState<{ type: "post" | "comment"; id: number } | null>(
+		null
+	)
 	
+	// Server-side full-text search, debounced while typing
+	const [searchTerm, setSearchTerm] = useState("")
+	const [debouncedSearch, setDebouncedSearch] = useState("")
+	useEffect(() => {
+		const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), TIMEOUTS.DEBOUNCE_DELAY)
+		return () => clearTimeout(timer)
+	}, [searchTerm])
+
+	const searchResults = api.search.query.useInfiniteQuery(
+		{ q: debouncedSearch },
+		{
+			enabled: debouncedSearch.length > 0,
+			getNextPageParam: lastPage => lastPage.nextCursor,
+			staleTime: 30_000,
+			refetchOnWindowFocus: false,
+		}
+	)
+	const searchItems = searchResults.data?.pages.flatMap(page => page.items) ?? []
+
 	// Comments
 	const comments = api.posts.comments.list.useQuery(
 		selectedPostId ? { postId: selectedPostId } : undefined,
@@ -61,15 +245,198 @@ export function BBSPage() {
 	)
 	
 	// Comment form
+	const viewers = usePostViewers(selectedPostId)
+	const { typingUsers, notifyTyping, notifyStopped } = useTypingIndicator(selectedPostId)
 	const [commentBody, setCommentBody] = useState("")
+	const [commentAttachments, setCommentAttachments] = useState<UploadedAttachment[]>([])
+
+	// Live updates: new threads and comments are pushed over the WebSocket
+	api.posts.onCreated.useSubscription(undefined, {
+		onData: post => {
+			log.debug("Post created event received", { id: post.id })
+			utils.posts.list.setData(postsQueryInput, old => {
+				if (!old || old.items.some(p => p.id === post.id) || !isInListing(post)) {
+					return old
+				}
+				return { ...old, items: [{ ...post, reactions: [] }, ...old.items] }
+			})
+		},
+		onError: e => {
+			log.error("Post subscription failed", e)
+		},
+	})
+
+	api.posts.onUpdated.useSubscription(undefined, {
+		onData: post => {
+			// Posts moved to another board or retagged leave the current listing
+			utils.posts.list.setData(postsQueryInput, old =>
+				old
+					? {
+							...old,
+							items: old.items
+								.map(p => (p.id === post.id ? { ...post, reactions: p.reactions } : p))
+								.filter(p => p.id !== post.id || isInListing(p)),
+						}
+					: old
+			)
+		},
+		onError: e => {
+			log.error("Post update subscription failed", e)
+		},
+	})
+
+	api.posts.onDeleted.useSubscription(undefined, {
+		onData: ({ id }) => {
+			utils.posts.list.setData(postsQueryInput, old =>
+				old ? { ...old, items: old.items.filter(p => p.id !== id) } : old
+			)
+			setSelectedPostId(current => (current === id ? null : current))
+		},
+		onError: e => {
+			log.error("Post delete subscription failed", e)
+		},
+	})
+
+	// Comment and reaction changes missed while disconnected are replayed; reload the thread
+	// when they no longer can be
+	const reloadThread = () => {
+		if (!selectedPostId) return
+		void utils.posts.comments.list.invalidate({ postId: selectedPostId })
+		void utils.posts.get.invalidate({ id: selectedPostId })
+	}
+
+	api.posts.comments.onAdded.useSubscription(
+		{ postId: selectedPostId ?? 0 },
+		{
+			enabled: !!selectedPostId,
+			onData: onRoomMessage(reloadThread, comment => {
+				log.debug("Comment added event received", { id: comment.id, postId: comment.postId })
+				const { postId, ...fields } = comment
+				const node: CommentNode = { ...fields, reactions: [], replyCount: 0, replies: [] }
+				utils.posts.comments.list.setData({ postId }, old => {
+					if (!old) {
+						return old
+					}
+					if (comment.parentId === null) {
+						return { ...old, items: appendComments(old.items, [node]) }
+					}
+					// Attach the reply only when the parent's replies are fully loaded
+					return {
+						...old,
+						items: mapComment(old.items, comment.parentId, parent =>
+							parent.replies.some(r => r.id === node.id)
+								? parent
+								: {
+										...parent,
+										replyCount: parent.replyCount + 1,
+										replies:
+											parent.replies.length === parent.replyCount
+												? [...parent.replies, node]
+												: parent.replies,
+									}
+						),
+					}
+				})
+			}),
+			onError: e => {
+				log.error("Comment subscription failed", e)
+			},
+		}
+	)
+
+	api.posts.comments.onUpdated.useSubscription(
+		{ postId: selectedPostId ?? 0 },
+		{
+			enabled: !!selectedPostId,
+			onData: onRoomMessage(reloadThread, comment => {
+				utils.posts.comments.list.setData({ postId: comment.postId }, old =>
+					old
+						? {
+								...old,
+								items: mapComment(old.items, comment.id, node => ({
+									...node,
+									body: comment.body,
+									bodyHtml: comment.bodyHtml,
+									attachments: comment.attachments,
+									editedAt: comment.editedAt,
+								})),
+							}
+						: old
+				)
+			}),
+			onError: e => {
+				log.error("Comment update subscription failed", e)
+			},
+		}
+	)
+
+	api.posts.comments.onDeleted.useSubscription(
+		{ postId: selectedPostId ?? 0 },
+		{
+			enabled: !!selectedPostId,
+			onData: onRoomMessage(reloadThread, ({ id, postId }) => {
+				utils.posts.comments.list.setData({ postId }, old =>
+					old ? { ...old, items: removeComment(old.items, id) } : old
+				)
+			}),
+			onError: e => {
+				log.error("Comment delete subscription failed", e)
+			},
+		}
+	)
 	
+	// Reaction counts on the open thread (post and comments)
+	api.reactions.onChanged.useSubscription(
+		{ postId: selectedPostId ?? 0 },
+		{
+			enabled: !!selectedPostId,
+			onData: onRoomMessage(reloadThread, change => {
+				const isOwn = change.userId === user?.id
+				const update = (reactions: ReactionSummary[]) =>
+					applyReactionChange(reactions, change, isOwn)
+				if (change.targetType === "post") {
+					utils.posts.list.setData(postsQueryInput, old =>
+						old
+							? {
+									...old,
+									items: old.items.map(p =>
+										p.id === change.targetId ? { ...p, reactions: update(p.reactions) } : p
+									),
+								}
+							: old
+					)
+					utils.posts.get.setData({ id: change.targetId }, old =>
+						old ? { ...old, reactions: update(old.reactions) } : old
+					)
+					return
+				}
+				utils.posts.comments.list.setData({ postId: change.postId }, old =>
+					old
+						? {
+								...old,
+								items: mapComment(old.items, change.targetId, node => ({
+									...node,
+									reactions: update(node.reactions),
+								})),
+							}
+						: old
+				)
+			}),
+			onError: e => {
+				log.error("Reaction subscription failed", e)
+			},
+		}
+	)
+
 	// Mutations
 	const createPost = api.posts.create.useMutation({
 		onSuccess: () => {
 			setTitle("")
 			setBody("")
+			setPostTags("")
+			setPostAttachments([])
 			setOpen(false)
-			posts.refetch()
+			utils.tags.popular.invalidate()
 			showSuccess(t("post_created"), t("post_created_desc"))
 			log.info("Post created successfully")
 		},
@@ -80,9 +447,14 @@ export function BBSPage() {
 	})
 	
 	const addComment = api.posts.comments.add.useMutation({
-		onSuccess: () => {
-			setCommentBody("")
-			comments.refetch()
+		onSuccess: (_data, variables) => {
+			if (variables.parentId) {
+				setReplyingToId(null)
+				setReplyBody("")
+			} else {
+				setCommentBody("")
+				setCommentAttachments([])
+			}
 			showSuccess(t("comment_posted"), t("comment_posted_desc"))
 			log.info("Comment added successfully")
 		},
@@ -92,8 +464,68 @@ export function BBSPage() {
 		},
 	})
 	
+	const updatePost = api.posts.update.useMutation({
+		onSuccess: () => {
+			closePostDialog()
+			utils.tags.popular.invalidate()
+			showSuccess(t("post_updated"), t("post_updated_desc"))
+			log.info("Post updated successfully")
+		},
+		onError: e => {
+			showError(t("post_update_failed"), e.message ?? String(e))
+			log.error("Failed to update post", e)
+		},
+	})
+
+	const toggleReaction = api.reactions.toggle.useMutation({
+		onError: e => {
+			showError(t("reaction_failed"), e.message ?? String(e))
+			log.error("Failed to toggle reaction", e)
+		},
+	})
+
+	const deletePost = api.posts.delete.useMutation({
+		onSuccess: () => {
+			setPendingDelete(null)
+			showSuccess(t("post_deleted"), t("post_deleted_desc"))
+			log.info("Post deleted successfully")
+		},
+		onError: e => {
+			showError(t("post_delete_failed"), e.message ?? String(e))
+			log.error("Failed to delete post", e)
+		},
+	})
+
+	const updateComment = api.posts.comments.update.useMutation({
+		onSuccess: () => {
+			setEditingCommentId(null)
+			setEditingCommentBody("")
+			showSuccess(t("comment_updated"), t("comment_updated_desc"))
+			log.info("Comment updated successfully")
+		},
+		onError: e => {
+			showError(t("comment_update_failed"), e.message ?? String(e))
+			log.error("Failed to update comment", e)
+		},
+	})
+
+	const deleteComment = api.posts.comments.delete.useMutation({
+		onSuccess: () => {
+			setPendingDelete(null)
+			showSuccess(t("comment_deleted"), t("comment_deleted_desc"))
+			log.info("Comment deleted successfully")
+		},
+		onError: e => {
+			showError(t("comment_delete_failed"), e.message ?? String(e))
+			log.error("Failed to delete comment", e)
+		},
+	})
+
+	// Authors can change their own content; admins can change anything
+	const canModify = (authorId: number) => isAdmin || user?.id === authorId
+
 	// Helper function to format date
-	const formatDate = (date: string) => {
+	const formatDate = (date: Date | string) => {
 		return new Date(date).toLocaleString(i18n.language === "ja" ? "ja-JP" : "en-US", {
 			year: "numeric",
 			month: "2-digit",
@@ -103,17 +535,282 @@ export function BBSPage() {
 		})
 	}
 
+	// Suggest existing tags for the entry currently being typed
+	const typedTag = postTags.split(",").pop()?.trim() ?? ""
+	const tagSuggestions = api.tags.autocomplete.useQuery(
+		{ q: typedTag },
+		{ enabled: open && typedTag.length > 0, staleTime: 30_000 }
+	)
+	const applyTagSuggestion = (tag: string) => {
+		const entries = parseTags(postTags).slice(0, -1)
+		setPostTags(`${[...entries, tag].join(", ")}, `)
+	}
+
 	// Event handlers
-	const handleCreatePost = () => {
-		createPost.mutate({ title, body })
+	const closePostDialog = () => {
+		setTitle("")
+		setBody("")
+		setPostBoardId("")
+		setPostTags("")
+		setPostAttachments([])
+		setEditingPostId(null)
+		setOpen(false)
+	}
+
+	const handleNewPost = () => {
+		setEditingPostId(null)
+		// Default to the board being viewed
+		const defaultBoard = currentBoard ?? boards.data?.[0]
+		setPostBoardId(defaultBoard ? String(defaultBoard.id) : "")
+		setOpen(true)
+	}
+
+	const handleSubmitPost = () => {
+		const boardId = Number(postBoardId)
+		const tags = parseTags(postTags)
+		const attachmentIds = postAttachments.map(attachment => attachment.id)
+		if (editingPostId) {
+			updatePost.mutate({
+				id: editingPostId,
+				boardId: boardId || undefined,
+				title,
+				body,
+				tags,
+				attachmentIds,
+			})
+		} else if (boardId) {
+			createPost.mutate({ boardId, title, body, tags, attachmentIds })
+		}
+	}
+
+	const handleEditPost = (post: {
+		id: number
+		boardId: number | null
+		tags: string[]
+		attachments: UploadedAttachment[]
+		title: string
+		body: string
+	}) => {
+		setEditingPostId(post.id)
+		setPostBoardId(post.boardId ? String(post.boardId) : "")
+		setPostTags(post.tags.join(", "))
+		setPostAttachments(post.attachments)
+		setTitle(post.title)
+		setBody(post.body)
+		setOpen(true)
+	}
+
+	const handleEditComment = (comment: { id: number; body: string }) => {
+		setEditingCommentId(comment.id)
+		setEditingCommentBody(comment.body)
+	}
+
+	const handleUpdateComment = () => {
+		if (editingCommentId) {
+			updateComment.mutate({ id: editingCommentId, body: editingCommentBody })
+		}
+	}
+
+	const handleConfirmDelete = () => {
+		if (!pendingDelete) return
+		if (pendingDelete.type === "post") {
+			deletePost.mutate({ id: pendingDelete.id })
+		} else {
+			deleteComment.mutate({ id: pendingDelete.id })
+		}
 	}
 
 	const handleAddComment = () => {
 		if (selectedPostId) {
-			addComment.mutate({ postId: selectedPostId, body: commentBody })
+			notifyStopped()
+			addComment.mutate({
+				postId: selectedPostId,
+				body: commentBody,
+				attachmentIds: commentAttachments.map(attachment => attachment.id),
+			})
+		}
+	}
+
+	const handleAddReply = (parentId: number) => {
+		if (selectedPostId) {
+			notifyStopped()
+			addComment.mutate({ postId: selectedPostId, parentId, body: replyBody })
 		}
 	}
 
+	// Load the next page of top-level comments, or of a comment's replies
+	const handleLoadMoreComments = async (parent?: CommentNode) => {
+		if (!selectedPostId) return
+		const key = { postId: selectedPostId }
+		try {
+			const page = await utils.posts.comments.list.fetch({
+				...key,
+				parentId: parent?.id,
+				cursor: parent ? parent.nextRepliesCursor : comments.data?.nextCursor,
+			})
+			utils.posts.comments.list.setData(key, old => {
+				if (!old) return old
+				if (!parent) {
+					return { items: appendComments(old.items, page.items), nextCursor: page.nextCursor }
+				}
+				return {
+					...old,
+					items: mapComment(old.items, parent.id, node => ({
+						...node,
+						replies: appendComments(node.replies, page.items),
+						nextRepliesCursor: page.nextCursor,
+					})),
+				}
+			})
+		} catch (e) {
+			showError(t("comments_load_failed"), e instanceof Error ? e.message : String(e))
+			log.error("Failed to load more comments", e)
+		}
+	}
+
+	// Render a comment with its replies indented below it
+	const renderComment = (comment: CommentNode, label = "") => (
+		<div key={comment.id} className="px-4 py-4" data-testid="comment">
+			<div className="flex items-baseline gap-4 mb-2 font-mono text-sm text-gray-600">
+				<span>
+					{label}
+					{t("name")}: {comment.author.username}
+				</span>
+				<span>{formatDate(comment.createdAt)}</span>
+				{comment.editedAt && <span className="text-xs">({t("edited")})</span>}
+				{editingCommentId !== comment.id && (
+					<span className="ml-auto flex gap-2">
+						{comment.depth < COMMENT_THREADS.MAX_DEPTH - 1 && (
+							<button
+								type="button"
+								onClick={() => {
+									setReplyingToId(comment.id)
+									setReplyBody("")
+								}}
+								className="p-1 hover:text-blue-600"
+								aria-label={t("reply")}
+								data-testid="reply-comment-button"
+							>
+								<FiCornerDownRight />
+							</button>
+						)}
+						{canModify(comment.author.id) && (
+							<>
+								<button
+									type="button"
+									onClick={() => handleEditComment(comment)}
+									className="p-1 hover:text-blue-600"
+									aria-label={t("edit")}
+									data-testid="edit-comment-button"
+								>
+									<FiEdit />
+								</button>
+								<button
+									type="button"
+									onClick={() => setPendingDelete({ type: "comment", id: comment.id })}
+									className="p-1 hover:text-red-600"
+									aria-label={t("delete")}
+									data-testid="delete-comment-button"
+								>
+									<FiTrash2 />
+								</button>
+							</>
+						)}
+					</span>
+				)}
+			</div>
+			{editingCommentId === comment.id ? (
+				<div className="space-y-2 pl-4">
+					<MarkdownEditor
+						value={editingCommentBody}
+						onChange={setEditingCommentBody}
+						rows={3}
+						data-testid="edit-comment-input"
+					/>
+					<div className="flex gap-2">
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => setEditingCommentId(null)}
+							className="font-mono"
+						>
+							{t("cancel")}
+						</Button>
+						<Button
+							size="sm"
+							onClick={handleUpdateComment}
+							disabled={!editingCommentBody || updateComment.isPending}
+							className="font-mono"
+							data-testid="update-comment-button"
+						>
+							{t("update")}
+						</Button>
+					</div>
+				</div>
+			) : (
+				<MarkdownContent html={comment.bodyHtml} className="pl-4" />
+			)}
+			<AttachmentList attachments={comment.attachments} className="pl-4 mt-2" />
+			<ReactionBar
+				reactions={comment.reactions}
+				onToggle={emoji =>
+					toggleReaction.mutate({ targetType: "comment", targetId: comment.id, emoji })
+				}
+				className="pl-4 mt-2"
+			/>
+			{replyingToId === comment.id && (
+				<div className="space-y-2 pl-4 mt-3">
+					<MarkdownEditor
+						placeholder={t("comment_placeholder")}
+						value={replyBody}
+						onChange={value => {
+							setReplyBody(value)
+							notifyTyping()
+						}}
+						rows={3}
+						data-testid="reply-input"
+					/>
+					<div className="flex gap-2">
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => setReplyingToId(null)}
+							className="font-mono"
+						>
+							{t("cancel")}
+						</Button>
+						<Button
+							size="sm"
+							onClick={() => handleAddReply(comment.id)}
+							disabled={!replyBody || addComment.isPending}
+							className="font-mono"
+							data-testid="add-reply-button"
+						>
+							{t("post")}
+						</Button>
+					</div>
+				</div>
+			)}
+			{(comment.replies.length > 0 || comment.replyCount > comment.replies.length) && (
+				<div className="mt-3 ml-6 border-l-2 border-gray-200 divide-y divide-gray-100">
+					{comment.replies.map(reply => renderComment(reply))}
+					{comment.replyCount > comment.replies.length && (
+						<div className="px-4 py-2">
+							<button
+								type="button"
+								onClick={() => handleLoadMoreComments(comment)}
+								className="font-mono text-sm text-blue-600 hover:underline"
+								data-testid="load-more-replies-button"
+							>
+								{t("load_more_replies", { count: comment.replyCount - comment.replies.length })}
+							</button>
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	)
+
 	// Table columns with enhanced features
 	const columns = useMemo<ColumnDef<any>[]>(
 		() => [
@@ -163,6 +860,27 @@ export function BBSPage() {
 					return title.toLowerCase().includes(filterValue.toLowerCase())
 				},
 			},
+			{
+				accessorKey: "tags",
+				header: () => <span className="font-mono font-semibold px-2">{t("tags")}</span>,
+				cell: info => (
+					<div className="flex flex-wrap gap-1">
+						{info.getValue<string[]>().map(tag => (
+							<button
+								type="button"
+								key={tag}
+								onClick={() => toggleTagFilter(tag)}
+								className="font-mono text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700 hover:bg-blue-100"
+								data-testid="post-tag"
+							>
+								#{tag}
+							</button>
+						))}
+					</div>
+				),
+				enableSorting: false,
+				enableColumnFilter: false,
+			},
 			{
 				accessorKey: "author",
 				header: ({ column }) => (
@@ -212,22 +930,42 @@ export function BBSPage() {
 				},
 			},
 		],
-		[t, formatDate]
+		[t, formatDate, toggleTagFilter]
 	)
 
-	// Helper to get selected post
-	const selectedPost = useMemo(
+	// Helper to get selected post; search results may point at posts outside the loaded page
+	const listedPost = useMemo(
 		() => posts.data?.items.find(p => p.id === selectedPostId),
 		[posts.data, selectedPostId]
 	)
+	const fetchedPost = api.posts.get.useQuery(
+		{ id: selectedPostId ?? 0 },
+		{ enabled: !!selectedPostId && !listedPost }
+	)
+	const selectedPost = listedPost ?? fetchedPost.data
 
 	return (
 		<div className="bg-gray-100 min-h-full">
 			<main className="max-w-6xl mx-auto px-4 py-6">
+				{/* Board header */}
+				{currentBoard && (
+					<div className="mb-4" data-testid="board-header">
+						<h1 className="text-2xl font-bold font-mono">{currentBoard.name}</h1>
+						{currentBoard.description && (
+							<p className="font-mono text-sm text-gray-600 mt-1">{currentBoard.description}</p>
+						)}
+					</div>
+				)}
+				{boardSlug && boards.isSuccess && !currentBoard && (
+					<div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-md font-mono">
+						{t("board_not_found")}
+					</div>
+				)}
+
 				{/* Header with controls */}
 				<div className="mb-6 flex flex-col gap-4 items-center justify-between sm:flex-row">
 					<div className="w-full sm:w-auto">
-						<Button onClick={() => setOpen(true)} className="font-mono w-full sm:w-auto">
+						<Button onClick={handleNewPost} className="font-mono w-full sm:w-auto">
 							{t("new_post")}
 						</Button>
 					</div>
@@ -237,14 +975,8 @@ export function BBSPage() {
 						<span className="font-mono text-sm text-gray-600 whitespace-nowrap">{t("search")}:</span>
 						<Input
 							placeholder={t("search_posts")}
-							value={(columnFilters.find(f => f.id === "title")?.value ?? "")}
-							onChange={e =>
-								setColumnFilters(
-									e.target.value
-										? [{ id: "title", value: e.target.value }]
-										: []
-								)
-							}
+							value={searchTerm}
+							onChange={e => setSearchTerm(e.target.value)}
 							className="font-mono max-w-xs"
 							data-testid="search-input"
 						/>
@@ -254,6 +986,106 @@ export function BBSPage() {
 					<div className="hidden sm:block w-full sm:w-auto"></div>
 				</div>
 
+				{/* Search Results */}
+				{debouncedSearch && (
+					<div className="mb-6 bg-white border border-gray-400" data-testid="search-results">
+						<div className="bg-gray-200 border-b border-gray-400 px-4 py-2 font-mono font-bold">
+							{t("search_results", { query: debouncedSearch })}
+						</div>
+						{searchResults.isLoading ? (
+							<div className="px-4 py-4 font-mono text-gray-500">{t("loading")}</div>
+						) : searchItems.length ? (
+							<div className="divide-y divide-gray-200">
+								{searchItems.map(item => (
+									<button
+										type="button"
+										key={`${item.type}-${item.id}`}
+										onClick={() => setSelectedPostId(item.postId)}
+										className="block w-full text-left px-4 py-3 hover:bg-blue-50"
+										data-testid="search-result"
+									>
+										<div className="flex items-baseline gap-4 font-mono text-sm text-gray-600">
+											<span className="font-bold text-blue-600">{item.title}</span>
+											{item.type === "comment" && (
+												<span className="text-xs">({t("search_in_comment")})</span>
+											)}
+											<span>{item.author.username}</span>
+											<span>{formatDate(item.createdAt)}</span>
+										</div>
+										<div className="font-mono text-sm mt-1">
+											{withOffsets(item.snippet).map(segment =>
+												segment.highlight ? (
+													<mark key={`mark-${segment.offset}`} className="bg-yellow-200">
+														{segment.text}
+													</mark>
+												) : (
+													<span key={`text-${segment.offset}`}>{segment.text}</span>
+												)
+											)}
+										</div>
+									</button>
+								))}
+							</div>
+						) : (
+							<div className="px-4 py-4 font-mono text-gray-500">{t("search_no_results")}</div>
+						)}
+						{searchResults.hasNextPage && (
+							<div className="px-4 py-3 border-t border-gray-200">
+								<button
+									type="button"
+									onClick={() => searchResults.fetchNextPage()}
+									disabled={searchResults.isFetchingNextPage}
+									className="font-mono text-sm text-blue-600 hover:underline"
+									data-testid="search-load-more-button"
+								>
+									{t("search_load_more")}
+								</button>
+							</div>
+						)}
+					</div>
+				)}
+
+				{/* Tag filter: active filters first, then popular tags */}
+				{(tagFilter.length > 0 || (popularTags.data?.length ?? 0) > 0) && (
+					<div className="mb-4 flex flex-wrap items-center gap-2" data-testid="tag-filter">
+						<span className="font-mono text-sm text-gray-600">{t("tags")}:</span>
+						{tagFilter.map(tag => (
+							<button
+								type="button"
+								key={tag}
+								onClick={() => toggleTagFilter(tag)}
+								className="font-mono text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700"
+								aria-label={t("remove_tag_filter", { tag })}
+								data-testid="active-tag-filter"
+							>
+								#{tag} ×
+							</button>
+						))}
+						{popularTags.data
+							?.filter(tag => !tagFilter.includes(tag.name))
+							.map(tag => (
+								<button
+									type="button"
+									key={tag.name}
+									onClick={() => toggleTagFilter(tag.name)}
+									className="font-mono text-xs px-2 py-1 rounded bg-white border border-gray-300 text-gray-700 hover:bg-blue-50"
+									data-testid="popular-tag"
+								>
+									#{tag.name} <span className="text-gray-400">{tag.count}</span>
+								</button>
+							))}
+						{tagFilter.length > 0 && (
+							<button
+								type="button"
+								onClick={() => setTagFilter([])}
+								className="font-mono text-xs text-blue-600 hover:underline"
+							>
+								{t("clear_tag_filter")}
+							</button>
+						)}
+					</div>
+				)}
+
 				{/* Enhanced Thread List */}
 				{posts.isError && (
 					<div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
@@ -285,9 +1117,26 @@ export function BBSPage() {
 				{selectedPost && (
 					<div className="bg-white border border-gray-400">
 						<div className="bg-gray-200 border-b border-gray-400 px-4 py-2">
-							<h2 className="font-bold font-mono">
-								{t("thread")}: {selectedPost.title}
-							</h2>
+							<div className="flex items-center justify-between gap-2">
+								<h2 className="font-bold font-mono">
+									{t("thread")}: {selectedPost.title}
+								</h2>
+								<PresenceAvatars users={viewers} />
+							</div>
+							{selectedPost.tags.length > 0 && (
+								<div className="flex flex-wrap gap-1 mt-1">
+									{selectedPost.tags.map(tag => (
+										<button
+											type="button"
+											key={tag}
+											onClick={() => toggleTagFilter(tag)}
+											className="font-mono text-xs px-2 py-0.5 rounded bg-white text-gray-700 hover:bg-blue-100"
+										>
+											#{tag}
+										</button>
+									))}
+								</div>
+							)}
 						</div>
 
 						{/* Original Post */}
@@ -297,26 +1146,63 @@ export function BBSPage() {
 									1 {t("name")}: {selectedPost.author.username}
 								</span>
 								<span>{formatDate(selectedPost.createdAt)}</span>
+								{selectedPost.editedAt && <span className="text-xs">({t("edited")})</span>}
+								{canModify(selectedPost.author.id) && (
+									<span className="ml-auto flex gap-2">
+										<button
+											type="button"
+											onClick={() => handleEditPost(selectedPost)}
+											className="p-1 hover:text-blue-600"
+											aria-label={t("edit")}
+											data-testid="edit-post-button"
+										>
+											<FiEdit />
+										</button>
+										<button
+											type="button"
+											onClick={() => setPendingDelete({ type: "post", id: selectedPost.id })}
+											className="p-1 hover:text-red-600"
+											aria-label={t("delete")}
+											data-testid="delete-post-button"
+										>
+											<FiTrash2 />
+										</button>
+									</span>
+								)}
 							</div>
-							<div className="font-mono whitespace-pre-wrap pl-4">{selectedPost.body}</div>
+							<MarkdownContent html={selectedPost.bodyHtml} className="pl-4" />
+							<AttachmentList attachments={selectedPost.attachments} className="pl-4 mt-3" />
+							<ReactionBar
+								reactions={selectedPost.reactions}
+								onToggle={emoji =>
+									toggleReaction.mutate({ targetType: "post", targetId: selectedPost.id, emoji })
+								}
+								className="pl-4 mt-3"
+							/>
 						</div>
 
 						{/* Comments */}
 						<div className="divide-y divide-gray-200">
 							{comments.isLoading ? (
 								<div className="px-4 py-8 text-center font-mono text-gray-500">{t("loading")}</div>
-							) : comments.data?.length ? (
-								comments.data.map((comment, index) => (
-									<div key={comment.id} className="px-4 py-4">
-										<div className="flex items-baseline gap-4 mb-2 font-mono text-sm text-gray-600">
-											<span>
-												{index + 2} {t("name")}: {comment.author.username}
-											</span>
-											<span>{formatDate(comment.createdAt)}</span>
+							) : comments.data?.items.length ? (
+								<>
+									{comments.data.items.map((comment, index) =>
+										renderComment(comment, `${index + 2} `)
+									)}
+									{comments.data.nextCursor && (
+										<div className="px-4 py-3">
+											<button
+												type="button"
+												onClick={() => handleLoadMoreComments()}
+												className="font-mono text-sm text-blue-600 hover:underline"
+												data-testid="load-more-comments-button"
+											>
+												{t("load_more_comments")}
+											</button>
 										</div>
-										<div className="font-mono whitespace-pre-wrap pl-4">{comment.body}</div>
-									</div>
-								))
+									)}
+								</>
 							) : (
 								<div className="px-4 py-4 font-mono text-gray-500">{t("no_comments")}</div>
 							)}
@@ -326,15 +1212,40 @@ export function BBSPage() {
 						<div className="border-t border-gray-400 bg-gray-50 px-4 py-4">
 							<div className="font-mono font-bold mb-2">{t("reply")}</div>
 							<div className="space-y-2">
-								<Textarea
+								<MarkdownEditor
 									placeholder={t("comment_placeholder")}
 									value={commentBody}
-									onChange={e => setCommentBody(e.target.value)}
-									className="font-mono"
+									onChange={value => {
+										setCommentBody(value)
+										if (value) {
+											notifyTyping()
+										} else {
+											notifyStopped()
+										}
+									}}
 									rows={4}
 									name="comment"
 									data-testid="comment-input"
 								/>
+								{typingUsers.length > 0 && (
+									<p
+										className="font-mono text-xs text-gray-500"
+										aria-live="polite"
+										data-testid="typing-indicator"
+									>
+										{t(
+											typingUsers.length === 1 ? "typing_indicator" : "typing_indicator_multiple",
+											{
+												names: typingUsers.map(user => user.username).join(", "),
+											}
+										)}
+									</p>
+								)}
+								<AttachmentPicker
+									attachments={commentAttachments}
+									onChange={setCommentAttachments}
+									data-testid="comment-attachment-input"
+								/>
 								<Button
 									onClick={handleAddComment}
 									disabled={!commentBody || addComment.isPending}
@@ -349,13 +1260,32 @@ export function BBSPage() {
 				)}
 			</main>
 
-			{/* New Post Dialog */}
-			<Dialog open={open} onOpenChange={setOpen}>
+			{/* New / Edit Post Dialog */}
+			<Dialog open={open} onOpenChange={isOpen => (isOpen ? setOpen(true) : closePostDialog())}>
 				<DialogContent>
 					<DialogHeader>
-						<DialogTitle className="font-mono">{t("new_thread")}</DialogTitle>
+						<DialogTitle className="font-mono">
+							{editingPostId ? t("edit_post") : t("new_thread")}
+						</DialogTitle>
 					</DialogHeader>
 					<div className="space-y-3">
+						<div>
+							<label htmlFor="thread-board" className="font-mono text-sm font-bold">
+								{t("board")}
+							</label>
+							<Select value={postBoardId} onValueChange={setPostBoardId}>
+								<SelectTrigger id="thread-board" className="font-mono" data-testid="post-board-select">
+									<SelectValue placeholder={t("select_board")} />
+								</SelectTrigger>
+								<SelectContent>
+									{(boards.data ?? []).map(board => (
+										<SelectItem key={board.id} value={String(board.id)} className="font-mono">
+											{board.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
 						<div>
 							<label htmlFor="thread-title" className="font-mono text-sm font-bold">
 								{t("title")}
@@ -374,28 +1304,100 @@ export function BBSPage() {
 							<label htmlFor="thread-body" className="font-mono text-sm font-bold">
 								{t("body")}
 							</label>
-							<Textarea
+							<MarkdownEditor
 								id="thread-body"
 								placeholder={t("body_placeholder")}
 								value={body}
-								onChange={e => setBody(e.target.value)}
-								className="font-mono"
+								onChange={setBody}
 								rows={6}
 								name="body"
 								data-testid="post-body-input"
 							/>
 						</div>
+						<div>
+							<span className="font-mono text-sm font-bold">{t("attachments")}</span>
+							<AttachmentPicker
+								attachments={postAttachments}
+								onChange={setPostAttachments}
+								data-testid="post-attachment-input"
+							/>
+						</div>
+						<div>
+							<label htmlFor="thread-tags" className="font-mono text-sm font-bold">
+								{t("tags")}
+							</label>
+							<Input
+								id="thread-tags"
+								placeholder={t("tags_placeholder", { max: TAGS.MAX_PER_POST })}
+								value={postTags}
+								onChange={e => setPostTags(e.target.value)}
+								className="font-mono"
+								name="tags"
+								data-testid="post-tags-input"
+							/>
+							{typedTag && (tagSuggestions.data?.length ?? 0) > 0 && (
+								<div className="flex flex-wrap gap-1 mt-1" data-testid="tag-suggestions">
+									{tagSuggestions.data?.map(tag => (
+										<button
+											type="button"
+											key={tag.name}
+											onClick={() => applyTagSuggestion(tag.name)}
+											className="font-mono text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700 hover:bg-blue-100"
+										>
+											#{tag.name}
+										</button>
+									))}
+								</div>
+							)}
+						</div>
 						<div className="flex justify-end gap-2">
-							<Button variant="outline" onClick={() => setOpen(false)} className="font-mono">
+							<Button variant="outline" onClick={closePostDialog} className="font-mono">
 								{t("cancel")}
 							</Button>
 							<Button
-								onClick={handleCreatePost}
-								disabled={!title || !body || createPost.isPending}
+								onClick={handleSubmitPost}
+								disabled={
+									!title ||
+									!body ||
+									!postBoardId ||
+									parseTags(postTags).length > TAGS.MAX_PER_POST ||
+									createPost.isPending ||
+									updatePost.isPending
+								}
 								className="font-mono"
 								data-testid="create-post-button"
 							>
-								{t("post")}
+								{editingPostId ? t("update") : t("post")}
+							</Button>
+						</div>
+					</div>
+				</DialogContent>
+			</Dialog>
+
+			{/* Delete Confirmation Dialog */}
+			<Dialog open={!!pendingDelete} onOpenChange={isOpen => !isOpen && setPendingDelete(null)}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle className="font-mono">{t("delete")}</DialogTitle>
+					</DialogHeader>
+					<div className="space-y-3">
+						<p className="font-mono">
+							{pendingDelete?.type === "post"
+								? t("confirm_delete_post")
+								: t("confirm_delete_comment")}
+						</p>
+						<div className="flex justify-end gap-2">
+							<Button variant="outline" onClick={() => setPendingDelete(null)} className="font-mono">
+								{t("cancel")}
+							</Button>
+							<Button
+								variant="destructive"
+								onClick={handleConfirmDelete}
+								disabled={deletePost.isPending || deleteComment.isPending}
+								className="font-mono"
+								data-testid="delete-confirm-button"
+							>
+								{t("delete")}
 							</Button>
 						</div>
 					</div>
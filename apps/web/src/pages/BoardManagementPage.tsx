@@ -0,0 +1,374 @@
+import { createContextLogger } from "@logger"
+import type { ColumnDef } from "@tanstack/react-table"
+import React, { useCallback, useEffect, useMemo, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { FiEdit, FiTrash2 } from "react-icons/fi"
+import { useNavigate } from "react-router-dom"
+import { Button } from "../components/ui/Button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../components/ui/Dialog"
+import { Input } from "../components/ui/Input"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "../components/ui/Select"
+import { Table } from "../components/ui/Table"
+import { Textarea } from "../components/ui/Textarea"
+import { useAuth } from "../contexts/AuthContext"
+import { useNotificationContext } from "../contexts/NotificationContext"
+import { api } from "../trpc"
+
+const log = createContextLogger("BoardManagementPage")
+
+// Radix Select does not allow an empty value, so top-level boards use a sentinel
+const NO_PARENT = "none"
+
+type Board = {
+	id: number
+	name: string
+	slug: string
+	description: string | null
+	position: number
+	parentId: number | null
+}
+
+export function BoardManagementPage() {
+	const { t } = useTranslation()
+	const { isAdmin } = useAuth()
+	const navigate = useNavigate()
+	const { showSuccess, showError } = useNotificationContext()
+	const utils = api.useUtils()
+
+	// Check admin access
+	useEffect(() => {
+		if (!isAdmin) {
+			navigate("/")
+		}
+	}, [isAdmin, navigate])
+
+	// Return null if not admin (redirect will happen)
+	if (!isAdmin) {
+		return null
+	}
+
+	const boards = api.boards.list.useQuery(undefined, {
+		staleTime: 60_000,
+		refetchOnWindowFocus: false,
+	})
+
+	// Dialog states
+	const [formOpen, setFormOpen] = useState(false)
+	const [editingBoard, setEditingBoard] = useState<Board | null>(null)
+	const [deletingBoard, setDeletingBoard] = useState<Board | null>(null)
+
+	// Form states
+	const [name, setName] = useState("")
+	const [slug, setSlug] = useState("")
+	const [description, setDescription] = useState("")
+	const [position, setPosition] = useState("0")
+	const [parentId, setParentId] = useState(NO_PARENT)
+
+	const closeForm = () => {
+		setFormOpen(false)
+		setEditingBoard(null)
+		setName("")
+		setSlug("")
+		setDescription("")
+		setPosition("0")
+		setParentId(NO_PARENT)
+	}
+
+	// Mutations
+	const createBoard = api.boards.create.useMutation({
+		onSuccess: () => {
+			closeForm()
+			utils.boards.list.invalidate()
+			showSuccess(t("board_created"), t("board_created_desc"))
+			log.info("Board created successfully")
+		},
+		onError: e => {
+			showError(t("board_failed"), e.message ?? String(e))
+			log.error("Failed to create board", e)
+		},
+	})
+
+	const updateBoard = api.boards.update.useMutation({
+		onSuccess: () => {
+			closeForm()
+			utils.boards.list.invalidate()
+			showSuccess(t("board_updated"), t("board_updated_desc"))
+			log.info("Board updated successfully")
+		},
+		onError: e => {
+			showError(t("board_failed"), e.message ?? String(e))
+			log.error("Failed to update board", e)
+		},
+	})
+
+	const deleteBoard = api.boards.delete.useMutation({
+		onSuccess: () => {
+			setDeletingBoard(null)
+			utils.boards.list.invalidate()
+			showSuccess(t("board_deleted"), t("board_deleted_desc"))
+			log.info("Board deleted successfully")
+		},
+		onError: e => {
+			showError(t("board_failed"), e.message ?? String(e))
+			log.error("Failed to delete board", e)
+		},
+	})
+
+	const boardNameById = useMemo(
+		() => new Map((boards.data ?? []).map(board => [board.id, board.name])),
+		[boards.data]
+	)
+
+	// Event handlers
+	const handleEdit = useCallback((board: Board) => {
+		setEditingBoard(board)
+		setName(board.name)
+		setSlug(board.slug)
+		setDescription(board.description ?? "")
+		setPosition(String(board.position))
+		setParentId(board.parentId ? String(board.parentId) : NO_PARENT)
+		setFormOpen(true)
+	}, [])
+
+	const handleSubmit = () => {
+		const values = {
+			name,
+			slug,
+			position: Number.parseInt(position, 10) || 0,
+			parentId: parentId === NO_PARENT ? null : Number(parentId),
+		}
+		if (editingBoard) {
+			updateBoard.mutate({ id: editingBoard.id, ...values, description: description || null })
+		} else {
+			createBoard.mutate({ ...values, description: description || undefined })
+		}
+	}
+
+	// Table columns
+	const columns = useMemo<ColumnDef<any>[]>(
+		() => [
+			{
+				accessorKey: "name",
+				header: () => <span className="font-mono">{t("board_name")}</span>,
+				cell: info => <span className="font-mono font-bold">{info.getValue<string>()}</span>,
+			},
+			{
+				accessorKey: "slug",
+				header: () => <span className="font-mono">{t("board_slug")}</span>,
+				cell: info => <span className="font-mono text-gray-600">{info.getValue<string>()}</span>,
+			},
+			{
+				accessorKey: "parentId",
+				header: () => <span className="font-mono">{t("board_parent")}</span>,
+				cell: info => {
+					const value = info.getValue<number | null>()
+					return (
+						<span className="font-mono text-gray-600">
+							{value ? (boardNameById.get(value) ?? value) : "-"}
+						</span>
+					)
+				},
+			},
+			{
+				accessorKey: "position",
+				header: () => <span className="font-mono">{t("board_position")}</span>,
+				cell: info => <span className="font-mono text-gray-600">{info.getValue<number>()}</span>,
+			},
+			{
+				id: "actions",
+				header: () => <span className="font-mono">{t("actions")}</span>,
+				cell: info => {
+					const board = info.row.original
+					return (
+						<div className="flex gap-2">
+							<Button
+								variant="default"
+								size="sm"
+								onClick={() => handleEdit(board)}
+								className="font-mono bg-gray-700 hover:bg-gray-800 text-white"
+								data-testid="edit-board-button"
+							>
+								<FiEdit className="w-4 h-4" />
+							</Button>
+							<Button
+								variant="destructive"
+								size="sm"
+								onClick={() => setDeletingBoard(board)}
+								className="font-mono"
+								data-testid="delete-board-button"
+							>
+								<FiTrash2 className="w-4 h-4" />
+							</Button>
+						</div>
+					)
+				},
+			},
+		],
+		[t, boardNameById, handleEdit]
+	)
+
+	return (
+		<div className="bg-gray-100 min-h-full">
+			<main className="max-w-6xl mx-auto px-4 py-6">
+				{/* Header */}
+				<div className="mb-6 flex items-center justify-between">
+					<h1 className="text-2xl font-bold font-mono">{t("board_management")}</h1>
+					<Button onClick={() => setFormOpen(true)} className="font-mono">
+						{t("create_board")}
+					</Button>
+				</div>
+
+				{/* Boards List */}
+				{boards.isLoading ? (
+					<div className="flex justify-center items-center h-32">
+						<p className="font-mono text-gray-600">{t("loading")}</p>
+					</div>
+				) : (
+					<Table
+						data={boards.data ?? []}
+						columns={columns}
+						pageSize={20}
+						data-testid="board-list"
+					/>
+				)}
+			</main>
+
+			{/* Create / Edit Board Dialog */}
+			<Dialog open={formOpen} onOpenChange={open => (open ? setFormOpen(true) : closeForm())}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle className="font-mono">
+							{editingBoard ? t("edit_board") : t("create_board")}
+						</DialogTitle>
+					</DialogHeader>
+					<div className="space-y-3">
+						<div>
+							<label htmlFor="board-name" className="font-mono text-sm font-bold">
+								{t("board_name")}
+							</label>
+							<Input
+								id="board-name"
+								value={name}
+								onChange={e => setName(e.target.value)}
+								className="font-mono"
+								data-testid="board-name-input"
+							/>
+						</div>
+						<div>
+							<label htmlFor="board-slug" className="font-mono text-sm font-bold">
+								{t("board_slug")}
+							</label>
+							<Input
+								id="board-slug"
+								placeholder="general"
+								value={slug}
+								onChange={e => setSlug(e.target.value)}
+								className="font-mono"
+								data-testid="board-slug-input"
+							/>
+						</div>
+						<div>
+							<label htmlFor="board-description" className="font-mono text-sm font-bold">
+								{t("board_description")}
+							</label>
+							<Textarea
+								id="board-description"
+								value={description}
+								onChange={e => setDescription(e.target.value)}
+								className="font-mono"
+								rows={3}
+								data-testid="board-description-input"
+							/>
+						</div>
+						<div className="flex gap-3">
+							<div className="flex-1">
+								<label htmlFor="board-parent" className="font-mono text-sm font-bold">
+									{t("board_parent")}
+								</label>
+								<Select value={parentId} onValueChange={setParentId}>
+									<SelectTrigger className="font-mono">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value={NO_PARENT} className="font-mono">
+											{t("board_no_parent")}
+										</SelectItem>
+										{(boards.data ?? [])
+											.filter(board => board.id !== editingBoard?.id)
+											.map(board => (
+												<SelectItem key={board.id} value={String(board.id)} className="font-mono">
+													{board.name}
+												</SelectItem>
+											))}
+									</SelectContent>
+								</Select>
+							</div>
+							<div className="w-24">
+								<label htmlFor="board-position" className="font-mono text-sm font-bold">
+									{t("board_position")}
+								</label>
+								<Input
+									id="board-position"
+									type="number"
+									min={0}
+									value={position}
+									onChange={e => setPosition(e.target.value)}
+									className="font-mono"
+								/>
+							</div>
+						</div>
+						<div className="flex justify-end gap-2">
+							<Button variant="outline" onClick={closeForm} className="font-mono">
+								{t("cancel")}
+							</Button>
+							<Button
+								onClick={handleSubmit}
+								disabled={!name || !slug || createBoard.isPending || updateBoard.isPending}
+								className="font-mono"
+								data-testid="save-board-button"
+							>
+								{editingBoard ? t("update") : t("create")}
+							</Button>
+						</div>
+					</div>
+				</DialogContent>
+			</Dialog>
+
+			{/* Delete Board Dialog */}
+			<Dialog open={!!deletingBoard} onOpenChange={open => !open && setDeletingBoard(null)}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle className="font-mono">{t("delete_board")}</DialogTitle>
+					</DialogHeader>
+					<div className="space-y-3">
+						<p className="font-mono">{t("delete_board_confirm", { name: deletingBoard?.name })}</p>
+						<div className="flex justify-end gap-2">
+							<Button
+								variant="outline"
+								onClick={() => setDeletingBoard(null)}
+								className="font-mono"
+							>
+								{t("cancel")}
+							</Button>
+							<Button
+								variant="destructive"
+								onClick={() => deletingBoard && deleteBoard.mutate({ id: deletingBoard.id })}
+								disabled={deleteBoard.isPending}
+								className="font-mono"
+								data-testid="delete-board-confirm-button"
+							>
+								{t("delete")}
+							</Button>
+						</div>
+					</div>
+				</DialogContent>
+			</Dialog>
+		</div>
+	)
+}
@@ -0,0 +1,474 @@
+import { createContextLogger } from "@logger"
+import React, { type ChangeEvent, type KeyboardEvent, useEffect, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { FiPlus, FiX } from "react-icons/fi"
+import { Button } from "../components/ui/Button"
+import { Input } from "../components/ui/Input"
+import { Textarea } from "../components/ui/Textarea"
+import { DIRECT_MESSAGES } from "../constants"
+import { useAuth } from "../contexts/AuthContext"
+import { useNotificationContext } from "../contexts/NotificationContext"
+import { onRoomMessage } from "../lib/roomMessages"
+import { api } from "../trpc"
+
+const log = createContextLogger("MessagesPage")
+
+interface Member {
+	id: number
+	username: string
+}
+
+interface Message {
+	id: number
+	conversationId: number
+	body: string
+	createdAt: Date
+	sender: Member | null // null once the sender's account is deleted
+}
+
+const formatDate = (value: Date | string) => {
+	return new Date(value).toLocaleString()
+}
+
+// Group conversations show their title; others the names of the other members
+const conversationName = (
+	conversation: { title: string | null; members: Member[] },
+	userId: number | undefined
+) =>
+	conversation.title ??
+	conversation.members
+		.filter(member => member.id !== userId)
+		.map(member => member.username)
+		.join(", ")
+
+const prependMessage = <T extends { items: Message[] }>(page: T | undefined, message: Message) =>
+	page && !page.items.some(item => item.id === message.id)
+		? { ...page, items: [message, ...page.items] }
+		: page
+
+interface NewConversationFormProps {
+	onCreated: (conversationId: number) => void
+	onCancel: () => void
+}
+
+function NewConversationForm({ onCreated, onCancel }: NewConversationFormProps) {
+	const { t } = useTranslation()
+	const { user } = useAuth()
+	const { showError } = useNotificationContext()
+	const [query, setQuery] = useState("")
+	const [members, setMembers] = useState<Member[]>([])
+	const [title, setTitle] = useState("")
+
+	const search = api.users.search.useQuery(
+		{ q: query.trim() },
+		{ enabled: query.trim().length > 0, staleTime: 30_000 }
+	)
+	const candidates = (search.data ?? []).filter(
+		candidate => candidate.id !== user?.id && !members.some(member => member.id === candidate.id)
+	)
+	const isFull = members.length >= DIRECT_MESSAGES.MAX_MEMBERS - 1
+
+	const create = api.dm.create.useMutation({
+		onSuccess: ({ id }) => onCreated(id),
+		onError: error => {
+			log.error("Failed to create conversation", error)
+			showError(t("conversation_create_failed"), error.message)
+		},
+	})
+
+	const addMember = (member: Member) => {
+		setMembers(current => [...current, member])
+		setQuery("")
+	}
+
+	return (
+		<div className="border-b border-gray-300 p-3 space-y-2" data-testid="new-conversation-form">
+			<div className="flex flex-wrap gap-1">
+				{members.map(member => (
+					<span
+						key={member.id}
+						className="flex items-center gap-1 rounded bg-blue-100 px-2 py-0.5 font-mono text-xs"
+					>
+						{member.username}
+						<button
+							type="button"
+							onClick={() => setMembers(current => current.filter(m => m.id !== member.id))}
+							aria-label={`${t("remove")}: ${member.username}`}
+						>
+							<FiX />
+						</button>
+					</span>
+				))}
+			</div>
+			<Input
+				value={query}
+				onChange={(e: ChangeEvent<HTMLInputElement>) => setQuery(e.target.value)}
+				placeholder={t("search_users")}
+				disabled={isFull}
+				className="font-mono"
+				data-testid="conversation-member-search"
+			/>
+			{candidates.length > 0 && (
+				<ul className="rounded border border-gray-200 bg-white">
+					{candidates.map(candidate => (
+						<li key={candidate.id}>
+							<button
+								type="button"
+								onClick={() => addMember(candidate)}
+								className="w-full px-3 py-1 text-left font-mono text-sm hover:bg-blue-50"
+							>
+								@{candidate.username}
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+			{members.length > 1 && (
+				<Input
+					value={title}
+					onChange={(e: ChangeEvent<HTMLInputElement>) => setTitle(e.target.value)}
+					placeholder={t("conversation_title_optional")}
+					className="font-mono"
+					data-testid="conversation-title-input"
+				/>
+			)}
+			<div className="flex justify-end gap-2">
+				<Button variant="outline" onClick={onCancel} className="font-mono">
+					{t("cancel")}
+				</Button>
+				<Button
+					onClick={() =>
+						create.mutate({
+							userIds: members.map(member => member.id),
+							title: members.length > 1 && title.trim() ? title.trim() : undefined,
+						})
+					}
+					disabled={members.length === 0 || create.isPending}
+					className="font-mono"
+					data-testid="start-conversation-button"
+				>
+					{t("start_conversation")}
+				</Button>
+			</div>
+		</div>
+	)
+}
+
+export function MessagesPage() {
+	const { t } = useTranslation()
+	const { user } = useAuth()
+	const { showError } = useNotificationContext()
+	const utils = api.useUtils()
+	const [selectedId, setSelectedId] = useState<number | null>(null)
+	const [composing, setComposing] = useState(false)
+	const [draft, setDraft] = useState("")
+
+	const conversations = api.dm.list.useQuery(undefined, { refetchOnWindowFocus: false })
+	const historyKey = { conversationId: selectedId ?? 0 }
+	const history = api.dm.history.useQuery(historyKey, {
+		enabled: !!selectedId,
+		refetchOnWindowFocus: false,
+	})
+	const selected = conversations.data?.find(conversation => conversation.id === selectedId)
+
+	const { mutate: markRead } = api.dm.markRead.useMutation({
+		onSuccess: ({ unreadCount }, { conversationId }) => {
+			utils.dm.list.setData(undefined, old =>
+				old?.map(conversation =>
+					conversation.id === conversationId ? { ...conversation, unreadCount } : conversation
+				)
+			)
+		},
+	})
+
+	// Reading the open conversation moves the read receipt as new messages arrive
+	const latest = history.data?.items[0]
+	useEffect(() => {
+		if (selectedId && latest && latest.sender?.id !== user?.id) {
+			markRead({ conversationId: selectedId, messageId: latest.id })
+		}
+	}, [selectedId, latest, user?.id, markRead])
+
+	// Messages and receipts missed while disconnected are replayed; reload when they no longer can be
+	const reloadConversations = () => {
+		void utils.dm.list.invalidate()
+		void utils.dm.history.invalidate()
+	}
+
+	api.dm.onMessage.useSubscription(undefined, {
+		onData: onRoomMessage(reloadConversations, message => {
+			utils.dm.history.setData({ conversationId: message.conversationId }, old =>
+				prependMessage(old, message)
+			)
+			const listed = utils.dm.list
+				.getData()
+				?.some(conversation => conversation.id === message.conversationId)
+			if (!listed) {
+				// Someone started a conversation with us
+				void utils.dm.list.invalidate()
+				return
+			}
+			const unread = message.sender?.id !== user?.id && message.conversationId !== selectedId
+			utils.dm.list.setData(undefined, old => {
+				const conversation = old?.find(c => c.id === message.conversationId)
+				if (!old || !conversation) return old
+				return [
+					{
+						...conversation,
+						lastMessage: message,
+						lastMessageAt: message.createdAt,
+						unreadCount: conversation.unreadCount + (unread ? 1 : 0),
+					},
+					...old.filter(c => c.id !== conversation.id),
+				]
+			})
+		}),
+	})
+
+	api.dm.onRead.useSubscription(undefined, {
+		onData: onRoomMessage(reloadConversations, receipt => {
+			utils.dm.history.setData({ conversationId: receipt.conversationId }, old =>
+				old
+					? {
+							...old,
+							receipts: old.receipts.map(r => (r.userId === receipt.userId ? receipt : r)),
+						}
+					: old
+			)
+		}),
+	})
+
+	const send = api.dm.send.useMutation({
+		onSuccess: message => {
+			setDraft("")
+			utils.dm.history.setData({ conversationId: message.conversationId }, old =>
+				prependMessage(old, message)
+			)
+		},
+		onError: error => {
+			log.error("Failed to send message", error)
+			showError(t("message_send_failed"), error.message)
+		},
+	})
+
+	const handleSend = () => {
+		if (selectedId && draft.trim()) {
+			send.mutate({ conversationId: selectedId, body: draft })
+		}
+	}
+
+	// Enter sends; Shift+Enter inserts a line break
+	const handleDraftKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+		if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+			e.preventDefault()
+			handleSend()
+		}
+	}
+
+	const handleLoadOlder = async () => {
+		const cursor = history.data?.nextCursor
+		if (!selectedId || !cursor) return
+		try {
+			const page = await utils.dm.history.fetch({ conversationId: selectedId, cursor })
+			utils.dm.history.setData(historyKey, old =>
+				old
+					? {
+							...old,
+							items: [...old.items, ...page.items.filter(m => !old.items.some(o => o.id === m.id))],
+							nextCursor: page.nextCursor,
+						}
+					: old
+			)
+		} catch (e) {
+			log.error("Failed to load older messages", e)
+			showError(t("messages_load_failed"), e instanceof Error ? e.message : String(e))
+		}
+	}
+
+	const handleCreated = (conversationId: number) => {
+		setComposing(false)
+		setSelectedId(conversationId)
+		void utils.dm.list.invalidate()
+	}
+
+	// Read receipt under the newest own message: "Read" in 1:1 chats, "Read by N" in groups
+	const messages = history.data ? [...history.data.items].reverse() : []
+	const lastOwnMessage = history.data?.items.find(message => message.sender?.id === user?.id)
+	const readers = lastOwnMessage
+		? (history.data?.receipts ?? []).filter(
+				receipt =>
+					receipt.userId !== user?.id && (receipt.lastReadMessageId ?? 0) >= lastOwnMessage.id
+			).length
+		: 0
+	const otherMembers = (selected?.members.length ?? 1) - 1
+
+	return (
+		<div className="bg-gray-100 min-h-full">
+			<main className="max-w-6xl mx-auto px-4 py-6">
+				<h1 className="text-2xl font-bold font-mono mb-4">{t("messages")}</h1>
+				<div className="flex h-[70vh] bg-white border border-gray-400">
+					{/* Conversations */}
+					<aside className="w-72 flex-shrink-0 border-r border-gray-300 flex flex-col">
+						<div className="flex items-center justify-between border-b border-gray-300 px-3 py-2">
+							<span className="font-mono font-bold text-sm">{t("conversations")}</span>
+							<button
+								type="button"
+								onClick={() => setComposing(open => !open)}
+								className="p-1 hover:text-blue-600"
+								aria-label={t("new_conversation")}
+								data-testid="new-conversation-button"
+							>
+								<FiPlus />
+							</button>
+						</div>
+						{composing && (
+							<NewConversationForm onCreated={handleCreated} onCancel={() => setComposing(false)} />
+						)}
+						<ul
+							className="flex-1 overflow-y-auto divide-y divide-gray-200"
+							data-testid="conversation-list"
+						>
+							{conversations.isLoading ? (
+								<li className="px-3 py-4 font-mono text-sm text-gray-500">{t("loading")}</li>
+							) : conversations.data?.length ? (
+								conversations.data.map(conversation => (
+									<li key={conversation.id}>
+										<button
+											type="button"
+											onClick={() => setSelectedId(conversation.id)}
+											className={`w-full px-3 py-2 text-left hover:bg-blue-50 ${
+												conversation.id === selectedId ? "bg-blue-100" : ""
+											}`}
+											aria-current={conversation.id === selectedId}
+										>
+											<div className="flex items-center justify-between gap-2">
+												<span className="font-mono text-sm font-bold truncate">
+													{conversationName(conversation, user?.id)}
+												</span>
+												{conversation.unreadCount > 0 && (
+													<span
+														className="min-w-[20px] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center"
+														aria-label={t("unread_messages", { count: conversation.unreadCount })}
+														data-testid="conversation-unread-badge"
+													>
+														{conversation.unreadCount > 99 ? "99+" : conversation.unreadCount}
+													</span>
+												)}
+											</div>
+											{conversation.lastMessage && (
+												<p className="font-mono text-xs text-gray-500 truncate">
+													{conversation.lastMessage.sender?.username ?? t("deleted_user")}:{" "}
+													{conversation.lastMessage.body}
+												</p>
+											)}
+										</button>
+									</li>
+								))
+							) : (
+								<li className="px-3 py-4 font-mono text-sm text-gray-500">
+									{t("no_conversations")}
+								</li>
+							)}
+						</ul>
+					</aside>
+
+					{/* Selected conversation */}
+					<section className="flex-1 flex flex-col min-w-0">
+						{selected ? (
+							<>
+								<div className="bg-gray-200 border-b border-gray-400 px-4 py-2">
+									<h2 className="font-bold font-mono truncate">
+										{conversationName(selected, user?.id)}
+									</h2>
+									{selected.title && (
+										<p className="font-mono text-xs text-gray-600 truncate">
+											{selected.members.map(member => member.username).join(", ")}
+										</p>
+									)}
+								</div>
+								<div
+									className="flex-1 overflow-y-auto px-4 py-3 space-y-3"
+									data-testid="message-list"
+								>
+									{history.data?.nextCursor && (
+										<button
+											type="button"
+											onClick={() => handleLoadOlder()}
+											className="font-mono text-sm text-blue-600 hover:underline"
+											data-testid="load-older-messages-button"
+										>
+											{t("load_older_messages")}
+										</button>
+									)}
+									{history.isLoading ? (
+										<p className="font-mono text-sm text-gray-500">{t("loading")}</p>
+									) : messages.length === 0 ? (
+										<p className="font-mono text-sm text-gray-500">{t("no_messages")}</p>
+									) : (
+										messages.map(message => {
+											const own = message.sender?.id === user?.id
+											return (
+												<div
+													key={message.id}
+													className={`flex flex-col ${own ? "items-end" : "items-start"}`}
+												>
+													<div className="font-mono text-xs text-gray-500">
+														{own ? "" : `${message.sender?.username ?? t("deleted_user")} · `}
+														{formatDate(message.createdAt)}
+													</div>
+													<div
+														className={`max-w-[75%] rounded px-3 py-2 text-sm whitespace-pre-wrap break-words ${
+															own ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-900"
+														}`}
+													>
+														{message.body}
+													</div>
+													{message.id === lastOwnMessage?.id && readers > 0 && (
+														<div
+															className="font-mono text-xs text-gray-500"
+															data-testid="read-receipt"
+														>
+															{otherMembers === 1
+																? t("message_read")
+																: t("message_read_by", { count: readers })}
+														</div>
+													)}
+												</div>
+											)
+										})
+									)}
+								</div>
+								<div className="border-t border-gray-400 bg-gray-50 px-4 py-3 space-y-2">
+									<Textarea
+										value={draft}
+										onChange={(e: ChangeEvent<HTMLTextAreaElement>) => setDraft(e.target.value)}
+										onKeyDown={handleDraftKeyDown}
+										placeholder={t("message_placeholder")}
+										maxLength={DIRECT_MESSAGES.MESSAGE_MAX_LENGTH}
+										rows={2}
+										className="font-mono"
+										data-testid="message-input"
+									/>
+									<div className="flex justify-end">
+										<Button
+											onClick={handleSend}
+											disabled={!draft.trim() || send.isPending}
+											className="font-mono"
+											data-testid="send-message-button"
+										>
+											{t("send")}
+										</Button>
+									</div>
+								</div>
+							</>
+						) : (
+							<div className="flex-1 flex items-center justify-center font-mono text-gray-500">
+								{t("select_conversation")}
+							</div>
+						)}
+					</section>
+				</div>
+			</main>
+		</div>
+	)
+}
@@ -0,0 +1,170 @@
+import { createContextLogger } from "@logger"
+import React, { type ChangeEvent, useEffect, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { Button } from "../components/ui/Button"
+import { Input } from "../components/ui/Input"
+import { useNotificationContext } from "../contexts/NotificationContext"
+import { api } from "../trpc"
+
+const log = createContextLogger("NotificationSettingsPage")
+
+type NotificationType = "mention" | "reply" | "reaction" | "broadcast"
+type Channel = "toast" | "center" | "emailDigest"
+type ChannelSettings = { type: NotificationType } & Record<Channel, boolean>
+
+const CHANNELS: Channel[] = ["toast", "center", "emailDigest"]
+
+const DEFAULT_QUIET_HOURS = { start: "22:00", end: "07:00" }
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+
+export function NotificationSettingsPage() {
+	const { t } = useTranslation()
+	const { showSuccess, showError } = useNotificationContext()
+	const utils = api.useUtils()
+	const preferences = api.preferences.get.useQuery(undefined, { refetchOnWindowFocus: false })
+
+	const [types, setTypes] = useState<ChannelSettings[]>([])
+	const [quietEnabled, setQuietEnabled] = useState(false)
+	const [quietStart, setQuietStart] = useState(DEFAULT_QUIET_HOURS.start)
+	const [quietEnd, setQuietEnd] = useState(DEFAULT_QUIET_HOURS.end)
+	const [timeZone, setTimeZone] = useState(browserTimeZone)
+
+	// Start editing from the saved settings
+	useEffect(() => {
+		if (!preferences.data) return
+		setTypes(preferences.data.types)
+		const quietHours = preferences.data.quietHours
+		setQuietEnabled(!!quietHours)
+		setQuietStart(quietHours?.start ?? DEFAULT_QUIET_HOURS.start)
+		setQuietEnd(quietHours?.end ?? DEFAULT_QUIET_HOURS.end)
+		setTimeZone(quietHours?.timeZone ?? browserTimeZone())
+	}, [preferences.data])
+
+	const update = api.preferences.update.useMutation({
+		onSuccess: data => {
+			utils.preferences.get.setData(undefined, data)
+			showSuccess(t("notification_settings"), t("notification_settings_saved"))
+		},
+		onError: error => {
+			log.error("Failed to save notification settings", error)
+			showError(t("notification_settings"), error.message)
+		},
+	})
+
+	const toggleChannel = (type: NotificationType, channel: Channel) => {
+		setTypes(current =>
+			current.map(item => (item.type === type ? { ...item, [channel]: !item[channel] } : item))
+		)
+	}
+
+	const handleSave = () => {
+		update.mutate({
+			types,
+			quietHours: quietEnabled ? { start: quietStart, end: quietEnd, timeZone } : null,
+		})
+	}
+
+	return (
+		<div className="bg-gray-100 min-h-full">
+			<main className="max-w-3xl mx-auto px-4 py-6 space-y-6">
+				<h1 className="text-2xl font-bold font-mono">{t("notification_settings")}</h1>
+
+				{preferences.isLoading ? (
+					<div className="flex justify-center items-center h-32">
+						<p className="font-mono text-gray-600">{t("loading")}</p>
+					</div>
+				) : (
+					<>
+						{/* Channels per notification type */}
+						<section className="bg-white rounded-lg shadow p-4">
+							<h2 className="font-mono font-bold mb-3">{t("notification_channels")}</h2>
+							<table className="w-full font-mono text-sm" data-testid="notification-channels">
+								<thead>
+									<tr className="text-left text-gray-600">
+										<th className="py-2">{t("notification_type")}</th>
+										{CHANNELS.map(channel => (
+											<th key={channel} className="py-2 text-center">
+												{t(`notification_channel_${channel}`)}
+											</th>
+										))}
+									</tr>
+								</thead>
+								<tbody>
+									{types.map(item => (
+										<tr key={item.type} className="border-t border-gray-100">
+											<td className="py-2">{t(`notification_type_${item.type}`)}</td>
+											{CHANNELS.map(channel => (
+												<td key={channel} className="py-2 text-center">
+													<input
+														type="checkbox"
+														checked={item[channel]}
+														onChange={() => toggleChannel(item.type, channel)}
+														aria-label={`${t(`notification_type_${item.type}`)}: ${t(
+															`notification_channel_${channel}`
+														)}`}
+														data-testid={`notification-${item.type}-${channel}`}
+													/>
+												</td>
+											))}
+										</tr>
+									))}
+								</tbody>
+							</table>
+							<p className="font-mono text-xs text-gray-500 mt-3">
+								{t("notification_channels_hint")}
+							</p>
+						</section>
+
+						{/* Quiet hours */}
+						<section className="bg-white rounded-lg shadow p-4 space-y-3">
+							<label className="flex items-center gap-2 font-mono font-bold">
+								<input
+									type="checkbox"
+									checked={quietEnabled}
+									onChange={e => setQuietEnabled(e.target.checked)}
+									data-testid="quiet-hours-enabled"
+								/>
+								{t("quiet_hours")}
+							</label>
+							<p className="font-mono text-xs text-gray-500">{t("quiet_hours_hint")}</p>
+							<div className="flex flex-wrap items-center gap-2 font-mono text-sm">
+								<Input
+									type="time"
+									value={quietStart}
+									onChange={(e: ChangeEvent<HTMLInputElement>) => setQuietStart(e.target.value)}
+									disabled={!quietEnabled}
+									className="w-32"
+									aria-label={t("quiet_hours_start")}
+									data-testid="quiet-hours-start"
+								/>
+								<span>〜</span>
+								<Input
+									type="time"
+									value={quietEnd}
+									onChange={(e: ChangeEvent<HTMLInputElement>) => setQuietEnd(e.target.value)}
+									disabled={!quietEnabled}
+									className="w-32"
+									aria-label={t("quiet_hours_end")}
+									data-testid="quiet-hours-end"
+								/>
+								<span className="text-gray-600">({timeZone})</span>
+							</div>
+						</section>
+
+						<div className="flex justify-end">
+							<Button
+								onClick={handleSave}
+								disabled={update.isPending || types.length === 0}
+								className="font-mono"
+								data-testid="save-notification-settings"
+							>
+								{t("save")}
+							</Button>
+						</div>
+					</>
+				)}
+			</main>
+		</div>
+	)
+}
@@ -0,0 +1,231 @@
+import { createContextLogger } from "@logger"
+import type { ColumnDef } from "@tanstack/react-table"
+import React, { useEffect, useMemo, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { FiRotateCcw, FiTrash2 } from "react-icons/fi"
+import { useNavigate } from "react-router-dom"
+import { Button } from "../components/ui/Button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../components/ui/Dialog"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "../components/ui/Select"
+import { Table } from "../components/ui/Table"
+import { useAuth } from "../contexts/AuthContext"
+import { useNotificationContext } from "../contexts/NotificationContext"
+import { api } from "../trpc"
+
+const log = createContextLogger("TrashPage")
+
+type TrashType = "post" | "comment"
+
+const formatDate = (value: Date | string) => {
+	return new Date(value).toLocaleString()
+}
+
+export function TrashPage() {
+	const { t } = useTranslation()
+	const { isAdmin } = useAuth()
+	const navigate = useNavigate()
+	const { showSuccess, showError } = useNotificationContext()
+
+	// Check admin access
+	useEffect(() => {
+		if (!isAdmin) {
+			navigate("/")
+		}
+	}, [isAdmin, navigate])
+
+	// Return null if not admin (redirect will happen)
+	if (!isAdmin) {
+		return null
+	}
+
+	const [typeFilter, setTypeFilter] = useState<"all" | TrashType>("all")
+	const [purgeTarget, setPurgeTarget] = useState<{ type: TrashType; id: number } | null>(null)
+
+	const trash = api.admin.trash.list.useQuery(
+		{ type: typeFilter === "all" ? undefined : typeFilter },
+		{
+			staleTime: 30_000,
+			refetchOnWindowFocus: false,
+			refetchOnMount: true,
+			refetchOnReconnect: true,
+		}
+	)
+
+	const restore = api.admin.trash.restore.useMutation({
+		onSuccess: () => {
+			trash.refetch()
+			showSuccess(t("trash_restored"), t("trash_restored_desc"))
+			log.info("Trash item restored")
+		},
+		onError: e => {
+			showError(t("trash_restore_failed"), e.message ?? String(e))
+			log.error("Failed to restore trash item", e)
+		},
+	})
+
+	const purge = api.admin.trash.purge.useMutation({
+		onSuccess: () => {
+			setPurgeTarget(null)
+			trash.refetch()
+			showSuccess(t("trash_purged"), t("trash_purged_desc"))
+			log.info("Trash item purged")
+		},
+		onError: e => {
+			showError(t("trash_purge_failed"), e.message ?? String(e))
+			log.error("Failed to purge trash item", e)
+		},
+	})
+
+	const columns = useMemo<ColumnDef<any>[]>(
+		() => [
+			{
+				accessorKey: "type",
+				header: () => <span className="font-mono">{t("trash_type")}</span>,
+				cell: info => (
+					<span className="font-mono text-gray-600">
+						{info.getValue() === "post" ? t("trash_type_post") : t("trash_type_comment")}
+					</span>
+				),
+			},
+			{
+				id: "content",
+				header: () => <span className="font-mono">{t("trash_content")}</span>,
+				cell: info => {
+					const item = info.row.original
+					return (
+						<div className="font-mono max-w-md">
+							{item.title && <div className="font-bold truncate">{item.title}</div>}
+							<div className="text-sm text-gray-600 truncate">{item.body}</div>
+						</div>
+					)
+				},
+			},
+			{
+				id: "author",
+				header: () => <span className="font-mono">{t("author")}</span>,
+				cell: info => <span className="font-mono">{info.row.original.author.username}</span>,
+			},
+			{
+				accessorKey: "deletedAt",
+				header: () => <span className="font-mono">{t("trash_deleted_at")}</span>,
+				cell: info => (
+					<span className="font-mono text-gray-600">{formatDate(info.getValue<Date>())}</span>
+				),
+			},
+			{
+				id: "deletedBy",
+				header: () => <span className="font-mono">{t("trash_deleted_by")}</span>,
+				cell: info => (
+					<span className="font-mono text-gray-600">
+						{info.row.original.deletedBy?.username ?? "-"}
+					</span>
+				),
+			},
+			{
+				id: "actions",
+				header: () => <span className="font-mono">{t("actions")}</span>,
+				cell: info => {
+					const item = info.row.original
+					return (
+						<div className="flex gap-2">
+							<Button
+								variant="default"
+								size="sm"
+								onClick={() => restore.mutate({ type: item.type, id: item.id })}
+								disabled={restore.isPending}
+								className="font-mono bg-gray-700 hover:bg-gray-800 text-white"
+								title={t("trash_restore")}
+								data-testid="restore-trash-button"
+							>
+								<FiRotateCcw className="w-4 h-4" />
+							</Button>
+							<Button
+								variant="destructive"
+								size="sm"
+								onClick={() => setPurgeTarget({ type: item.type, id: item.id })}
+								className="font-mono"
+								title={t("trash_purge")}
+								data-testid="purge-trash-button"
+							>
+								<FiTrash2 className="w-4 h-4" />
+							</Button>
+						</div>
+					)
+				},
+			},
+		],
+		[t, restore]
+	)
+
+	return (
+		<div className="bg-gray-100 min-h-full">
+			<main className="max-w-6xl mx-auto px-4 py-6">
+				{/* Header */}
+				<div className="mb-6 flex items-center justify-between">
+					<h1 className="text-2xl font-bold font-mono">{t("trash")}</h1>
+					<Select value={typeFilter} onValueChange={v => setTypeFilter(v as "all" | TrashType)}>
+						<SelectTrigger className="font-mono w-40">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="all" className="font-mono">
+								{t("trash_type_all")}
+							</SelectItem>
+							<SelectItem value="post" className="font-mono">
+								{t("trash_type_post")}
+							</SelectItem>
+							<SelectItem value="comment" className="font-mono">
+								{t("trash_type_comment")}
+							</SelectItem>
+						</SelectContent>
+					</Select>
+				</div>
+
+				{/* Trash List */}
+				{trash.isLoading ? (
+					<div className="flex justify-center items-center h-32">
+						<p className="font-mono text-gray-600">{t("loading")}</p>
+					</div>
+				) : (trash.data ?? []).length === 0 ? (
+					<div className="flex justify-center items-center h-32">
+						<p className="font-mono text-gray-600">{t("trash_empty")}</p>
+					</div>
+				) : (
+					<Table data={trash.data ?? []} columns={columns} pageSize={10} data-testid="trash-list" />
+				)}
+			</main>
+
+			{/* Purge Confirmation Dialog */}
+			<Dialog open={!!purgeTarget} onOpenChange={open => !open && setPurgeTarget(null)}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle className="font-mono">{t("trash_purge")}</DialogTitle>
+					</DialogHeader>
+					<div className="space-y-3">
+						<p className="font-mono">{t("trash_purge_confirm")}</p>
+						<div className="flex justify-end gap-2">
+							<Button variant="outline" onClick={() => setPurgeTarget(null)} className="font-mono">
+								{t("cancel")}
+							</Button>
+							<Button
+								variant="destructive"
+								onClick={() => purgeTarget && purge.mutate(purgeTarget)}
+								disabled={purge.isPending}
+								className="font-mono"
+								data-testid="purge-trash-confirm-button"
+							>
+								{t("trash_purge")}
+							</Button>
+						</div>
+					</div>
+				</DialogContent>
+			</Dialog>
+		</div>
+	)
+}
@@ -1,8 +1,8 @@
 import { createContextLogger } from "@logger"
 import type { ColumnDef } from "@tanstack/react-table"
-import React, { useEffect, useMemo, useState } from "react"
+import React, { useCallback, useEffect, useMemo, useState } from "react"
 import { useTranslation } from "react-i18next"
-import { FiEdit, FiTrash2 } from "react-icons/fi"
+import { FiEdit, FiLogOut, FiTrash2 } from "react-icons/fi"
 import { useNavigate } from "react-router-dom"
 import { Button } from "../components/ui/Button"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../components/ui/Dialog"
@@ -60,6 +60,7 @@ export function UserManagementPage() {
 	const [createOpen, setCreateOpen] = useState(false)
 	const [editOpen, setEditOpen] = useState(false)
 	const [deleteOpen, setDeleteOpen] = useState(false)
+	const [forceLogoutOpen, setForceLogoutOpen] = useState(false)
 	const [selectedUser, setSelectedUser] = useState<any>(null)
 
 	// Form states
@@ -115,6 +116,22 @@ export function UserManagementPage() {
 		},
 	})
 
+	const forceLogout = api.admin.forceLogout.useMutation({
+		onSuccess: result => {
+			setForceLogoutOpen(false)
+			setSelectedUser(null)
+			showSuccess(
+				t("force_logout_done"),
+				t("force_logout_done_desc", { count: result.revokedSessions })
+			)
+			log.info("User sessions terminated successfully", { revokedSessions: result.revokedSessions })
+		},
+		onError: e => {
+			showError(t("user_failed"), e.message ?? String(e))
+			log.error("Failed to terminate user sessions", e)
+		},
+	})
+
 	// Helper function to check if user role is admin
 	const isUserRoleAdmin = (userRole: string) => userRole === "ADMIN"
 
@@ -153,6 +170,12 @@ export function UserManagementPage() {
 		setDeleteOpen(true)
 	}
 
+	// Stable so the columns memo below does not rebuild on every render
+	const handleForceLogout = useCallback((user: any) => {
+		setSelectedUser(user)
+		setForceLogoutOpen(true)
+	}, [])
+
 	const handleCreateUser = () => {
 		createUser.mutate({ username, password, role })
 	}
@@ -174,6 +197,12 @@ export function UserManagementPage() {
 		}
 	}
 
+	const handleForceLogoutUser = () => {
+		if (selectedUser) {
+			forceLogout.mutate({ userId: selectedUser.id })
+		}
+	}
+
 	// Table columns
 	const columns = useMemo<ColumnDef<any>[]>(
 		() => [
@@ -225,6 +254,16 @@ export function UserManagementPage() {
 							>
 								<FiEdit className="w-4 h-4" />
 							</Button>
+							<Button
+								variant="outline"
+								size="sm"
+								onClick={() => handleForceLogout(user)}
+								className="font-mono"
+								title={t("force_logout")}
+								data-testid="force-logout-user-button"
+							>
+								<FiLogOut className="w-4 h-4" />
+							</Button>
 							<Button
 								variant="destructive"
 								size="sm"
@@ -240,7 +279,7 @@ export function UserManagementPage() {
 				},
 			},
 		],
-		[t, handleEdit, handleDelete, isUserRoleAdmin, getRoleDisplayName]
+		[t, handleEdit, handleDelete, handleForceLogout, isUserRoleAdmin, getRoleDisplayName]
 	)
 
 	return (
@@ -438,6 +477,38 @@ export function UserManagementPage() {
 					</div>
 				</DialogContent>
 			</Dialog>
+
+			{/* Force Logout Dialog */}
+			<Dialog open={forceLogoutOpen} onOpenChange={setForceLogoutOpen}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle className="font-mono">{t("force_logout")}</DialogTitle>
+					</DialogHeader>
+					<div className="space-y-3">
+						<p className="font-mono">
+							{t("force_logout_confirm", { username: selectedUser?.username })}
+						</p>
+						<div className="flex justify-end gap-2">
+							<Button
+								variant="outline"
+								onClick={() => setForceLogoutOpen(false)}
+								className="font-mono"
+							>
+								{t("cancel")}
+							</Button>
+							<Button
+								variant="destructive"
+								onClick={handleForceLogoutUser}
+								disabled={forceLogout.isPending}
+								className="font-mono"
+								data-testid="force-logout-confirm-button"
+							>
+								{t("force_logout")}
+							</Button>
+						</div>
+					</div>
+				</DialogContent>
+			</Dialog>
 		</div>
 	)
 }
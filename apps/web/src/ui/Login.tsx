@@ -10,10 +10,11 @@ type LoginProps = {
 	onSsoLogin: () => Promise<void> | void
 	isProcessing?: boolean
 	errorMessage?: string | null
+	noticeMessage?: string | null
 	hasSsoConfig?: boolean
 }
 
-export function Login({ onLocalLogin, onSsoLogin, isProcessing = false, errorMessage, hasSsoConfig = false }: LoginProps) {
+export function Login({ onLocalLogin, onSsoLogin, isProcessing = false, errorMessage, noticeMessage, hasSsoConfig = false }: LoginProps) {
 	const { showError } = useNotificationContext()
 	const [username, setUsername] = useState("")
 	const [password, setPassword] = useState("")
@@ -55,6 +56,11 @@ export function Login({ onLocalLogin, onSsoLogin, isProcessing = false, errorMes
 					</CardDescription>
 				</CardHeader>
 				<CardContent>
+					{noticeMessage && (
+						<p className="text-sm text-muted-foreground mb-4 rounded-md border p-3">
+							{noticeMessage}
+						</p>
+					)}
 					{hasSsoConfig && (
 						<div className="flex gap-2 mb-4 border-b pb-4">
 							<Button
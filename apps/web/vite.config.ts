@@ -30,6 +30,10 @@ export default defineConfig({
 				target: 'http://localhost:3001',
 				changeOrigin: true,
 			},
+			'/uploads': {
+				target: 'http://localhost:3001',
+				changeOrigin: true,
+			},
 		},
 		headers: {
 			"X-Content-Type-Options": "nosniff",